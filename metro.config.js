@@ -10,13 +10,17 @@ config.resolver.alias = {
   ...config.resolver.alias,
 };
 
-// Configuração específica para web - desabilita expo-sqlite na web
-config.resolver.resolverMainFields = ['react-native', 'browser', 'main'];
+// Na web o expo-sqlite carrega o SQLite compilado para WebAssembly
+config.resolver.assetExts.push('wasm');
 
-// Configuração para ignorar expo-sqlite na web
-config.resolver.blockList = [
-  /node_modules\/expo-sqlite\/web\/.*/,
-];
+// O worker do expo-sqlite usa SharedArrayBuffer, que exige isolamento de origem
+config.server.enhanceMiddleware = (middleware) => {
+  return (req, res, next) => {
+    res.setHeader('Cross-Origin-Embedder-Policy', 'credentialless');
+    res.setHeader('Cross-Origin-Opener-Policy', 'same-origin');
+    middleware(req, res, next);
+  };
+};
 
 // Configuração específica para web
 config.transformer.minifierConfig = {
@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import {
+  Modal,
+  Portal,
+  Card,
+  Text,
+  Button,
+  Divider
+} from 'react-native-paper';
+import { ReportField, SubmissionConflict } from '../types';
+import { formatFieldValue } from '../services/attachmentService';
+
+interface ConflictMergeModalProps {
+  visible: boolean;
+  fields: ReportField[];
+  conflict: SubmissionConflict | null;
+  onDismiss: () => void;
+  onResolve: (mergedData: Record<string, any>) => void;
+}
+
+type Choice = 'mine' | 'theirs';
+
+const isSameValue = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const ConflictMergeModal: React.FC<ConflictMergeModalProps> = ({
+  visible,
+  fields,
+  conflict,
+  onDismiss,
+  onResolve
+}) => {
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+
+  const localData = conflict?.localData || {};
+  const serverData = conflict?.serverSubmission.data || {};
+
+  const conflictingFields = [...fields]
+    .sort((a, b) => a.order - b.order)
+    .filter(field => !isSameValue(localData[field.id], serverData[field.id]));
+
+  // Por padrão mantém os valores locais
+  useEffect(() => {
+    setChoices({});
+  }, [conflict?.submissionId, conflict?.detectedAt]);
+
+  const getChoice = (fieldId: string): Choice => choices[fieldId] || 'mine';
+
+  const chooseAll = (choice: Choice) => {
+    const all: Record<string, Choice> = {};
+    conflictingFields.forEach(field => {
+      all[field.id] = choice;
+    });
+    setChoices(all);
+  };
+
+  const handleResolve = () => {
+    // Campos sem diferença partem da cópia do servidor
+    const merged: Record<string, any> = { ...serverData, ...localData };
+    conflictingFields.forEach(field => {
+      merged[field.id] = getChoice(field.id) === 'mine'
+        ? localData[field.id]
+        : serverData[field.id];
+    });
+    onResolve(merged);
+  };
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={styles.modalContainer}
+      >
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="headlineSmall" style={styles.title}>Resolver Conflito</Text>
+            <Text style={styles.subtitle}>
+              Esta resposta foi alterada em outro dispositivo. Escolha qual valor manter em cada campo.
+            </Text>
+
+            <View style={styles.bulkActions}>
+              <Button mode="text" compact onPress={() => chooseAll('mine')}>
+                Manter todos os meus
+              </Button>
+              <Button mode="text" compact onPress={() => chooseAll('theirs')}>
+                Usar todos do servidor
+              </Button>
+            </View>
+
+            <ScrollView style={styles.fieldsList}>
+              {conflictingFields.length === 0 ? (
+                <Text style={styles.emptyText}>
+                  Nenhum campo diverge entre as versões.
+                </Text>
+              ) : (
+                conflictingFields.map((field, index) => (
+                  <View key={field.id} style={styles.fieldItem}>
+                    <Text style={styles.fieldLabel}>{field.label}</Text>
+                    <Button
+                      mode={getChoice(field.id) === 'mine' ? 'contained' : 'outlined'}
+                      onPress={() => setChoices(prev => ({ ...prev, [field.id]: 'mine' }))}
+                      style={styles.choiceButton}
+                      contentStyle={styles.choiceContent}
+                      icon="cellphone"
+                    >
+                      {`Meu: ${formatFieldValue(localData[field.id])}`}
+                    </Button>
+                    <Button
+                      mode={getChoice(field.id) === 'theirs' ? 'contained' : 'outlined'}
+                      onPress={() => setChoices(prev => ({ ...prev, [field.id]: 'theirs' }))}
+                      style={styles.choiceButton}
+                      contentStyle={styles.choiceContent}
+                      icon="cloud"
+                    >
+                      {`Servidor: ${formatFieldValue(serverData[field.id])}`}
+                    </Button>
+                    {index < conflictingFields.length - 1 && <Divider style={styles.divider} />}
+                  </View>
+                ))
+              )}
+            </ScrollView>
+
+            <View style={styles.actions}>
+              <Button
+                mode="outlined"
+                onPress={onDismiss}
+                style={styles.actionButton}
+              >
+                Depois
+              </Button>
+              <Button
+                mode="contained"
+                onPress={handleResolve}
+                style={styles.actionButton}
+              >
+                Aplicar
+              </Button>
+            </View>
+          </Card.Content>
+        </Card>
+      </Modal>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    margin: 20,
+  },
+  card: {
+    maxHeight: '90%',
+    elevation: 8,
+  },
+  title: {
+    textAlign: 'center',
+    color: '#333',
+    marginBottom: 8,
+  },
+  subtitle: {
+    textAlign: 'center',
+    color: '#666',
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  bulkActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  fieldsList: {
+    maxHeight: 400,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#666',
+    fontStyle: 'italic',
+    marginVertical: 16,
+  },
+  fieldItem: {
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  choiceButton: {
+    marginBottom: 8,
+  },
+  choiceContent: {
+    justifyContent: 'flex-start',
+  },
+  divider: {
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+});
+
+export default ConflictMergeModal;
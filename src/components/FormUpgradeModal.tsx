@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import {
+  Modal,
+  Portal,
+  Card,
+  Text,
+  Button,
+  Divider
+} from 'react-native-paper';
+import { ReportField } from '../types';
+import { migrateAnswers, getMappingTargets } from '../services/formVersionService';
+
+interface FormUpgradeModalProps {
+  visible: boolean;
+  data: Record<string, any>;
+  fromFields: ReportField[]; // Versão em que a resposta foi preenchida
+  toFields: ReportField[]; // Versão atual do formulário
+  onDismiss: () => void;
+  onConfirm: (mapping: Record<string, string>) => void;
+}
+
+const FormUpgradeModal: React.FC<FormUpgradeModalProps> = ({
+  visible,
+  data,
+  fromFields,
+  toFields,
+  onDismiss,
+  onConfirm
+}) => {
+  // id do campo antigo -> id do campo novo que recebe a resposta
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (visible) {
+      setMapping({});
+    }
+  }, [visible]);
+
+  // Respostas que não seguem sozinhas para um campo de mesmo id
+  const { data: kept, dropped } = migrateAnswers(data, fromFields, toFields);
+
+  const getTargets = (field: ReportField) => {
+    const taken = [
+      ...Object.keys(kept),
+      ...Object.entries(mapping).filter(([fromId]) => fromId !== field.id).map(([, toId]) => toId),
+    ];
+    return getMappingTargets(field, data[field.id], toFields, taken);
+  };
+
+  const chooseTarget = (fieldId: string, targetId: string | null) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (targetId) {
+        next[fieldId] = targetId;
+      } else {
+        delete next[fieldId];
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={styles.modalContainer}
+      >
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="headlineSmall" style={styles.title}>Atualizar Formulário</Text>
+            <Text style={styles.subtitle}>
+              {dropped.length > 0
+                ? 'Estas respostas não têm campo correspondente na nova versão. Escolha um campo para recebê-las ou descarte-as.'
+                : 'Todas as respostas preenchidas serão mantidas.'}
+            </Text>
+
+            <ScrollView style={styles.fieldsList}>
+              {dropped.map((field, index) => {
+                const targets = getTargets(field);
+                return (
+                  <View key={field.id} style={styles.fieldItem}>
+                    <Text style={styles.fieldLabel}>{field.label}</Text>
+                    <Button
+                      mode={!mapping[field.id] ? 'contained' : 'outlined'}
+                      onPress={() => chooseTarget(field.id, null)}
+                      style={styles.choiceButton}
+                      contentStyle={styles.choiceContent}
+                      icon="delete"
+                    >
+                      Descartar resposta
+                    </Button>
+                    {targets.map(target => (
+                      <Button
+                        key={target.id}
+                        mode={mapping[field.id] === target.id ? 'contained' : 'outlined'}
+                        onPress={() => chooseTarget(field.id, target.id)}
+                        style={styles.choiceButton}
+                        contentStyle={styles.choiceContent}
+                        icon="arrow-right"
+                      >
+                        {`Levar para: ${target.label}`}
+                      </Button>
+                    ))}
+                    {targets.length === 0 && (
+                      <Text style={styles.emptyText}>Nenhum campo compatível na nova versão.</Text>
+                    )}
+                    {index < dropped.length - 1 && <Divider style={styles.divider} />}
+                  </View>
+                );
+              })}
+            </ScrollView>
+
+            <View style={styles.actions}>
+              <Button
+                mode="outlined"
+                onPress={onDismiss}
+                style={styles.actionButton}
+              >
+                Cancelar
+              </Button>
+              <Button
+                mode="contained"
+                onPress={() => onConfirm(mapping)}
+                style={styles.actionButton}
+              >
+                Atualizar
+              </Button>
+            </View>
+          </Card.Content>
+        </Card>
+      </Modal>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    margin: 20,
+  },
+  card: {
+    maxHeight: '90%',
+    elevation: 8,
+  },
+  title: {
+    textAlign: 'center',
+    color: '#333',
+    marginBottom: 8,
+  },
+  subtitle: {
+    textAlign: 'center',
+    color: '#666',
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  fieldsList: {
+    maxHeight: 400,
+  },
+  emptyText: {
+    color: '#666',
+    fontStyle: 'italic',
+    marginBottom: 8,
+  },
+  fieldItem: {
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  choiceButton: {
+    marginBottom: 8,
+  },
+  choiceContent: {
+    justifyContent: 'flex-start',
+  },
+  divider: {
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+});
+
+export default FormUpgradeModal;
@@ -0,0 +1,242 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import {
+  Modal,
+  Portal,
+  Card,
+  Text,
+  Button,
+  Chip
+} from 'react-native-paper';
+import { Project, Report, ReportFilter, User } from '../types';
+
+interface ReportFilterModalProps {
+  visible: boolean;
+  filter: ReportFilter;
+  projects: Project[];
+  owners: User[]; // Usuários que podem ser escolhidos como responsáveis
+  onDismiss: () => void;
+  onApply: (filter: ReportFilter) => void;
+}
+
+const STATUS_OPTIONS: { value: Report['status']; label: string }[] = [
+  { value: 'active', label: 'Ativo' },
+  { value: 'draft', label: 'Rascunho' },
+  { value: 'archived', label: 'Arquivado' },
+];
+
+const PERIOD_OPTIONS = [
+  { days: 7, label: 'Últimos 7 dias' },
+  { days: 30, label: 'Últimos 30 dias' },
+  { days: 90, label: 'Últimos 90 dias' },
+  { days: 365, label: 'Último ano' },
+];
+
+// Do início do dia, `days` dias atrás, até o fim de hoje
+const periodRange = (days: number) => {
+  const start = new Date();
+  start.setDate(start.getDate() - days);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date();
+  end.setHours(23, 59, 59, 999);
+  return { start: start.toISOString(), end: end.toISOString() };
+};
+
+const toggle = <T,>(list: T[] | undefined, value: T): T[] | undefined => {
+  const current = list || [];
+  const next = current.includes(value)
+    ? current.filter(item => item !== value)
+    : [...current, value];
+  return next.length > 0 ? next : undefined;
+};
+
+const ReportFilterModal: React.FC<ReportFilterModalProps> = ({
+  visible,
+  filter,
+  projects,
+  owners,
+  onDismiss,
+  onApply
+}) => {
+  const [draft, setDraft] = useState<ReportFilter>(filter);
+  const [periodDays, setPeriodDays] = useState<number | null>(null);
+
+  // Cada abertura parte dos filtros aplicados
+  useEffect(() => {
+    if (visible) {
+      setDraft(filter);
+      setPeriodDays(null);
+    }
+  }, [visible]);
+
+  const selectPeriod = (days: number) => {
+    if (periodDays === days) {
+      setPeriodDays(null);
+      setDraft(prev => ({ ...prev, dateRange: undefined }));
+    } else {
+      setPeriodDays(days);
+      setDraft(prev => ({ ...prev, dateRange: periodRange(days) }));
+    }
+  };
+
+  const clearAll = () => {
+    setPeriodDays(null);
+    setDraft({ searchTerm: filter.searchTerm });
+  };
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={styles.modalContainer}
+      >
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="headlineSmall" style={styles.title}>Filtrar Relatórios</Text>
+
+            <ScrollView style={styles.sections}>
+              <Text style={styles.sectionTitle}>Status</Text>
+              <View style={styles.chipGroup}>
+                {STATUS_OPTIONS.map(option => (
+                  <Chip
+                    key={option.value}
+                    selected={draft.status?.includes(option.value)}
+                    onPress={() => setDraft(prev => ({ ...prev, status: toggle(prev.status, option.value) }))}
+                    style={styles.chip}
+                  >
+                    {option.label}
+                  </Chip>
+                ))}
+              </View>
+
+              <Text style={styles.sectionTitle}>Período de criação</Text>
+              <View style={styles.chipGroup}>
+                {PERIOD_OPTIONS.map(option => (
+                  <Chip
+                    key={option.days}
+                    selected={periodDays === option.days}
+                    onPress={() => selectPeriod(option.days)}
+                    style={styles.chip}
+                  >
+                    {option.label}
+                  </Chip>
+                ))}
+              </View>
+              {draft.dateRange && periodDays === null && (
+                <Text style={styles.hintText}>
+                  Período atual: {new Date(draft.dateRange.start).toLocaleDateString('pt-BR')} a{' '}
+                  {new Date(draft.dateRange.end).toLocaleDateString('pt-BR')}
+                </Text>
+              )}
+
+              {projects.length > 0 && (
+                <>
+                  <Text style={styles.sectionTitle}>Projeto</Text>
+                  <View style={styles.chipGroup}>
+                    {projects.map(project => (
+                      <Chip
+                        key={project.id}
+                        selected={draft.projectId === project.id}
+                        onPress={() => setDraft(prev => ({
+                          ...prev,
+                          projectId: prev.projectId === project.id ? undefined : project.id
+                        }))}
+                        style={styles.chip}
+                      >
+                        {project.name}
+                      </Chip>
+                    ))}
+                  </View>
+                </>
+              )}
+
+              {owners.length > 0 && (
+                <>
+                  <Text style={styles.sectionTitle}>Responsável</Text>
+                  <View style={styles.chipGroup}>
+                    {owners.map(owner => (
+                      <Chip
+                        key={owner.id}
+                        selected={draft.assignedTo?.includes(owner.id)}
+                        onPress={() => setDraft(prev => ({ ...prev, assignedTo: toggle(prev.assignedTo, owner.id) }))}
+                        style={styles.chip}
+                      >
+                        {owner.name}
+                      </Chip>
+                    ))}
+                  </View>
+                </>
+              )}
+            </ScrollView>
+
+            <View style={styles.actions}>
+              <Button mode="text" onPress={clearAll} style={styles.actionButton}>
+                Limpar
+              </Button>
+              <Button
+                mode="contained"
+                onPress={() => onApply(draft)}
+                style={styles.actionButton}
+                icon="filter"
+              >
+                Aplicar
+              </Button>
+            </View>
+          </Card.Content>
+        </Card>
+      </Modal>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    margin: 20,
+  },
+  card: {
+    maxHeight: '90%',
+    elevation: 8,
+  },
+  title: {
+    textAlign: 'center',
+    color: '#333',
+    marginBottom: 8,
+  },
+  sections: {
+    maxHeight: 420,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  chipGroup: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    marginBottom: 4,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+});
+
+export default ReportFilterModal;
@@ -0,0 +1,119 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, ProgressBar, ActivityIndicator } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+
+import { SyncStatus } from '../types';
+
+interface SyncBannerProps {
+  status: SyncStatus;
+  style?: any;
+}
+
+const formatLastSync = (lastSyncTime: string | null) => {
+  if (!lastSyncTime) {
+    return 'Ainda não sincronizado';
+  }
+  return `Sincronizado em ${new Date(lastSyncTime).toLocaleString('pt-BR')}`;
+};
+
+const SyncBanner: React.FC<SyncBannerProps> = ({ status, style }) => {
+  if (!status.isOnline) {
+    return (
+      <View style={[styles.banner, styles.offline, style]}>
+        <Ionicons name="cloud-offline-outline" size={20} color="#F44336" />
+        <Text style={styles.text}>
+          {status.pendingItems > 0
+            ? `Offline: ${status.pendingItems} alteração(ões) aguardando conexão`
+            : 'Offline: as alterações serão enviadas quando houver conexão'}
+        </Text>
+      </View>
+    );
+  }
+
+  if (status.isSyncing) {
+    const progress = status.total > 0 ? status.processed / status.total : 0;
+
+    return (
+      <View style={[styles.banner, styles.syncing, style]}>
+        <View style={styles.row}>
+          <ActivityIndicator size={16} color="#2196F3" />
+          <Text style={styles.text}>
+            {status.total > 0
+              ? `Sincronizando ${status.processed}/${status.total}...`
+              : 'Sincronizando...'}
+          </Text>
+        </View>
+        <ProgressBar progress={progress} color="#2196F3" style={styles.progress} />
+      </View>
+    );
+  }
+
+  if (status.failedItems > 0 || status.lastError) {
+    return (
+      <View style={[styles.banner, styles.error, style]}>
+        <Ionicons name="alert-circle-outline" size={20} color="#FF9800" />
+        <Text style={styles.text}>
+          {status.failedItems > 0
+            ? `${status.failedItems} item(ns) com falha de sincronização`
+            : `Falha na última sincronização. ${formatLastSync(status.lastSyncTime)}`}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.banner, styles.synced, style]}>
+      <Ionicons name="cloud-done-outline" size={20} color="#4CAF50" />
+      <Text style={styles.text}>
+        {status.pendingItems > 0
+          ? `${status.pendingItems} alteração(ões) pendente(s)`
+          : formatLastSync(status.lastSyncTime)}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    padding: 12,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '100%',
+  },
+  text: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#333',
+  },
+  progress: {
+    marginTop: 8,
+    width: '100%',
+  },
+  offline: {
+    backgroundColor: '#FFEBEE',
+    borderLeftColor: '#F44336',
+  },
+  syncing: {
+    backgroundColor: '#E3F2FD',
+    borderLeftColor: '#2196F3',
+  },
+  error: {
+    backgroundColor: '#FFF3E0',
+    borderLeftColor: '#FF9800',
+  },
+  synced: {
+    backgroundColor: '#E8F5E9',
+    borderLeftColor: '#4CAF50',
+  },
+});
+
+export default SyncBanner;
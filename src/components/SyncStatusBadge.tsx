@@ -0,0 +1,55 @@
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { Chip } from 'react-native-paper';
+
+import { ReportSubmission } from '../types';
+
+interface SyncStatusBadgeProps {
+  syncStatus: ReportSubmission['syncStatus'] | null;
+}
+
+const getBadge = (syncStatus: ReportSubmission['syncStatus']) => {
+  switch (syncStatus) {
+    case 'synced':
+      return { icon: 'cloud-check', color: '#4CAF50', text: 'Sincronizado' };
+    case 'pending':
+      return { icon: 'cloud-upload', color: '#FF9800', text: 'Pendente' };
+    case 'error':
+      return { icon: 'cloud-alert', color: '#F44336', text: 'Erro de envio' };
+    case 'conflict':
+      return { icon: 'source-merge', color: '#9C27B0', text: 'Conflito' };
+    default:
+      return { icon: 'cloud-question', color: '#9E9E9E', text: 'Desconhecido' };
+  }
+};
+
+const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ syncStatus }) => {
+  if (!syncStatus) {
+    return null;
+  }
+
+  const badge = getBadge(syncStatus);
+
+  return (
+    <Chip
+      icon={badge.icon}
+      compact
+      style={[styles.badge, { backgroundColor: badge.color }]}
+      textStyle={styles.text}
+    >
+      {badge.text}
+    </Chip>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+  },
+  text: {
+    color: '#fff',
+    fontSize: 12,
+  },
+});
+
+export default SyncStatusBadge;
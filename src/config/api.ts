@@ -0,0 +1,7 @@
+// Configuração da API de sincronização
+// A URL base pode ser definida em tempo de build com EXPO_PUBLIC_API_URL
+
+export const API_CONFIG = {
+  baseUrl: process.env.EXPO_PUBLIC_API_URL || 'https://api.reportsapp.com',
+  timeoutMs: 15000,
+};
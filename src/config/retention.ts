@@ -0,0 +1,6 @@
+// Parâmetros da rotina de retenção de dados dos projetos
+
+export const RETENTION_CONFIG = {
+  intervalMs: 6 * 60 * 60 * 1000, // Intervalo entre execuções enquanto houver sessão
+  logLimit: 100, // Registros exibidos por projeto
+};
@@ -0,0 +1,12 @@
+// Parâmetros do processo de sincronização
+
+export const SYNC_CONFIG = {
+  intervalMs: 30000, // Intervalo entre ciclos automáticos
+  maxAttempts: 5, // Tentativas antes de mover o item para a fila de falhas
+  baseRetryDelayMs: 5000, // Atraso da primeira nova tentativa
+  maxRetryDelayMs: 30 * 60 * 1000, // Teto do backoff exponencial
+  batchSize: 50, // Operações enviadas por requisição a /sync/batch
+  attachmentChunkSize: 256 * 1024, // Bytes por trecho no upload de anexos
+  // 'http' (padrão) ou 'fake' para o servidor em memória; 'fake' só vale em __DEV__
+  transport: process.env.EXPO_PUBLIC_SYNC_TRANSPORT === 'fake' ? 'fake' : 'http',
+};
@@ -0,0 +1,5 @@
+// Parâmetros da lixeira
+
+export const TRASH_CONFIG = {
+  retentionDays: 30, // Depois disso, itens excluídos são removidos definitivamente
+};
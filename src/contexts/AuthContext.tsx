@@ -2,7 +2,10 @@ import React, { createContext, useContext, useReducer, useEffect, ReactNode } fr
 import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
 import { AuthState, User, LoginCredentials, RegisterData } from '../types';
-import { databaseService } from '../database/database';
+import { getRepository } from '../database';
+import { syncService } from '../services/syncService';
+import { trashService } from '../services/trashService';
+import { retentionService } from '../services/retentionService';
 
 interface AuthContextType {
   state: AuthState;
@@ -63,6 +66,25 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     checkAuthState();
   }, []);
 
+  // A sincronização acompanha a sessão: usa o usuário e o token atuais
+  // e fica pausada enquanto ninguém estiver autenticado
+  useEffect(() => {
+    if (state.user && state.token) {
+      syncService.startSession(state.user.id, state.token).catch(error => {
+        console.error('Error starting sync session:', error);
+      });
+      // Esvazia da lixeira o que passou do prazo de retenção
+      trashService.purgeExpired(state.user.id).catch(error => {
+        console.error('Error purging expired trash items:', error);
+      });
+      // Regras de retenção dos projetos, agora e periodicamente
+      retentionService.start(state.user.id);
+    } else {
+      retentionService.stop();
+      syncService.endSession();
+    }
+  }, [state.user?.id, state.token]);
+
   const checkAuthState = async () => {
     try {
       if (Platform.OS === 'web') {
@@ -103,11 +125,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setIsLoading(true);
     try {
       // Primeiro verifica se o usuário existe no banco local
-      let user = await databaseService.getUserByEmail(credentials.email);
+      let user = await getRepository().getUserByEmail(credentials.email);
       
       if (!user) {
         // Se não existe, cria um usuário de demonstração
-        const userId = await databaseService.createUser({
+        const userId = await getRepository().createUser({
           email: credentials.email,
           name: credentials.email.split('@')[0],
           role: 'admin', // Por padrão, primeiro usuário é admin
@@ -115,7 +137,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           updatedAt: new Date().toISOString(),
         });
         
-        user = await databaseService.getUserById(userId);
+        user = await getRepository().getUserById(userId);
       }
 
       if (!user) {
@@ -155,13 +177,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setIsLoading(true);
     try {
       // Verifica se o usuário já existe
-      const existingUser = await databaseService.getUserByEmail(data.email);
+      const existingUser = await getRepository().getUserByEmail(data.email);
       if (existingUser) {
         throw new Error('Usuário já existe com este email');
       }
 
       // Cria novo usuário
-      const userId = await databaseService.createUser({
+      const userId = await getRepository().createUser({
         email: data.email,
         name: data.name,
         role: 'user',
@@ -169,7 +191,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         updatedAt: new Date().toISOString(),
       });
 
-      const user = await databaseService.getUserById(userId);
+      const user = await getRepository().getUserById(userId);
       if (!user) {
         throw new Error('Falha ao criar usuário');
       }
@@ -0,0 +1,65 @@
+import { BACKUP_FORMAT, JsonStreamReader, readBackupArchive, readBackupFiles } from "../backup";
+
+// Entrega o texto em partes de `size` caracteres, para cruzar as fronteiras
+// entre partes em todos os pontos do arquivo
+const readerFor = (text: string, size: number) => {
+  let offset = 0;
+  return new JsonStreamReader(() => {
+    if (offset >= text.length) return null;
+    offset += size;
+    return text.slice(offset - size, offset);
+  });
+};
+
+const ARCHIVE = JSON.stringify({
+  format: BACKUP_FORMAT,
+  formatVersion: 1,
+  schemaVersion: 7,
+  exportedAt: "2026-01-01T00:00:00.000Z",
+  tables: { reports: [{ id: "r1", title: "Inspeção \"final\"", fields: "[]" }], attachments: [] },
+  files: [
+    { attachmentId: "a1", fileName: "foto.jpg", base64: "AAEC/w==" },
+    { attachmentId: "a2", fileName: "nota.txt", base64: "b2k=" },
+  ],
+}).replace("AAEC/w==", "AAEC\\/w==");
+
+describe("readBackupArchive", () => {
+  it.each([1, 2, 5, 64])("reads the header and tables in chunks of %i characters", (size) => {
+    const archive = readBackupArchive(readerFor(ARCHIVE, size));
+
+    expect(archive.schemaVersion).toBe(7);
+    expect(archive.tables.reports[0].title).toBe('Inspeção "final"');
+    expect(archive).not.toHaveProperty("files");
+  });
+
+  it("accepts a reformatted file", () => {
+    const archive = readBackupArchive(readerFor(JSON.stringify(JSON.parse(ARCHIVE), null, 2), 3));
+
+    expect(archive.formatVersion).toBe(1);
+    expect(archive.tables.attachments).toEqual([]);
+  });
+
+  it("rejects files that are not a backup of this app", () => {
+    expect(() => readBackupArchive(readerFor('{"format": "other"', 4))).toThrow("not valid JSON");
+    expect(() => readBackupArchive(readerFor('{"format": "other", "tables": {}}', 4))).toThrow(
+      "not a backup of this app"
+    );
+  });
+});
+
+describe("readBackupFiles", () => {
+  it.each([1, 3, 64])("streams attachment contents in chunks of %i characters", (size) => {
+    const contents: Record<string, string> = {};
+
+    readBackupFiles(readerFor(ARCHIVE, size), (file, readBase64) => {
+      // Só o primeiro anexo é lido; o segundo é pulado
+      if (file.attachmentId !== "a1") return;
+      contents[file.fileName] = "";
+      readBase64((base64) => {
+        contents[file.fileName] += base64;
+      });
+    });
+
+    expect(contents).toEqual({ "foto.jpg": "AAEC/w==" });
+  });
+});
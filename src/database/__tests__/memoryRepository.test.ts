@@ -0,0 +1,77 @@
+import { MemoryRepository } from "../memoryRepository";
+import { Repository } from "../repository";
+
+const USER_ID = "user-1";
+
+const addSubmission = async (repository: Repository): Promise<string> => {
+  const submissionId = await repository.createSubmission({
+    reportId: "report-1",
+    userId: USER_ID,
+    data: { name: "Inspeção" },
+    status: "draft",
+    lastModified: new Date().toISOString(),
+    version: 1,
+    isOffline: true,
+    syncStatus: "pending",
+  });
+  await repository.addToSyncQueue({
+    type: "submission",
+    action: "create",
+    entityId: submissionId,
+    data: { name: "Inspeção" },
+    attempts: 0,
+    userId: USER_ID,
+    createdAt: new Date().toISOString(),
+  });
+  return submissionId;
+};
+
+describe("MemoryRepository.withTransaction", () => {
+  it("discards the submission and the queue item when work fails", async () => {
+    const repository = new MemoryRepository();
+
+    await expect(
+      repository.withTransaction(async (tx) => {
+        await addSubmission(tx);
+        throw new Error("work failed");
+      })
+    ).rejects.toThrow("work failed");
+
+    expect(await repository.getSubmissionsByUserId(USER_ID)).toEqual([]);
+    expect(await repository.getSyncQueueCount(USER_ID)).toBe(0);
+  });
+
+  it("keeps the writes of nested calls made through tx", async () => {
+    const repository = new MemoryRepository();
+
+    const submissionId = await repository.withTransaction((tx) =>
+      tx.withTransaction((nested) => addSubmission(nested))
+    );
+
+    expect(await repository.getSubmissionById(submissionId)).not.toBeNull();
+    expect(await repository.getSyncQueueCount(USER_ID)).toBe(1);
+  });
+
+  it("runs overlapping root transactions one after the other", async () => {
+    const repository = new MemoryRepository();
+    let releaseFirst = () => {};
+    const firstBlocked = new Promise<void>((resolve) => {
+      releaseFirst = resolve;
+    });
+
+    const first = repository.withTransaction(async (tx) => {
+      await addSubmission(tx);
+      await firstBlocked;
+      throw new Error("first failed");
+    });
+    const second = repository.withTransaction((tx) => addSubmission(tx));
+
+    releaseFirst();
+    await expect(first).rejects.toThrow("first failed");
+    const submissionId = await second;
+
+    const submissions = await repository.getSubmissionsByUserId(USER_ID);
+    expect(submissions.map((submission) => submission.id)).toEqual([submissionId]);
+    expect(await repository.getSyncQueueCount(USER_ID)).toBe(1);
+  });
+});
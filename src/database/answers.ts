@@ -0,0 +1,133 @@
+import * as SQLite from "expo-sqlite";
+import { AnswerCondition } from "../types";
+
+// Respostas normalizadas: uma linha por campo respondido de cada submissão,
+// com o valor na coluna do seu tipo, para filtrar e agregar no SQL. É uma
+// cópia derivada de report_submissions.data, regravada a cada escrita.
+
+export const ANSWERS_TABLE = `CREATE TABLE IF NOT EXISTS submission_answers (
+  submission_id TEXT NOT NULL,
+  field_id TEXT NOT NULL,
+  value_type TEXT NOT NULL CHECK (value_type IN ('text', 'number', 'boolean', 'json')),
+  value_text TEXT, -- Texto; em 'json', listas e objetos serializados (ex.: anexos)
+  value_number REAL, -- Números, inclusive textos numéricos como "12" ou "3,5"
+  value_boolean INTEGER,
+  PRIMARY KEY (submission_id, field_id),
+  FOREIGN KEY (submission_id) REFERENCES report_submissions (id)
+)`;
+
+export const ANSWERS_INDEXES = [
+  "CREATE INDEX IF NOT EXISTS idx_answers_field_text ON submission_answers (field_id, value_text)",
+  "CREATE INDEX IF NOT EXISTS idx_answers_field_number ON submission_answers (field_id, value_number)",
+];
+
+export interface AnswerRow {
+  fieldId: string;
+  valueType: "text" | "number" | "boolean" | "json";
+  valueText: string | null;
+  valueNumber: number | null;
+  valueBoolean: number | null;
+}
+
+const NUMERIC_TEXT = /^[+-]?\d+([.,]\d+)?$/;
+
+// Campos vazios (null, undefined ou texto em branco) não geram linha
+export const toAnswerRows = (data: Record<string, any>): AnswerRow[] => {
+  const rows: AnswerRow[] = [];
+
+  Object.entries(data || {}).forEach(([fieldId, value]) => {
+    if (value === null || value === undefined) return;
+
+    if (typeof value === "string") {
+      const text = value.trim();
+      if (!text) return;
+      rows.push({
+        fieldId,
+        valueType: "text",
+        valueText: value,
+        valueNumber: NUMERIC_TEXT.test(text) ? Number(text.replace(",", ".")) : null,
+        valueBoolean: null,
+      });
+    } else if (typeof value === "number") {
+      rows.push({ fieldId, valueType: "number", valueText: null, valueNumber: value, valueBoolean: null });
+    } else if (typeof value === "boolean") {
+      rows.push({ fieldId, valueType: "boolean", valueText: null, valueNumber: null, valueBoolean: value ? 1 : 0 });
+    } else {
+      rows.push({ fieldId, valueType: "json", valueText: JSON.stringify(value), valueNumber: null, valueBoolean: null });
+    }
+  });
+
+  return rows;
+};
+
+const COMPARISONS: Record<string, string> = { eq: "=", neq: "<>", gt: ">", gte: ">=", lt: "<", lte: "<=" };
+
+// Coluna comparada com `value`, conforme o tipo dele
+export const answerColumn = (value: string | number | boolean): "valueText" | "valueNumber" | "valueBoolean" =>
+  typeof value === "number" ? "valueNumber" : typeof value === "boolean" ? "valueBoolean" : "valueText";
+
+const COLUMN_SQL: Record<string, string> = {
+  valueText: "value_text",
+  valueNumber: "value_number",
+  valueBoolean: "value_boolean",
+};
+
+export const toColumnValue = (value: string | number | boolean) =>
+  typeof value === "boolean" ? (value ? 1 : 0) : value;
+
+// Trecho SQL (sobre o alias `a` de submission_answers) e parâmetros de uma
+// condição. Em 'in', os valores da lista devem ser do mesmo tipo; 'contains'
+// procura um trecho do texto sem diferenciar maiúsculas (apenas ASCII, como o LIKE)
+export const answerConditionSql = (condition: AnswerCondition): { sql: string; params: any[] } => {
+  const { operator, value } = condition;
+
+  if (operator === "in") {
+    const list = Array.isArray(value) ? value : [value];
+    if (list.length === 0) return { sql: "0", params: [] };
+    return {
+      sql: `a.${COLUMN_SQL[answerColumn(list[0])]} IN (${list.map(() => "?").join(", ")})`,
+      params: list.map(toColumnValue),
+    };
+  }
+  if (Array.isArray(value)) {
+    throw new Error(`Answer operator '${operator}' does not accept a list`);
+  }
+  if (operator === "contains") {
+    const escaped = String(value).replace(/[\\%_]/g, (char) => `\\${char}`);
+    return { sql: "a.value_text LIKE ? ESCAPE '\\'", params: [`%${escaped}%`] };
+  }
+  if (!COMPARISONS[operator]) {
+    throw new Error(`Unknown answer operator: ${operator}`);
+  }
+
+  return { sql: `a.${COLUMN_SQL[answerColumn(value)]} ${COMPARISONS[operator]} ?`, params: [toColumnValue(value)] };
+};
+
+// Regrava as respostas normalizadas de uma submissão
+export const writeAnswers = async (
+  db: SQLite.SQLiteDatabase,
+  submissionId: string,
+  data: Record<string, any>
+): Promise<void> => {
+  await db.runAsync("DELETE FROM submission_answers WHERE submission_id = ?", [submissionId]);
+
+  for (const row of toAnswerRows(data)) {
+    await db.runAsync(
+      `INSERT INTO submission_answers (submission_id, field_id, value_type, value_text, value_number, value_boolean)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [submissionId, row.fieldId, row.valueType, row.valueText, row.valueNumber, row.valueBoolean]
+    );
+  }
+};
+
+// Recria a tabela inteira a partir das submissões (migração e importação de backup)
+export const rebuildAnswers = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await db.runAsync("DELETE FROM submission_answers");
+
+  const submissions = await db.getAllAsync<{ id: string; data: string }>(
+    "SELECT id, data FROM report_submissions"
+  );
+  for (const submission of submissions) {
+    await writeAnswers(db, submission.id, JSON.parse(submission.data));
+  }
+};
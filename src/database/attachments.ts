@@ -0,0 +1,15 @@
+// Ids dos anexos citados nos dados de respostas ou versões; campos de arquivo
+// guardam um AttachmentRef ({ attachmentId, fileName, ... })
+export const collectAttachmentIds = (dataList: Record<string, any>[]): string[] => {
+  const ids = new Set<string>();
+
+  dataList.forEach((data) => {
+    Object.values(data || {}).forEach((value) => {
+      if (value && typeof value === "object" && typeof value.attachmentId === "string") {
+        ids.add(value.attachmentId);
+      }
+    });
+  });
+
+  return Array.from(ids);
+};
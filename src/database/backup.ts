@@ -0,0 +1,277 @@
+import { BackupArchive, BackupFile } from "../types";
+
+// Formato do arquivo de backup. Mudanças incompatíveis no arquivo (não no
+// esquema do banco, que tem versão própria) incrementam BACKUP_FORMAT_VERSION
+export const BACKUP_FORMAT = "reportsapp-backup";
+export const BACKUP_FORMAT_VERSION = 1;
+
+// Tabelas exportadas, na ordem em que são importadas (pais antes dos
+// filhos). O search_index e o submission_answers ficam de fora: são
+// reconstruídos após a importação
+export const BACKUP_TABLES = [
+  "users",
+  "projects",
+  "reports",
+  "report_definitions",
+  "report_submissions",
+  "report_versions",
+  "submission_conflicts",
+  "attachments",
+  "notifications",
+  "sync_queue",
+  "sync_dead_letters",
+  "sync_state",
+  "retention_log",
+];
+
+const WHITESPACE = " \t\n\r";
+
+// Lê um JSON aos poucos, a partir das partes de texto devolvidas por
+// `readChunk` (null no fim). Objetos e listas são percorridos chave a chave;
+// só os valores pedidos com readValue() ficam inteiros em memória
+export class JsonStreamReader {
+  private buffer = "";
+  private position = 0;
+  private ended = false;
+
+  constructor(private readonly readChunk: () => string | null) {}
+
+  // Percorre as chaves de um objeto; `onKey` precisa ler ou pular o valor
+  readObject(onKey: (key: string) => void): void {
+    this.readEntries("{", "}", () => {
+      const key = this.readValue();
+      if (typeof key !== "string") throw new Error("Invalid JSON: expected an object key");
+      this.expect(":");
+      onKey(key);
+    });
+  }
+
+  // Percorre os itens de uma lista; `onItem` precisa ler ou pular cada um
+  readArray(onItem: () => void): void {
+    this.readEntries("[", "]", onItem);
+  }
+
+  readValue(): any {
+    return JSON.parse(this.scanValue(true));
+  }
+
+  skipValue(): void {
+    this.scanValue(false);
+  }
+
+  // Lê uma string em partes, sem montá-la inteira (ex.: um anexo em base64)
+  readStringChunks(onChunk: (text: string) => void): void {
+    this.expect('"');
+    for (;;) {
+      if (this.position >= this.buffer.length && !this.fill()) {
+        throw new Error("Invalid JSON: unexpected end");
+      }
+
+      const stop = this.findStringStop();
+      if (stop === -1) {
+        onChunk(this.buffer.slice(this.position));
+        this.position = this.buffer.length;
+        continue;
+      }
+      if (stop > this.position) {
+        onChunk(this.buffer.slice(this.position, stop));
+      }
+      this.position = stop;
+      if (this.buffer[stop] === '"') {
+        this.position++;
+        return;
+      }
+
+      // Escape: \x ou \uXXXX, que pode estar dividido entre duas partes
+      while (this.buffer.length - this.position < 2 && this.fill());
+      const length = this.buffer[this.position + 1] === "u" ? 6 : 2;
+      while (this.buffer.length - this.position < length && this.fill());
+      const escape = this.buffer.slice(this.position, this.position + length);
+      if (escape.length < length) throw new Error("Invalid JSON: unexpected end");
+      onChunk(JSON.parse(`"${escape}"`));
+      this.position += length;
+    }
+  }
+
+  private readEntries(open: string, close: string, onEntry: () => void): void {
+    this.expect(open);
+    if (this.peek() === close) {
+      this.position++;
+      return;
+    }
+    for (;;) {
+      onEntry();
+      const next = this.peek();
+      this.position++;
+      if (next === close) return;
+      if (next !== ",") throw new Error(`Invalid JSON: expected ',' or '${close}'`);
+    }
+  }
+
+  // Texto de um valor completo, acompanhando strings e aninhamento. Com
+  // `keep` falso o valor só é percorrido
+  private scanValue(keep: boolean): string {
+    const first = this.peek();
+    if (first === null) throw new Error("Invalid JSON: unexpected end");
+    const primitive = !'{["'.includes(first);
+
+    let text = "";
+    let start = this.position;
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    for (;;) {
+      if (this.position >= this.buffer.length) {
+        if (keep) text += this.buffer.slice(start);
+        if (!this.fill()) {
+          if (primitive) return text;
+          throw new Error("Invalid JSON: unexpected end");
+        }
+        start = this.position;
+        continue;
+      }
+
+      if (escaped) {
+        escaped = false;
+        this.position++;
+        continue;
+      }
+      if (inString) {
+        // Salta direto para as aspas ou a barra seguinte
+        const stop = this.findStringStop();
+        if (stop === -1) {
+          this.position = this.buffer.length;
+        } else {
+          this.position = stop + 1;
+          if (this.buffer[stop] === "\\") {
+            escaped = true;
+          } else {
+            inString = false;
+            if (depth === 0) break;
+          }
+        }
+        continue;
+      }
+
+      const char = this.buffer[this.position];
+      if (primitive) {
+        if (WHITESPACE.includes(char) || ",}]".includes(char)) break;
+        this.position++;
+        continue;
+      }
+      this.position++;
+      if (char === '"') {
+        inString = true;
+      } else if (char === "{" || char === "[") {
+        depth++;
+      } else if (char === "}" || char === "]") {
+        depth--;
+        if (depth === 0) break;
+      }
+    }
+
+    return keep ? text + this.buffer.slice(start, this.position) : "";
+  }
+
+  // Posição das próximas aspas ou barra invertida; -1 se não estão nesta parte
+  private findStringStop(): number {
+    const quote = this.buffer.indexOf('"', this.position);
+    const backslash = this.buffer.indexOf("\\", this.position);
+    if (quote === -1) return backslash;
+    return backslash === -1 ? quote : Math.min(quote, backslash);
+  }
+
+  // Próximo caractere depois dos espaços, sem consumi-lo; null no fim
+  private peek(): string | null {
+    for (;;) {
+      while (this.position < this.buffer.length) {
+        const char = this.buffer[this.position];
+        if (!WHITESPACE.includes(char)) return char;
+        this.position++;
+      }
+      if (!this.fill()) return null;
+    }
+  }
+
+  private expect(char: string): void {
+    if (this.peek() !== char) throw new Error(`Invalid JSON: expected '${char}'`);
+    this.position++;
+  }
+
+  // Acrescenta a próxima parte ao que ainda não foi lido; false no fim
+  private fill(): boolean {
+    if (this.ended) return false;
+    const chunk = this.readChunk();
+    if (chunk === null) {
+      this.ended = true;
+      return false;
+    }
+    this.buffer = this.buffer.slice(this.position) + chunk;
+    this.position = 0;
+    return true;
+  }
+}
+
+// Lê o cabeçalho e as tabelas de um backup e os valida. O conteúdo dos
+// anexos é só percorrido: readBackupFiles() o lê durante a importação
+export const readBackupArchive = (reader: JsonStreamReader): Omit<BackupArchive, "uri"> => {
+  const archive: Record<string, any> = {};
+  try {
+    reader.readObject((key) => {
+      if (key === "files") {
+        reader.skipValue();
+      } else {
+        archive[key] = reader.readValue();
+      }
+    });
+  } catch (error) {
+    throw new Error("Backup file is not valid JSON");
+  }
+
+  if (archive.format !== BACKUP_FORMAT) {
+    throw new Error("File is not a backup of this app");
+  }
+  if (typeof archive.formatVersion !== "number" || archive.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error(`Unsupported backup format version: ${archive.formatVersion}`);
+  }
+  if (typeof archive.schemaVersion !== "number" || !archive.tables || typeof archive.tables !== "object") {
+    throw new Error("Backup file is incomplete");
+  }
+
+  return archive as Omit<BackupArchive, "uri">;
+};
+
+// Percorre os anexos do backup. Para cada um, `onFile` recebe o id, o nome
+// e a função que lê o conteúdo em blocos de base64; se não a chamar, o
+// conteúdo é pulado. O export grava o id e o nome antes do conteúdo
+export const readBackupFiles = (
+  reader: JsonStreamReader,
+  onFile: (file: BackupFile, readBase64: (onChunk: (base64: string) => void) => void) => void
+): void => {
+  reader.readObject((key) => {
+    if (key !== "files") {
+      reader.skipValue();
+      return;
+    }
+
+    reader.readArray(() => {
+      const file: Record<string, any> = {};
+      reader.readObject((field) => {
+        if (field !== "base64") {
+          file[field] = reader.readValue();
+          return;
+        }
+        if (typeof file.attachmentId !== "string" || typeof file.fileName !== "string") {
+          throw new Error("Backup file is incomplete");
+        }
+
+        let read = false;
+        onFile(file as BackupFile, (onChunk) => {
+          read = true;
+          reader.readStringChunks(onChunk);
+        });
+        if (!read) reader.skipValue();
+      });
+    });
+  });
+};
@@ -1,5 +1,5 @@
 import * as SQLite from 'expo-sqlite';
-import { Platform } from 'react-native';
+import { Platform } from "react-native";
 import {
   User,
   Project,
@@ -8,33 +8,105 @@ import {
   ReportVersion,
   Notification,
   SyncQueue,
+  DeadLetterItem,
+  SubmissionConflict,
+  Attachment,
+  ReportDefinition,
+  TrashItem,
+  RetentionLogEntry,
+  SearchResult,
+  ReportFilter,
+  BackupTables,
+  BackupImportMode,
+  BackupTableSummary,
+  Page,
+  PageRequest,
+  AnswerQuery,
+  AnswerAggregate,
+  AnswerValueCount,
 } from "../types";
-
-class DatabaseService {
+import { runMigrations } from "./migrations";
+import {
+  INDEX_REPORTS_SQL,
+  INDEX_SUBMISSIONS_SQL,
+  REPORT_DOCUMENTS_SQL,
+  SUBMISSION_DOCUMENTS_SQL,
+  ensureSearchIndex,
+  searchTerms,
+  rankDocuments,
+  HIGHLIGHT_START,
+  HIGHLIGHT_END,
+  toMatchQuery,
+  parseSnippet,
+} from "./search";
+import { Repository } from "./repository";
+import { BACKUP_TABLES } from "./backup";
+import { DEFAULT_PAGE_SIZE, encodeCursor, decodeCursor, toPage } from "./paging";
+import { legalHoldUntil } from "./retention";
+import { writeAnswers, rebuildAnswers, answerConditionSql } from "./answers";
+import { collectAttachmentIds } from "./attachments";
+import { createTransactionQueue } from "./transactionQueue";
+import {
+  DATABASE_NAME,
+  LEGACY_DATABASE_NAME,
+  generateKey,
+  rawKey,
+  isWrongKeyError,
+  getStoredKeys,
+  savePendingKey,
+  commitKey,
+} from "./encryption";
+
+// Implementação do repositório sobre o SQLite (expo-sqlite)
+export class DatabaseService implements Repository {
   private db: SQLite.SQLiteDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+  // Instâncias criadas por withTransaction, ligadas à conexão da transação
+  private transactional = false;
+  // Se o SQLite tem FTS5 e o índice search_index existe; sem ele a busca usa LIKE
+  private fullTextSearch = false;
+  // Chave do SQLCipher em uso, aplicada às conexões das transações
+  private encryptionKey: string | null = null;
+  private transactionQueue = createTransactionQueue();
 
   isInitialized(): boolean {
     return this.db !== null;
   }
 
   private async ensureInitialized(): Promise<void> {
-    if (!this.isInitialized() && Platform.OS !== 'web') {
+    if (!this.isInitialized()) {
       await this.init();
     }
   }
 
-  async init(): Promise<void> {
+  // Chamadas concorrentes compartilham a mesma abertura: na web o arquivo
+  // do banco só pode ser aberto por uma conexão de cada vez
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.openDatabase().catch((error) => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async openDatabase(): Promise<void> {
     try {
-      // Verifica se está rodando na web e pula a inicialização do SQLite
-      if (Platform.OS === 'web') {
-        console.log('Running on web, skipping SQLite initialization');
-        // Para web, podemos usar localStorage ou IndexedDB como alternativa
-        this.db = null;
-        return;
+      // Na web o expo-sqlite roda em WebAssembly e persiste no OPFS do
+      // navegador, sem SQLCipher: lá o banco continua em texto puro
+      const db =
+        Platform.OS === "web"
+          ? await SQLite.openDatabaseAsync(LEGACY_DATABASE_NAME)
+          : await this.openEncryptedDatabase();
+      if (Platform.OS !== "web") {
+        // Transações usam uma conexão própria: com WAL as leituras seguem
+        // durante elas, e gravações de fora esperam o commit
+        await db.execAsync("PRAGMA journal_mode = WAL; PRAGMA busy_timeout = 5000");
       }
-      
-      this.db = await SQLite.openDatabaseAsync("reports.db");
-      await this.createTables();
+      await runMigrations(db);
+      this.fullTextSearch = await ensureSearchIndex(db);
+      this.db = db;
       console.log("Database initialized successfully");
     } catch (error) {
       console.error("Error initializing database:", error);
@@ -42,124 +114,155 @@ class DatabaseService {
     }
   }
 
-  private async createTables(): Promise<void> {
+  // Abre o banco cifrado com a chave do SecureStore, criando-a no primeiro
+  // uso. Se todas as chaves guardadas são recusadas pelo arquivo (SecureStore
+  // apagado, reinstalação), os dados são irrecuperáveis: o banco é recriado vazio e a
+  // próxima sincronização traz de volta o que estava no servidor
+  private async openEncryptedDatabase(): Promise<SQLite.SQLiteDatabase> {
+    let keys = await getStoredKeys();
+    if (keys.length === 0) {
+      keys = [await generateKey()];
+    }
+
+    let key = keys[0];
+    let db: SQLite.SQLiteDatabase | null = null;
+    for (const candidate of keys) {
+      db = await this.openWithKey(candidate);
+      if (db) {
+        key = candidate;
+        break;
+      }
+    }
+
+    if (!db) {
+      console.warn("Database key lost, wiping local database");
+      await SQLite.deleteDatabaseAsync(DATABASE_NAME);
+      db = await this.openWithKey(key);
+      if (!db) throw new Error("Failed to open encrypted database");
+    }
+
+    await commitKey(key);
+    this.encryptionKey = key;
+    await this.importLegacyDatabase(db);
+    return db;
+  }
+
+  // Cada tentativa usa uma conexão nova: o SQLCipher só aceita a chave
+  // antes da primeira leitura. Retorna null só quando a chave não abre o
+  // arquivo; outras falhas (disco cheio, arquivo travado) são repassadas
+  // para que não levem a apagar o banco
+  private async openWithKey(key: string): Promise<SQLite.SQLiteDatabase | null> {
+    const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    try {
+      await db.execAsync(`PRAGMA key = "${rawKey(key)}"`);
+      await db.getFirstAsync("SELECT count(*) FROM sqlite_master");
+      return db;
+    } catch (error) {
+      await db.closeAsync();
+      if (isWrongKeyError(error)) return null;
+      throw error;
+    }
+  }
+
+  // Copia o reports.db em texto puro das versões anteriores para o banco
+  // cifrado, se este ainda estiver vazio, e apaga o arquivo antigo
+  private async importLegacyDatabase(db: SQLite.SQLiteDatabase): Promise<void> {
+    const legacyPath = `${SQLite.defaultDatabaseDirectory}/${LEGACY_DATABASE_NAME}`;
+    await db.runAsync("ATTACH DATABASE ? AS legacy KEY ''", [legacyPath]);
+    try {
+      const legacy = await db.getFirstAsync<{ user_version: number }>("PRAGMA legacy.user_version");
+      const current = await db.getFirstAsync<{ user_version: number }>("PRAGMA main.user_version");
+      if (legacy && current && legacy.user_version > 0 && current.user_version === 0) {
+        await db.execAsync(
+          `SELECT sqlcipher_export('main', 'legacy'); PRAGMA main.user_version = ${legacy.user_version}`
+        );
+        console.log("Legacy database imported into encrypted storage");
+      }
+    } finally {
+      await db.execAsync("DETACH DATABASE legacy");
+    }
+    await SQLite.deleteDatabaseAsync(LEGACY_DATABASE_NAME);
+  }
+
+  // Troca a chave do banco cifrado. A nova chave é guardada como pendente
+  // antes do rekey, então uma interrupção no meio não perde o acesso: a
+  // abertura tenta a atual e a pendente. Roda na fila das transações, para
+  // que nenhuma conexão com a chave antiga esteja aberta
+  async rotateEncryptionKey(): Promise<void> {
     if (!this.db) throw new Error("Database not initialized");
+    if (Platform.OS === "web") {
+      throw new Error("Database encryption is not available on web");
+    }
+    const db = this.db;
+
+    await this.transactionQueue(async () => {
+      const key = await generateKey();
+      await savePendingKey(key);
+      // O rekey do SQLCipher não roda em modo WAL
+      await db.execAsync("PRAGMA journal_mode = DELETE");
+      await db.execAsync(`PRAGMA rekey = "${rawKey(key)}"`);
+      await db.execAsync("PRAGMA journal_mode = WAL");
+      await commitKey(key);
+      this.encryptionKey = key;
+    });
+    console.log("Database key rotated");
+  }
 
-    const tables = [
-      // Tabela de usuários
-      `CREATE TABLE IF NOT EXISTS users (
-        id TEXT PRIMARY KEY,
-        email TEXT UNIQUE NOT NULL,
-        name TEXT NOT NULL,
-        role TEXT NOT NULL CHECK (role IN ('admin', 'user')),
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      )`,
-
-      // Tabela de projetos
-      `CREATE TABLE IF NOT EXISTS projects (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        description TEXT,
-        owner_id TEXT NOT NULL,
-        settings TEXT NOT NULL, -- JSON string
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        FOREIGN KEY (owner_id) REFERENCES users (id)
-      )`,
-
-      // Tabela de relatórios
-      `CREATE TABLE IF NOT EXISTS reports (
-        id TEXT PRIMARY KEY,
-        project_id TEXT NOT NULL,
-        title TEXT NOT NULL,
-        description TEXT,
-        fields TEXT NOT NULL, -- JSON string
-        permissions TEXT NOT NULL, -- JSON string
-        status TEXT NOT NULL CHECK (status IN ('draft', 'active', 'archived')),
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        created_by TEXT NOT NULL,
-        FOREIGN KEY (project_id) REFERENCES projects (id),
-        FOREIGN KEY (created_by) REFERENCES users (id)
-      )`,
-
-      // Tabela de submissões de relatórios
-      `CREATE TABLE IF NOT EXISTS report_submissions (
-        id TEXT PRIMARY KEY,
-        report_id TEXT NOT NULL,
-        user_id TEXT NOT NULL,
-        data TEXT NOT NULL, -- JSON string
-        status TEXT NOT NULL CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
-        submitted_at TEXT,
-        last_modified TEXT NOT NULL,
-        version INTEGER NOT NULL DEFAULT 1,
-        is_offline INTEGER NOT NULL DEFAULT 0,
-        sync_status TEXT NOT NULL DEFAULT 'synced' CHECK (sync_status IN ('synced', 'pending', 'error')),
-        FOREIGN KEY (report_id) REFERENCES reports (id),
-        FOREIGN KEY (user_id) REFERENCES users (id)
-      )`,
-
-      // Tabela de versões de relatórios
-      `CREATE TABLE IF NOT EXISTS report_versions (
-        id TEXT PRIMARY KEY,
-        submission_id TEXT NOT NULL,
-        version INTEGER NOT NULL,
-        data TEXT NOT NULL, -- JSON string
-        changed_by TEXT NOT NULL,
-        changed_at TEXT NOT NULL,
-        changes TEXT NOT NULL,
-        FOREIGN KEY (submission_id) REFERENCES report_submissions (id),
-        FOREIGN KEY (changed_by) REFERENCES users (id)
-      )`,
-
-      // Tabela de notificações
-      `CREATE TABLE IF NOT EXISTS notifications (
-        id TEXT PRIMARY KEY,
-        user_id TEXT NOT NULL,
-        type TEXT NOT NULL CHECK (type IN ('report_available', 'deadline_approaching', 'new_result', 'report_approved', 'report_rejected')),
-        title TEXT NOT NULL,
-        message TEXT NOT NULL,
-        data TEXT, -- JSON string
-        read INTEGER NOT NULL DEFAULT 0,
-        created_at TEXT NOT NULL,
-        FOREIGN KEY (user_id) REFERENCES users (id)
-      )`,
-
-      // Tabela de fila de sincronização
-      `CREATE TABLE IF NOT EXISTS sync_queue (
-        id TEXT PRIMARY KEY,
-        type TEXT NOT NULL CHECK (type IN ('submission', 'report', 'user', 'project')),
-        action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
-        entity_id TEXT NOT NULL,
-        data TEXT NOT NULL, -- JSON string
-        attempts INTEGER NOT NULL DEFAULT 0,
-        last_attempt TEXT,
-        error TEXT,
-        created_at TEXT NOT NULL
-      )`,
-    ];
+  // Conexão de uma transação no app. A do withExclusiveTransactionAsync não
+  // recebe o PRAGMA key, e sem ele o SQLCipher não lê o banco
+  private async openTransactionConnection(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.encryptionKey) throw new Error("Database key not loaded");
 
-    for (const table of tables) {
-      await this.db.execAsync(table);
-    }
-
-    // Criar índices para melhor performance
-    const indexes = [
-      "CREATE INDEX IF NOT EXISTS idx_users_email ON users (email)",
-      "CREATE INDEX IF NOT EXISTS idx_reports_project_id ON reports (project_id)",
-      "CREATE INDEX IF NOT EXISTS idx_submissions_report_id ON report_submissions (report_id)",
-      "CREATE INDEX IF NOT EXISTS idx_submissions_user_id ON report_submissions (user_id)",
-      "CREATE INDEX IF NOT EXISTS idx_submissions_sync_status ON report_submissions (sync_status)",
-      "CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications (user_id)",
-      "CREATE INDEX IF NOT EXISTS idx_notifications_read ON notifications (read)",
-      "CREATE INDEX IF NOT EXISTS idx_sync_queue_type ON sync_queue (type)",
-      "CREATE INDEX IF NOT EXISTS idx_sync_queue_attempts ON sync_queue (attempts)",
-    ];
+    const connection = await SQLite.openDatabaseAsync(DATABASE_NAME, { useNewConnection: true });
+    try {
+      await connection.execAsync(`PRAGMA key = "${rawKey(this.encryptionKey)}"`);
+      await connection.execAsync("PRAGMA busy_timeout = 5000");
+      return connection;
+    } catch (error) {
+      await connection.closeAsync();
+      throw error;
+    }
+  }
 
-    for (const index of indexes) {
-      await this.db.execAsync(index);
+  // Executa `work` como uma unidade: se algo falhar, nada do que foi gravado
+  // por meio de `tx` permanece. Chamadas feitas pelo `tx` entram na
+  // transação já aberta; as de raiz esperam a anterior terminar. No app a
+  // transação usa uma conexão própria, então gravações feitas fora de `tx`
+  // esperam o commit; na web, com uma única conexão, elas entram na
+  // transação aberta
+  async withTransaction<T>(work: (tx: DatabaseService) => Promise<T>): Promise<T> {
+    if (this.transactional) {
+      return work(this);
     }
+
+    await this.ensureInitialized();
+    if (!this.db) throw new Error("Database not initialized");
+    const db = this.db;
+
+    return this.transactionQueue(async () => {
+      const connection = Platform.OS === "web" ? db : await this.openTransactionConnection();
+      const tx = new DatabaseService();
+      tx.db = connection;
+      tx.initPromise = Promise.resolve();
+      tx.transactional = true;
+      tx.fullTextSearch = this.fullTextSearch;
+
+      try {
+        await connection.execAsync("BEGIN IMMEDIATE");
+        try {
+          const result = await work(tx);
+          await connection.execAsync("COMMIT");
+          return result;
+        } catch (error) {
+          await connection.execAsync("ROLLBACK");
+          throw error;
+        }
+      } finally {
+        if (connection !== db) {
+          await connection.closeAsync();
+        }
+      }
+    });
   }
 
   // Métodos para usuários
@@ -245,19 +348,11 @@ class DatabaseService {
     if (!this.db) return [];
 
     const results = await this.db.getAllAsync<any>(
-      "SELECT * FROM projects WHERE owner_id = ? ORDER BY created_at DESC",
+      "SELECT * FROM projects WHERE owner_id = ? AND deleted_at IS NULL ORDER BY created_at DESC",
       [userId]
     );
 
-    return results.map((result) => ({
-      id: result.id,
-      name: result.name,
-      description: result.description,
-      ownerId: result.owner_id,
-      settings: JSON.parse(result.settings),
-      createdAt: result.created_at,
-      updatedAt: result.updated_at,
-    }));
+    return results.map((result) => this.mapProject(result));
   }
 
   async getProjectById(id: string): Promise<Project | null> {
@@ -265,12 +360,14 @@ class DatabaseService {
     if (!this.db) return null;
 
     const result = await this.db.getFirstAsync<any>(
-      "SELECT * FROM projects WHERE id = ?",
+      "SELECT * FROM projects WHERE id = ? AND deleted_at IS NULL",
       [id]
     );
 
-    if (!result) return null;
+    return result ? this.mapProject(result) : null;
+  }
 
+  private mapProject(result: any): Project {
     return {
       id: result.id,
       name: result.name,
@@ -282,15 +379,40 @@ class DatabaseService {
     };
   }
 
+  async deleteProject(id: string): Promise<Attachment[]> {
+    if (!this.transactional) {
+      return this.withTransaction((tx) => tx.deleteProject(id));
+    }
+
+    await this.ensureInitialized();
+    if (!this.db) throw new Error("Database not initialized");
+
+    const reports = await this.db.getAllAsync<{ id: string }>(
+      "SELECT id FROM reports WHERE project_id = ?",
+      [id]
+    );
+    const attachments: Attachment[] = [];
+    for (const report of reports) {
+      attachments.push(...(await this.deleteReport(report.id)));
+    }
+
+    await this.db.runAsync("DELETE FROM projects WHERE id = ?", [id]);
+    return attachments;
+  }
+
   // Métodos para relatórios
   async createReport(report: Omit<Report, "id">): Promise<string> {
+    if (!this.transactional) {
+      return this.withTransaction((tx) => tx.createReport(report));
+    }
+
     if (!this.db) throw new Error("Database not initialized");
 
     const id = this.generateId();
     const now = new Date().toISOString();
 
     await this.db.runAsync(
-      "INSERT INTO reports (id, project_id, title, description, fields, permissions, status, created_at, updated_at, created_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      "INSERT INTO reports (id, project_id, title, description, fields, permissions, status, form_version, created_at, updated_at, created_by) VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?)",
       [
         id,
         report.projectId,
@@ -304,6 +426,8 @@ class DatabaseService {
         report.createdBy,
       ]
     );
+    await this.saveReportDefinition(id, 1, report.fields, now);
+    await this.indexReport(id);
 
     return id;
   }
@@ -312,22 +436,11 @@ class DatabaseService {
     if (!this.db) throw new Error("Database not initialized");
 
     const results = await this.db.getAllAsync<any>(
-      "SELECT * FROM reports WHERE project_id = ? ORDER BY created_at DESC",
+      "SELECT * FROM reports WHERE project_id = ? AND deleted_at IS NULL ORDER BY created_at DESC",
       [projectId]
     );
 
-    return results.map((result) => ({
-      id: result.id,
-      projectId: result.project_id,
-      title: result.title,
-      description: result.description,
-      fields: JSON.parse(result.fields),
-      permissions: JSON.parse(result.permissions),
-      status: result.status,
-      createdAt: result.created_at,
-      updatedAt: result.updated_at,
-      createdBy: result.created_by,
-    }));
+    return results.map((result) => this.mapReport(result));
   }
 
   async getAllReports(): Promise<Report[]> {
@@ -335,21 +448,10 @@ class DatabaseService {
     if (!this.db) return [];
 
     const results = await this.db.getAllAsync<any>(
-      "SELECT * FROM reports ORDER BY created_at DESC"
+      "SELECT * FROM reports WHERE deleted_at IS NULL ORDER BY created_at DESC"
     );
 
-    return results.map((result) => ({
-      id: result.id,
-      projectId: result.project_id,
-      title: result.title,
-      description: result.description,
-      fields: JSON.parse(result.fields),
-      permissions: JSON.parse(result.permissions),
-      status: result.status,
-      createdAt: result.created_at,
-      updatedAt: result.updated_at,
-      createdBy: result.created_by,
-    }));
+    return results.map((result) => this.mapReport(result));
   }
 
   async getReportById(id: string): Promise<Report | null> {
@@ -357,12 +459,125 @@ class DatabaseService {
     if (!this.db) return null;
 
     const result = await this.db.getFirstAsync<any>(
-      "SELECT * FROM reports WHERE id = ?",
+      "SELECT * FROM reports WHERE id = ? AND deleted_at IS NULL",
       [id]
     );
 
-    if (!result) return null;
+    return result ? this.mapReport(result) : null;
+  }
+
+  // Critérios combinados com E; em status e assignedTo basta um dos valores.
+  // O período se refere à data de criação. Com searchTerm, os resultados vêm
+  // por relevância; sem ele, dos mais novos para os mais antigos
+  async queryReports(filter: ReportFilter): Promise<Report[]> {
+    await this.ensureInitialized();
+    if (!this.db) return [];
+
+    const query = this.buildReportQuery(filter);
+    const results = await this.db.getAllAsync<any>(
+      `SELECT r.* FROM ${query.from} WHERE ${query.conditions.join(" AND ")} ORDER BY ${query.orderBy}`,
+      query.values
+    );
+
+    return results.map((result) => this.mapReport(result));
+  }
+
+  async queryReportsPage(filter: ReportFilter, page: PageRequest = {}): Promise<Page<Report>> {
+    await this.ensureInitialized();
+    if (!this.db) return { items: [], nextCursor: null };
+
+    const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+    const position = decodeCursor(page.cursor);
+    const query = this.buildReportQuery(filter);
+
+    if (query.ranked) {
+      // A ordem por relevância não tem chave estável: o cursor guarda o deslocamento
+      const offset = position ? Number(position[0]) : 0;
+      const results = await this.db.getAllAsync<any>(
+        `SELECT r.* FROM ${query.from} WHERE ${query.conditions.join(" AND ")} ORDER BY ${query.orderBy} LIMIT ? OFFSET ?`,
+        [...query.values, limit + 1, offset]
+      );
+      const items = results.slice(0, limit).map((result) => this.mapReport(result));
+      return { items, nextCursor: results.length > limit ? encodeCursor([offset + limit]) : null };
+    }
+
+    if (position) {
+      query.conditions.push("(r.created_at < ? OR (r.created_at = ? AND r.id < ?))");
+      query.values.push(position[0], position[0], position[1]);
+    }
+    const results = await this.db.getAllAsync<any>(
+      `SELECT r.* FROM ${query.from} WHERE ${query.conditions.join(" AND ")} ORDER BY ${query.orderBy} LIMIT ?`,
+      [...query.values, limit + 1]
+    );
+
+    return toPage(
+      results.map((result) => this.mapReport(result)),
+      limit,
+      (report) => [report.createdAt, report.id]
+    );
+  }
+
+  // Monta o FROM/WHERE/ORDER BY de uma consulta de relatórios. Sem busca
+  // textual, a ordem é a da paginação (mais recentes primeiro)
+  private buildReportQuery(filter: ReportFilter) {
+    let from = "reports r";
+    let orderBy = "r.created_at DESC, r.id DESC";
+    const conditions: string[] = ["r.deleted_at IS NULL"];
+    const values: any[] = [];
+
+    if (filter.status && filter.status.length > 0) {
+      conditions.push(`r.status IN (${filter.status.map(() => "?").join(", ")})`);
+      values.push(...filter.status);
+    }
+    if (filter.dateRange) {
+      conditions.push("r.created_at >= ? AND r.created_at <= ?");
+      values.push(filter.dateRange.start, filter.dateRange.end);
+    }
+    if (filter.assignedTo && filter.assignedTo.length > 0) {
+      // Responsáveis: quem criou o relatório ou quem pode preenchê-lo
+      const placeholders = filter.assignedTo.map(() => "?").join(", ");
+      conditions.push(
+        `(r.created_by IN (${placeholders}) OR EXISTS (
+          SELECT 1 FROM json_each(r.permissions, '$.canFill') c JOIN users u ON u.email = c.value
+          WHERE u.id IN (${placeholders})))`
+      );
+      values.push(...filter.assignedTo, ...filter.assignedTo);
+    }
+    if (filter.projectId) {
+      conditions.push("r.project_id = ?");
+      values.push(filter.projectId);
+    }
+    if (filter.visibleTo) {
+      // Mesma regra do canAccessReport: autor, relatório público ou email liberado
+      conditions.push(
+        `(r.created_by = ? OR EXISTS (
+          SELECT 1 FROM json_each(r.permissions, '$.canFill') c
+          WHERE c.value = '*' OR c.value = (SELECT email FROM users WHERE id = ?)))`
+      );
+      values.push(filter.visibleTo, filter.visibleTo);
+    }
+
+    if (filter.searchTerm && !this.fullTextSearch) {
+      // Sem índice: cada palavra precisa aparecer no título ou na descrição.
+      // searchTerms só devolve letras e números, sem curingas do LIKE
+      for (const term of searchTerms(filter.searchTerm)) {
+        conditions.push("(r.title LIKE ? OR r.description LIKE ?)");
+        values.push(`%${term}%`, `%${term}%`);
+      }
+    }
 
+    const match = filter.searchTerm && this.fullTextSearch ? toMatchQuery(filter.searchTerm) : null;
+    if (match) {
+      from += " JOIN search_index ON search_index.entity_type = 'report' AND search_index.entity_id = r.id";
+      conditions.push("search_index MATCH ?");
+      values.push(match);
+      orderBy = "bm25(search_index, 0, 0, 0, 10.0, 1.0), r.id";
+    }
+
+    return { from, conditions, values, orderBy, ranked: match !== null };
+  }
+
+  private mapReport(result: any): Report {
     return {
       id: result.id,
       projectId: result.project_id,
@@ -371,6 +586,7 @@ class DatabaseService {
       fields: JSON.parse(result.fields),
       permissions: JSON.parse(result.permissions),
       status: result.status,
+      formVersion: result.form_version,
       createdAt: result.created_at,
       updatedAt: result.updated_at,
       createdBy: result.created_by,
@@ -378,6 +594,10 @@ class DatabaseService {
   }
 
   async updateReport(id: string, report: Partial<Report>): Promise<void> {
+    if (!this.transactional) {
+      return this.withTransaction((tx) => tx.updateReport(id, report));
+    }
+
     await this.ensureInitialized();
     if (!this.db) throw new Error("Database not initialized");
 
@@ -396,6 +616,19 @@ class DatabaseService {
     if (report.fields !== undefined) {
       updateFields.push("fields = ?");
       values.push(JSON.stringify(report.fields));
+
+      // Alterar os campos publica uma nova versão do formulário; as respostas
+      // existentes continuam ligadas à versão em que foram preenchidas
+      const current = await this.db.getFirstAsync<any>(
+        "SELECT fields, form_version FROM reports WHERE id = ?",
+        [id]
+      );
+      if (current && current.fields !== JSON.stringify(report.fields)) {
+        const formVersion = current.form_version + 1;
+        updateFields.push("form_version = ?");
+        values.push(formVersion);
+        await this.saveReportDefinition(id, formVersion, report.fields, now);
+      }
     }
     if (report.permissions !== undefined) {
       updateFields.push("permissions = ?");
@@ -414,77 +647,136 @@ class DatabaseService {
       `UPDATE reports SET ${updateFields.join(", ")} WHERE id = ?`,
       values
     );
+    await this.indexReport(id);
   }
 
-  async deleteReport(id: string): Promise<void> {
+  async deleteReport(id: string): Promise<Attachment[]> {
+    if (!this.transactional) {
+      return this.withTransaction((tx) => tx.deleteReport(id));
+    }
+
     await this.ensureInitialized();
     if (!this.db) throw new Error("Database not initialized");
 
-    // Primeiro, deletar todas as submissões relacionadas ao relatório
+    // Primeiro, deletar todas as submissões relacionadas ao relatório,
+    // junto com seus anexos, históricos e conflitos
+    const attachments = await this.deleteSubmissionAttachments(
+      "SELECT id FROM report_submissions WHERE report_id = ?",
+      [id]
+    );
+    await this.db.runAsync(
+      "DELETE FROM report_versions WHERE submission_id IN (SELECT id FROM report_submissions WHERE report_id = ?)",
+      [id]
+    );
+    await this.db.runAsync(
+      "DELETE FROM submission_conflicts WHERE submission_id IN (SELECT id FROM report_submissions WHERE report_id = ?)",
+      [id]
+    );
+    await this.db.runAsync(
+      "DELETE FROM submission_answers WHERE submission_id IN (SELECT id FROM report_submissions WHERE report_id = ?)",
+      [id]
+    );
     await this.db.runAsync(
       "DELETE FROM report_submissions WHERE report_id = ?",
       [id]
     );
 
+    await this.db.runAsync(
+      "DELETE FROM report_definitions WHERE report_id = ?",
+      [id]
+    );
+
+    if (this.fullTextSearch) {
+      await this.db.runAsync("DELETE FROM search_index WHERE report_id = ?", [id]);
+    }
+
     // Depois, deletar o relatório
     await this.db.runAsync("DELETE FROM reports WHERE id = ?", [id]);
+    return attachments;
   }
 
-  // Métodos para submissões
-  async getSubmissionsByReportId(
-    reportId: string
-  ): Promise<ReportSubmission[]> {
+  // Métodos para as versões do formulário
+  private async saveReportDefinition(
+    reportId: string,
+    version: number,
+    fields: Report["fields"],
+    createdAt: string
+  ): Promise<void> {
     if (!this.db) throw new Error("Database not initialized");
 
+    await this.db.runAsync(
+      `INSERT INTO report_definitions (report_id, version, fields, created_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(report_id, version) DO UPDATE SET fields = excluded.fields`,
+      [reportId, version, JSON.stringify(fields), createdAt]
+    );
+  }
+
+  async getReportDefinition(
+    reportId: string,
+    version: number
+  ): Promise<ReportDefinition | null> {
+    await this.ensureInitialized();
+    if (!this.db) return null;
+
+    const result = await this.db.getFirstAsync<any>(
+      "SELECT * FROM report_definitions WHERE report_id = ? AND version = ?",
+      [reportId, version]
+    );
+
+    return result ? this.mapReportDefinition(result) : null;
+  }
+
+  async getReportDefinitions(reportId: string): Promise<ReportDefinition[]> {
+    await this.ensureInitialized();
+    if (!this.db) return [];
+
     const results = await this.db.getAllAsync<any>(
-      "SELECT * FROM report_submissions WHERE report_id = ? ORDER BY last_modified DESC",
+      "SELECT * FROM report_definitions WHERE report_id = ? ORDER BY version DESC",
       [reportId]
     );
 
-    return results.map((result) => ({
-      id: result.id,
+    return results.map((result) => this.mapReportDefinition(result));
+  }
+
+  private mapReportDefinition(result: any): ReportDefinition {
+    return {
       reportId: result.report_id,
-      userId: result.user_id,
-      data: JSON.parse(result.data),
-      status: result.status,
-      submittedAt: result.submitted_at,
-      lastModified: result.last_modified,
       version: result.version,
-      isOffline: Boolean(result.is_offline),
-      syncStatus: result.sync_status,
-    }));
+      fields: JSON.parse(result.fields),
+      createdAt: result.created_at,
+    };
   }
 
-  async getUserById(id: string): Promise<User | null> {
+  // Métodos para submissões
+  async getSubmissionsByReportId(
+    reportId: string
+  ): Promise<ReportSubmission[]> {
     if (!this.db) throw new Error("Database not initialized");
 
-    const result = await this.db.getFirstAsync<any>(
-      "SELECT * FROM users WHERE id = ?",
-      [id]
+    const results = await this.db.getAllAsync<any>(
+      "SELECT * FROM report_submissions WHERE report_id = ? AND deleted_at IS NULL ORDER BY last_modified DESC",
+      [reportId]
     );
 
-    if (!result) return null;
-
-    return {
-      id: result.id,
-      email: result.email,
-      name: result.name,
-      role: result.role,
-      createdAt: result.created_at,
-      updatedAt: result.updated_at,
-    };
+    return results.map((result) => this.mapSubmission(result));
   }
 
   async createSubmission(
     submission: Omit<ReportSubmission, "id">
   ): Promise<string> {
+    if (!this.transactional) {
+      return this.withTransaction((tx) => tx.createSubmission(submission));
+    }
+
     if (!this.db) throw new Error("Database not initialized");
 
     const id = this.generateId();
     const now = new Date().toISOString();
 
+    // Sem versão informada, a resposta fica ligada à versão atual do formulário
     await this.db.runAsync(
-      "INSERT INTO report_submissions (id, report_id, user_id, data, status, submitted_at, last_modified, version, is_offline, sync_status) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      `INSERT INTO report_submissions (id, report_id, user_id, data, status, submitted_at, last_modified, version, server_version, is_offline, sync_status, form_version)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, (SELECT form_version FROM reports WHERE id = ?), 1))`,
       [
         id,
         submission.reportId,
@@ -494,10 +786,15 @@ class DatabaseService {
         submission.submittedAt || null,
         now,
         submission.version,
+        submission.serverVersion ?? null,
         submission.isOffline ? 1 : 0,
         submission.syncStatus,
+        submission.formVersion ?? null,
+        submission.reportId,
       ]
     );
+    await this.indexSubmission(id);
+    await this.indexAnswers(id);
 
     return id;
   }
@@ -506,6 +803,10 @@ class DatabaseService {
     id: string,
     data: Partial<ReportSubmission>
   ): Promise<void> {
+    if (!this.transactional) {
+      return this.withTransaction((tx) => tx.updateSubmission(id, data));
+    }
+
     if (!this.db) throw new Error("Database not initialized");
 
     const now = new Date().toISOString();
@@ -515,6 +816,26 @@ class DatabaseService {
     if (data.data !== undefined) {
       updates.push("data = ?");
       values.push(JSON.stringify(data.data));
+
+      // Cada alteração nos dados gera uma nova versão local
+      if (data.version === undefined) {
+        updates.push("version = version + 1");
+      }
+    }
+
+    if (data.version !== undefined) {
+      updates.push("version = ?");
+      values.push(data.version);
+    }
+
+    if (data.serverVersion !== undefined) {
+      updates.push("server_version = ?");
+      values.push(data.serverVersion);
+    }
+
+    if (data.formVersion !== undefined) {
+      updates.push("form_version = ?");
+      values.push(data.formVersion);
     }
 
     if (data.status !== undefined) {
@@ -541,68 +862,824 @@ class DatabaseService {
       `UPDATE report_submissions SET ${updates.join(", ")} WHERE id = ?`,
       values
     );
+
+    if (data.data !== undefined) {
+      await this.indexSubmission(id);
+      await this.indexAnswers(id);
+    }
   }
 
-  async getSubmissionsByUserId(userId: string): Promise<ReportSubmission[]> {
+  async getSubmissionById(id: string): Promise<ReportSubmission | null> {
     await this.ensureInitialized();
-    if (!this.db) return [];
+    if (!this.db) return null;
 
-    const results = await this.db.getAllAsync<any>(
-      "SELECT * FROM report_submissions WHERE user_id = ? ORDER BY last_modified DESC",
-      [userId]
+    const result = await this.db.getFirstAsync<any>(
+      "SELECT * FROM report_submissions WHERE id = ? AND deleted_at IS NULL",
+      [id]
     );
 
-    return results.map((result) => ({
-      id: result.id,
-      reportId: result.report_id,
-      userId: result.user_id,
-      data: JSON.parse(result.data),
-      status: result.status,
-      submittedAt: result.submitted_at,
-      lastModified: result.last_modified,
-      version: result.version,
-      isOffline: result.is_offline === 1,
-      syncStatus: result.sync_status,
-    }));
+    return result ? this.mapSubmission(result) : null;
   }
 
-  async getPendingSyncItems(): Promise<SyncQueue[]> {
+  // Registra a versão aceita pelo servidor após um envio bem-sucedido.
+  // Se ainda houver alterações na fila, a submissão continua pendente.
+  async markSubmissionSynced(
+    id: string,
+    serverVersion: number,
+    hasPendingChanges: boolean = false
+  ): Promise<void> {
     if (!this.db) throw new Error("Database not initialized");
 
-    const results = await this.db.getAllAsync<any>(
-      "SELECT * FROM sync_queue WHERE attempts < 3 ORDER BY created_at ASC"
+    await this.db.runAsync(
+      "UPDATE report_submissions SET server_version = ?, version = MAX(version, ?), sync_status = ? WHERE id = ?",
+      [serverVersion, serverVersion, hasPendingChanges ? "pending" : "synced", id]
     );
-
-    return results.map((result) => ({
-      id: result.id,
-      type: result.type,
-      action: result.action,
-      entityId: result.entity_id,
-      data: JSON.parse(result.data),
-      attempts: result.attempts,
-      lastAttempt: result.last_attempt,
-      error: result.error,
-      createdAt: result.created_at,
-    }));
   }
 
-  async addToSyncQueue(item: Omit<SyncQueue, "id">): Promise<string> {
+  // Atualiza apenas o estado de sincronização, sem alterar last_modified
+  async setSubmissionSyncStatus(
+    id: string,
+    syncStatus: ReportSubmission["syncStatus"]
+  ): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    await this.db.runAsync(
+      "UPDATE report_submissions SET sync_status = ? WHERE id = ?",
+      [syncStatus, id]
+    );
+  }
+
+  // Da alteração mais recente para a mais antiga
+  async getSubmissionsPage(reportId: string, page: PageRequest = {}): Promise<Page<ReportSubmission>> {
+    await this.ensureInitialized();
+    if (!this.db) return { items: [], nextCursor: null };
+
+    const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+    const position = decodeCursor(page.cursor);
+    const conditions = ["report_id = ?", "deleted_at IS NULL"];
+    const values: any[] = [reportId];
+    if (position) {
+      conditions.push("(last_modified < ? OR (last_modified = ? AND id < ?))");
+      values.push(position[0], position[0], position[1]);
+    }
+
+    const results = await this.db.getAllAsync<any>(
+      `SELECT * FROM report_submissions WHERE ${conditions.join(" AND ")}
+       ORDER BY last_modified DESC, id DESC LIMIT ?`,
+      [...values, limit + 1]
+    );
+
+    return toPage(
+      results.map((result) => this.mapSubmission(result)),
+      limit,
+      (submission) => [submission.lastModified, submission.id]
+    );
+  }
+
+  async countSubmissionsByReportId(reportId: string): Promise<number> {
+    await this.ensureInitialized();
+    if (!this.db) return 0;
+
+    const result = await this.db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) AS count FROM report_submissions WHERE report_id = ? AND deleted_at IS NULL",
+      [reportId]
+    );
+
+    return result?.count ?? 0;
+  }
+
+  async getSubmissionsByUserId(userId: string): Promise<ReportSubmission[]> {
+    await this.ensureInitialized();
+    if (!this.db) return [];
+
+    const results = await this.db.getAllAsync<any>(
+      "SELECT * FROM report_submissions WHERE user_id = ? AND deleted_at IS NULL ORDER BY last_modified DESC",
+      [userId]
+    );
+
+    return results.map((result) => this.mapSubmission(result));
+  }
+
+  async getSubmissionsByReportAndUser(
+    reportId: string,
+    userId: string
+  ): Promise<ReportSubmission[]> {
+    await this.ensureInitialized();
+    if (!this.db) return [];
+
+    const results = await this.db.getAllAsync<any>(
+      "SELECT * FROM report_submissions WHERE report_id = ? AND user_id = ? AND deleted_at IS NULL ORDER BY last_modified DESC",
+      [reportId, userId]
+    );
+
+    return results.map((result) => this.mapSubmission(result));
+  }
+
+  async deleteSubmission(id: string): Promise<Attachment[]> {
+    if (!this.transactional) {
+      return this.withTransaction((tx) => tx.deleteSubmission(id));
+    }
+
+    if (!this.db) throw new Error("Database not initialized");
+
+    const attachments = await this.deleteSubmissionAttachments("?", [id]);
+    await this.db.runAsync("DELETE FROM report_versions WHERE submission_id = ?", [id]);
+    await this.db.runAsync("DELETE FROM submission_conflicts WHERE submission_id = ?", [id]);
+    if (this.fullTextSearch) {
+      await this.db.runAsync("DELETE FROM search_index WHERE entity_type = 'submission' AND entity_id = ?", [id]);
+    }
+    await this.db.runAsync("DELETE FROM submission_answers WHERE submission_id = ?", [id]);
+    await this.db.runAsync("DELETE FROM report_submissions WHERE id = ?", [id]);
+    return attachments;
+  }
+
+  // Apaga os anexos citados pelas respostas `submissionIds` (uma subconsulta)
+  // e por suas versões. Devolve os anexos para que os arquivos sejam
+  // removidos por quem chamou, depois do commit
+  private async deleteSubmissionAttachments(submissionIds: string, params: any[]): Promise<Attachment[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const rows = await this.db.getAllAsync<{ data: string }>(
+      `SELECT data FROM report_submissions WHERE id IN (${submissionIds})
+       UNION ALL
+       SELECT data FROM report_versions WHERE submission_id IN (${submissionIds})`,
+      [...params, ...params]
+    );
+    const ids = collectAttachmentIds(rows.map((row) => JSON.parse(row.data)));
+    if (ids.length === 0) return [];
+
+    const placeholders = ids.map(() => "?").join(", ");
+    const results = await this.db.getAllAsync<any>(
+      `SELECT * FROM attachments WHERE id IN (${placeholders})`,
+      ids
+    );
+    await this.db.runAsync(`DELETE FROM attachments WHERE id IN (${placeholders})`, ids);
+
+    return results.map((result) => this.mapAttachment(result));
+  }
+
+  // Métodos para o histórico de versões
+  async createReportVersion(version: Omit<ReportVersion, "id">): Promise<string> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const id = this.generateId();
+
+    await this.db.runAsync(
+      "INSERT INTO report_versions (id, submission_id, version, data, changed_by, changed_at, changes) VALUES (?, ?, ?, ?, ?, ?, ?)",
+      [
+        id,
+        version.submissionId,
+        version.version,
+        JSON.stringify(version.data),
+        version.changedBy,
+        version.changedAt,
+        version.changes,
+      ]
+    );
+
+    return id;
+  }
+
+  async getReportVersions(submissionId: string): Promise<ReportVersion[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const results = await this.db.getAllAsync<any>(
+      "SELECT * FROM report_versions WHERE submission_id = ? ORDER BY version DESC",
+      [submissionId]
+    );
+
+    return results.map((result) => ({
+      id: result.id,
+      submissionId: result.submission_id,
+      version: result.version,
+      data: JSON.parse(result.data),
+      changedBy: result.changed_by,
+      changedAt: result.changed_at,
+      changes: result.changes,
+    }));
+  }
+
+  // Métodos para notificações
+  async createNotification(
+    notification: Omit<Notification, "id" | "createdAt">
+  ): Promise<string> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const id = this.generateId();
+    const now = new Date().toISOString();
+
+    await this.db.runAsync(
+      "INSERT INTO notifications (id, user_id, type, title, message, data, read, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+      [
+        id,
+        notification.userId,
+        notification.type,
+        notification.title,
+        notification.message,
+        notification.data ? JSON.stringify(notification.data) : null,
+        notification.read ? 1 : 0,
+        now,
+      ]
+    );
+
+    return id;
+  }
+
+  async getNotificationsByUserId(userId: string): Promise<Notification[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const results = await this.db.getAllAsync<any>(
+      "SELECT * FROM notifications WHERE user_id = ? ORDER BY created_at DESC",
+      [userId]
+    );
+
+    return results.map((result) => ({
+      id: result.id,
+      userId: result.user_id,
+      type: result.type,
+      title: result.title,
+      message: result.message,
+      data: result.data ? JSON.parse(result.data) : undefined,
+      read: Boolean(result.read),
+      createdAt: result.created_at,
+    }));
+  }
+
+  async markNotificationRead(id: string): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    await this.db.runAsync("UPDATE notifications SET read = 1 WHERE id = ?", [id]);
+  }
+
+  // Métodos para mesclar dados recebidos do servidor
+  async upsertUser(user: User): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    await this.db.runAsync(
+      `INSERT INTO users (id, email, name, role, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET email = excluded.email, name = excluded.name, role = excluded.role, updated_at = excluded.updated_at`,
+      [user.id, user.email, user.name, user.role, user.createdAt, user.updatedAt]
+    );
+  }
+
+  async upsertProject(project: Project): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    await this.db.runAsync(
+      `INSERT INTO projects (id, name, description, owner_id, settings, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET name = excluded.name, description = excluded.description, owner_id = excluded.owner_id,
+         settings = excluded.settings, updated_at = excluded.updated_at`,
+      [
+        project.id,
+        project.name,
+        project.description || "",
+        project.ownerId,
+        JSON.stringify(project.settings),
+        project.createdAt,
+        project.updatedAt,
+      ]
+    );
+  }
+
+  async upsertReport(report: Report): Promise<void> {
+    if (!this.transactional) {
+      return this.withTransaction((tx) => tx.upsertReport(report));
+    }
+
+    if (!this.db) throw new Error("Database not initialized");
+
+    await this.db.runAsync(
+      `INSERT INTO reports (id, project_id, title, description, fields, permissions, status, form_version, created_at, updated_at, created_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET project_id = excluded.project_id, title = excluded.title, description = excluded.description,
+         fields = excluded.fields, permissions = excluded.permissions, status = excluded.status,
+         form_version = excluded.form_version, updated_at = excluded.updated_at`,
+      [
+        report.id,
+        report.projectId,
+        report.title,
+        report.description || "",
+        JSON.stringify(report.fields),
+        JSON.stringify(report.permissions),
+        report.status,
+        report.formVersion ?? 1,
+        report.createdAt,
+        report.updatedAt,
+        report.createdBy,
+      ]
+    );
+    await this.saveReportDefinition(report.id, report.formVersion ?? 1, report.fields, report.updatedAt);
+    await this.indexReport(report.id);
+  }
+
+  // Alterações locais ainda não enviadas têm prioridade sobre a cópia do servidor
+  async upsertSubmission(submission: ReportSubmission): Promise<void> {
+    if (!this.transactional) {
+      return this.withTransaction((tx) => tx.upsertSubmission(submission));
+    }
+
+    if (!this.db) throw new Error("Database not initialized");
+
+    await this.db.runAsync(
+      `INSERT INTO report_submissions (id, report_id, user_id, data, status, submitted_at, last_modified, version, server_version, is_offline, sync_status, form_version)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, 'synced', COALESCE(?, (SELECT form_version FROM reports WHERE id = ?), 1))
+       ON CONFLICT(id) DO UPDATE SET data = excluded.data, status = excluded.status, submitted_at = excluded.submitted_at,
+         last_modified = excluded.last_modified, version = excluded.version, server_version = excluded.server_version,
+         is_offline = 0, sync_status = 'synced', form_version = excluded.form_version
+       WHERE report_submissions.sync_status = 'synced'`,
+      [
+        submission.id,
+        submission.reportId,
+        submission.userId,
+        JSON.stringify(submission.data),
+        submission.status,
+        submission.submittedAt || null,
+        submission.lastModified,
+        submission.version,
+        submission.version,
+        submission.formVersion ?? null,
+        submission.reportId,
+      ]
+    );
+    await this.indexSubmission(submission.id);
+    await this.indexAnswers(submission.id);
+  }
+
+  // Métodos para consultas às respostas normalizadas
+  private buildAnswerQuery(query: AnswerQuery): { conditions: string[]; values: any[] } {
+    const conditions = ["s.report_id = ?", "s.deleted_at IS NULL"];
+    const values: any[] = [query.reportId];
+
+    if (query.status && query.status.length > 0) {
+      conditions.push(`s.status IN (${query.status.map(() => "?").join(", ")})`);
+      values.push(...query.status);
+    }
+
+    if (query.submittedBetween) {
+      conditions.push("s.submitted_at BETWEEN ? AND ?");
+      values.push(query.submittedBetween.start, query.submittedBetween.end);
+    }
+
+    for (const condition of query.conditions || []) {
+      const { sql, params } = answerConditionSql(condition);
+      conditions.push(
+        `EXISTS (SELECT 1 FROM submission_answers a WHERE a.submission_id = s.id AND a.field_id = ? AND ${sql})`
+      );
+      values.push(condition.fieldId, ...params);
+    }
+
+    return { conditions, values };
+  }
+
+  async querySubmissionsByAnswers(query: AnswerQuery): Promise<ReportSubmission[]> {
+    await this.ensureInitialized();
+    if (!this.db) return [];
+
+    const { conditions, values } = this.buildAnswerQuery(query);
+    const results = await this.db.getAllAsync<any>(
+      `SELECT s.* FROM report_submissions s WHERE ${conditions.join(" AND ")}
+       ORDER BY s.last_modified DESC, s.id DESC`,
+      values
+    );
+
+    return results.map((result) => this.mapSubmission(result));
+  }
+
+  async countSubmissionsByAnswers(query: AnswerQuery): Promise<number> {
+    await this.ensureInitialized();
+    if (!this.db) return 0;
+
+    const { conditions, values } = this.buildAnswerQuery(query);
+    const result = await this.db.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM report_submissions s WHERE ${conditions.join(" AND ")}`,
+      values
+    );
+
+    return result?.count ?? 0;
+  }
+
+  async aggregateAnswers(query: AnswerQuery, fieldId: string, aggregate: AnswerAggregate): Promise<number | null> {
+    await this.ensureInitialized();
+    if (!this.db) return null;
+
+    const { conditions, values } = this.buildAnswerQuery(query);
+    const expression = aggregate === "count" ? "COUNT(*)" : `${aggregate.toUpperCase()}(v.value_number)`;
+    const result = await this.db.getFirstAsync<{ result: number | null }>(
+      `SELECT ${expression} AS result
+       FROM submission_answers v JOIN report_submissions s ON s.id = v.submission_id
+       WHERE v.field_id = ? AND ${conditions.join(" AND ")}`,
+      [fieldId, ...values]
+    );
+
+    return result?.result ?? null;
+  }
+
+  async getAnswerDistribution(query: AnswerQuery, fieldId: string): Promise<AnswerValueCount[]> {
+    await this.ensureInitialized();
+    if (!this.db) return [];
+
+    const { conditions, values } = this.buildAnswerQuery(query);
+    const results = await this.db.getAllAsync<any>(
+      `SELECT v.value_type, v.value_text, v.value_number, v.value_boolean, COUNT(*) AS count
+       FROM submission_answers v JOIN report_submissions s ON s.id = v.submission_id
+       WHERE v.field_id = ? AND ${conditions.join(" AND ")}
+       GROUP BY v.value_type, v.value_text, v.value_number, v.value_boolean
+       ORDER BY count DESC, v.value_type, v.value_text, v.value_number, v.value_boolean`,
+      [fieldId, ...values]
+    );
+
+    return results.map((result) => ({
+      value:
+        result.value_type === "number"
+          ? result.value_number
+          : result.value_type === "boolean"
+            ? result.value_boolean === 1
+            : result.value_text,
+      count: result.count,
+    }));
+  }
+
+  // Métodos para conflitos de versão
+  async saveSubmissionConflict(
+    submissionId: string,
+    localData: Record<string, any>,
+    serverSubmission: ReportSubmission
+  ): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const now = new Date().toISOString();
+
+    await this.db.runAsync(
+      `INSERT INTO submission_conflicts (submission_id, local_data, server_submission, detected_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(submission_id) DO UPDATE SET local_data = excluded.local_data,
+         server_submission = excluded.server_submission, detected_at = excluded.detected_at`,
+      [submissionId, JSON.stringify(localData), JSON.stringify(serverSubmission), now]
+    );
+  }
+
+  async getSubmissionConflict(
+    submissionId: string
+  ): Promise<SubmissionConflict | null> {
+    await this.ensureInitialized();
+    if (!this.db) return null;
+
+    const result = await this.db.getFirstAsync<any>(
+      "SELECT * FROM submission_conflicts WHERE submission_id = ?",
+      [submissionId]
+    );
+
+    if (!result) return null;
+
+    return {
+      submissionId: result.submission_id,
+      localData: JSON.parse(result.local_data),
+      serverSubmission: JSON.parse(result.server_submission),
+      detectedAt: result.detected_at,
+    };
+  }
+
+  async removeSubmissionConflict(submissionId: string): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    await this.db.runAsync(
+      "DELETE FROM submission_conflicts WHERE submission_id = ?",
+      [submissionId]
+    );
+  }
+
+  // Métodos para o estado da sincronização
+  async getSyncState(key: string): Promise<string | null> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const result = await this.db.getFirstAsync<{ value: string }>(
+      "SELECT value FROM sync_state WHERE key = ?",
+      [key]
+    );
+
+    return result ? result.value : null;
+  }
+
+  async setSyncState(key: string, value: string): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const now = new Date().toISOString();
+
+    await this.db.runAsync(
+      `INSERT INTO sync_state (key, value, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+      [key, value, now]
+    );
+  }
+
+  async getPendingSyncItems(userId: string, now?: string): Promise<SyncQueue[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    // Apenas itens do usuário cujo horário de nova tentativa já chegou
+    const results = await this.db.getAllAsync<any>(
+      "SELECT * FROM sync_queue WHERE user_id = ? AND (next_attempt_at IS NULL OR next_attempt_at <= ?) ORDER BY created_at ASC",
+      [userId, now || new Date().toISOString()]
+    );
+
+    return results.map((result) => this.mapSyncQueueItem(result));
+  }
+
+  async getSyncQueueCount(userId: string): Promise<number> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const result = await this.db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) AS count FROM sync_queue WHERE user_id = ?",
+      [userId]
+    );
+
+    return result?.count ?? 0;
+  }
+
+  async addToSyncQueue(item: Omit<SyncQueue, "id">): Promise<string> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const id = this.generateId();
+    const now = new Date().toISOString();
+
+    await this.db.runAsync(
+      "INSERT INTO sync_queue (id, type, action, entity_id, data, attempts, last_attempt, next_attempt_at, error, user_id, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      [
+        id,
+        item.type,
+        item.action,
+        item.entityId,
+        JSON.stringify(item.data),
+        item.attempts,
+        item.lastAttempt || null,
+        item.nextAttemptAt || null,
+        item.error || null,
+        item.userId || null,
+        now,
+      ]
+    );
+
+    return id;
+  }
+
+  async updateSyncQueueItem(
+    id: string,
+    attempts: number,
+    error?: string,
+    nextAttemptAt?: string
+  ): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const now = new Date().toISOString();
+
+    await this.db.runAsync(
+      "UPDATE sync_queue SET attempts = ?, last_attempt = ?, next_attempt_at = ?, error = ? WHERE id = ?",
+      [attempts, now, nextAttemptAt || null, error || null, id]
+    );
+  }
+
+  async removeSyncQueueItem(id: string): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    await this.db.runAsync("DELETE FROM sync_queue WHERE id = ?", [id]);
+  }
+
+  // Cada entidade tem no máximo um item pendente por usuário na fila
+  async getSyncItemForEntity(
+    type: SyncQueue["type"],
+    entityId: string,
+    userId: string
+  ): Promise<SyncQueue | null> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const result = await this.db.getFirstAsync<any>(
+      "SELECT * FROM sync_queue WHERE type = ? AND entity_id = ? AND user_id = ?",
+      [type, entityId, userId]
+    );
+
+    return result ? this.mapSyncQueueItem(result) : null;
+  }
+
+  // Substitui a operação pendente de uma entidade por sua versão combinada
+  async coalesceSyncQueueItem(
+    id: string,
+    action: SyncQueue["action"],
+    data: Record<string, any>
+  ): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    await this.db.runAsync(
+      "UPDATE sync_queue SET action = ?, data = ?, revision = revision + 1 WHERE id = ?",
+      [action, JSON.stringify(data), id]
+    );
+  }
+
+  // Remove o item enviado, a menos que tenha sido alterado durante o envio.
+  // Retorna false quando ainda há alterações mais novas na fila.
+  async completeSyncQueueItem(item: SyncQueue): Promise<boolean> {
+    if (!this.transactional) {
+      return this.withTransaction((tx) => tx.completeSyncQueueItem(item));
+    }
+
+    if (!this.db) throw new Error("Database not initialized");
+
+    const result = await this.db.runAsync(
+      "DELETE FROM sync_queue WHERE id = ? AND revision = ?",
+      [item.id, item.revision ?? 0]
+    );
+
+    if (result.changes > 0) {
+      return true;
+    }
+
+    // A entidade já existe no servidor: o que restou passa a ser atualização
+    if (item.action === "create") {
+      await this.db.runAsync(
+        "UPDATE sync_queue SET action = 'update' WHERE id = ? AND action = 'create'",
+        [item.id]
+      );
+    }
+
+    return false;
+  }
+
+  // Itens gravados antes da fila registrar o usuário passam a ser do dono da
+  // entidade. Os que não dá para atribuir continuam retidos, sem dono
+  async assignUnownedSyncItems(): Promise<void> {
+    if (!this.transactional) {
+      return this.withTransaction((tx) => tx.assignUnownedSyncItems());
+    }
+
+    if (!this.db) throw new Error("Database not initialized");
+
+    for (const table of ["sync_queue", "sync_dead_letters"]) {
+      await this.db.runAsync(
+        `UPDATE ${table} SET user_id = CASE type
+           WHEN 'submission' THEN (SELECT user_id FROM report_submissions WHERE id = ${table}.entity_id)
+           WHEN 'report' THEN (SELECT created_by FROM reports WHERE id = ${table}.entity_id)
+           WHEN 'project' THEN (SELECT owner_id FROM projects WHERE id = ${table}.entity_id)
+           WHEN 'user' THEN (SELECT id FROM users WHERE id = ${table}.entity_id)
+         END
+         WHERE user_id IS NULL`
+      );
+    }
+  }
+
+  // Métodos para a fila de itens com falha definitiva (dead letter)
+  async moveSyncItemToDeadLetter(
+    item: SyncQueue,
+    error: string
+  ): Promise<void> {
+    if (!this.transactional) {
+      return this.withTransaction((tx) => tx.moveSyncItemToDeadLetter(item, error));
+    }
+
+    if (!this.db) throw new Error("Database not initialized");
+
+    const now = new Date().toISOString();
+
+    await this.db.runAsync(
+      "INSERT INTO sync_dead_letters (id, type, action, entity_id, data, attempts, error, user_id, failed_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      [
+        item.id,
+        item.type,
+        item.action,
+        item.entityId,
+        JSON.stringify(item.data),
+        item.attempts,
+        error,
+        item.userId || null,
+        now,
+        item.createdAt,
+      ]
+    );
+    await this.db.runAsync("DELETE FROM sync_queue WHERE id = ?", [item.id]);
+  }
+
+  async getDeadLetterItems(userId: string): Promise<DeadLetterItem[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const results = await this.db.getAllAsync<any>(
+      "SELECT * FROM sync_dead_letters WHERE user_id = ? ORDER BY failed_at DESC",
+      [userId]
+    );
+
+    return results.map((result) => this.mapDeadLetterItem(result));
+  }
+
+  async getDeadLetterCount(userId: string): Promise<number> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const result = await this.db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) AS count FROM sync_dead_letters WHERE user_id = ?",
+      [userId]
+    );
+
+    return result?.count ?? 0;
+  }
+
+  async getDeadLetterItem(id: string): Promise<DeadLetterItem | null> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const result = await this.db.getFirstAsync<any>(
+      "SELECT * FROM sync_dead_letters WHERE id = ?",
+      [id]
+    );
+
+    return result ? this.mapDeadLetterItem(result) : null;
+  }
+
+  async removeDeadLetterItem(id: string): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    await this.db.runAsync("DELETE FROM sync_dead_letters WHERE id = ?", [id]);
+  }
+
+  async clearDeadLetterItems(userId: string): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    await this.db.runAsync("DELETE FROM sync_dead_letters WHERE user_id = ?", [
+      userId,
+    ]);
+  }
+
+  private mapDeadLetterItem(result: any): DeadLetterItem {
+    return {
+      id: result.id,
+      type: result.type,
+      action: result.action,
+      entityId: result.entity_id,
+      data: JSON.parse(result.data),
+      attempts: result.attempts,
+      error: result.error,
+      userId: result.user_id,
+      failedAt: result.failed_at,
+      createdAt: result.created_at,
+    };
+  }
+
+  private mapSubmission(result: any): ReportSubmission {
+    return {
+      id: result.id,
+      reportId: result.report_id,
+      userId: result.user_id,
+      data: JSON.parse(result.data),
+      status: result.status,
+      submittedAt: result.submitted_at,
+      lastModified: result.last_modified,
+      version: result.version,
+      serverVersion: result.server_version ?? undefined,
+      formVersion: result.form_version,
+      isOffline: Boolean(result.is_offline),
+      syncStatus: result.sync_status,
+    };
+  }
+
+  private mapSyncQueueItem(result: any): SyncQueue {
+    return {
+      id: result.id,
+      type: result.type,
+      action: result.action,
+      entityId: result.entity_id,
+      data: JSON.parse(result.data),
+      attempts: result.attempts,
+      lastAttempt: result.last_attempt,
+      nextAttemptAt: result.next_attempt_at,
+      error: result.error,
+      revision: result.revision ?? 0,
+      userId: result.user_id,
+      createdAt: result.created_at,
+    };
+  }
+
+  // Método utilitário para gerar IDs únicos
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+
+  // Métodos para anexos
+  async createAttachment(
+    attachment: Omit<Attachment, "id" | "createdAt" | "updatedAt">
+  ): Promise<string> {
     if (!this.db) throw new Error("Database not initialized");
 
     const id = this.generateId();
     const now = new Date().toISOString();
 
     await this.db.runAsync(
-      "INSERT INTO sync_queue (id, type, action, entity_id, data, attempts, last_attempt, error, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      "INSERT INTO attachments (id, user_id, field_id, local_uri, file_name, mime_type, size, checksum, upload_state, upload_id, uploaded_bytes, remote_id, error, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
       [
         id,
-        item.type,
-        item.action,
-        item.entityId,
-        JSON.stringify(item.data),
-        item.attempts,
-        item.lastAttempt || null,
-        item.error || null,
+        attachment.userId,
+        attachment.fieldId || null,
+        attachment.localUri,
+        attachment.fileName,
+        attachment.mimeType || null,
+        attachment.size,
+        attachment.checksum,
+        attachment.uploadState,
+        attachment.uploadId || null,
+        attachment.uploadedBytes,
+        attachment.remoteId || null,
+        attachment.error || null,
+        now,
         now,
       ]
     );
@@ -610,56 +1687,584 @@ class DatabaseService {
     return id;
   }
 
-  async updateSyncQueueItem(
+  async getAttachmentById(id: string): Promise<Attachment | null> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const result = await this.db.getFirstAsync<any>(
+      "SELECT * FROM attachments WHERE id = ?",
+      [id]
+    );
+
+    return result ? this.mapAttachment(result) : null;
+  }
+
+  // Registra o andamento do upload para que possa ser retomado
+  async updateAttachmentUpload(
     id: string,
-    attempts: number,
-    error?: string
+    data: Partial<Pick<Attachment, "uploadState" | "uploadId" | "uploadedBytes" | "remoteId" | "error">>
   ): Promise<void> {
     if (!this.db) throw new Error("Database not initialized");
 
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (data.uploadState !== undefined) {
+      updates.push("upload_state = ?");
+      values.push(data.uploadState);
+    }
+    if (data.uploadId !== undefined) {
+      updates.push("upload_id = ?");
+      values.push(data.uploadId);
+    }
+    if (data.uploadedBytes !== undefined) {
+      updates.push("uploaded_bytes = ?");
+      values.push(data.uploadedBytes);
+    }
+    if (data.remoteId !== undefined) {
+      updates.push("remote_id = ?");
+      values.push(data.remoteId);
+    }
+    if (data.error !== undefined) {
+      updates.push("error = ?");
+      values.push(data.error);
+    }
+
+    updates.push("updated_at = ?");
+    values.push(new Date().toISOString());
+    values.push(id);
+
+    await this.db.runAsync(
+      `UPDATE attachments SET ${updates.join(", ")} WHERE id = ?`,
+      values
+    );
+  }
+
+  async deleteAttachment(id: string): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    await this.db.runAsync("DELETE FROM attachments WHERE id = ?", [id]);
+  }
+
+  private mapAttachment(result: any): Attachment {
+    return {
+      id: result.id,
+      userId: result.user_id,
+      fieldId: result.field_id,
+      localUri: result.local_uri,
+      fileName: result.file_name,
+      mimeType: result.mime_type,
+      size: result.size,
+      checksum: result.checksum,
+      uploadState: result.upload_state,
+      uploadId: result.upload_id,
+      uploadedBytes: result.uploaded_bytes,
+      remoteId: result.remote_id,
+      error: result.error,
+      createdAt: result.created_at,
+      updatedAt: result.updated_at,
+    };
+  }
+
+  // Métodos para a lixeira
+  async moveToTrash(type: TrashItem["type"], id: string): Promise<void> {
+    if (!this.transactional) {
+      return this.withTransaction((tx) => tx.moveToTrash(type, id));
+    }
+
+    await this.ensureInitialized();
+    if (!this.db) throw new Error("Database not initialized");
+
+    // Dependentes recebem a mesma data, o que permite restaurá-los juntos
     const now = new Date().toISOString();
 
+    if (type === "project") {
+      await this.db.runAsync(
+        "UPDATE projects SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL",
+        [now, id]
+      );
+      await this.db.runAsync(
+        "UPDATE reports SET deleted_at = ? WHERE project_id = ? AND deleted_at IS NULL",
+        [now, id]
+      );
+      await this.db.runAsync(
+        `UPDATE report_submissions SET deleted_at = ? WHERE deleted_at IS NULL
+         AND report_id IN (SELECT id FROM reports WHERE project_id = ? AND deleted_at = ?)`,
+        [now, id, now]
+      );
+    } else if (type === "report") {
+      await this.db.runAsync(
+        "UPDATE reports SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL",
+        [now, id]
+      );
+      await this.db.runAsync(
+        "UPDATE report_submissions SET deleted_at = ? WHERE report_id = ? AND deleted_at IS NULL",
+        [now, id]
+      );
+    } else {
+      await this.db.runAsync(
+        "UPDATE report_submissions SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL",
+        [now, id]
+      );
+    }
+  }
+
+  async restoreFromTrash(type: TrashItem["type"], id: string): Promise<void> {
+    if (!this.transactional) {
+      return this.withTransaction((tx) => tx.restoreFromTrash(type, id));
+    }
+
+    await this.ensureInitialized();
+    if (!this.db) throw new Error("Database not initialized");
+
+    if (type === "project") {
+      const project = await this.db.getFirstAsync<any>(
+        "SELECT deleted_at FROM projects WHERE id = ?",
+        [id]
+      );
+      if (!project?.deleted_at) return;
+
+      await this.db.runAsync(
+        `UPDATE report_submissions SET deleted_at = NULL WHERE deleted_at = ?
+         AND report_id IN (SELECT id FROM reports WHERE project_id = ? AND deleted_at = ?)`,
+        [project.deleted_at, id, project.deleted_at]
+      );
+      await this.db.runAsync(
+        "UPDATE reports SET deleted_at = NULL WHERE project_id = ? AND deleted_at = ?",
+        [id, project.deleted_at]
+      );
+      await this.db.runAsync("UPDATE projects SET deleted_at = NULL WHERE id = ?", [id]);
+    } else if (type === "report") {
+      const report = await this.db.getFirstAsync<any>(
+        `SELECT r.deleted_at, p.deleted_at AS project_deleted_at
+         FROM reports r LEFT JOIN projects p ON p.id = r.project_id WHERE r.id = ?`,
+        [id]
+      );
+      if (!report?.deleted_at) return;
+      if (report.project_deleted_at) {
+        throw new Error(`Report ${id} belongs to a project in the trash`);
+      }
+
+      await this.db.runAsync(
+        "UPDATE report_submissions SET deleted_at = NULL WHERE report_id = ? AND deleted_at = ?",
+        [id, report.deleted_at]
+      );
+      await this.db.runAsync("UPDATE reports SET deleted_at = NULL WHERE id = ?", [id]);
+    } else {
+      const submission = await this.db.getFirstAsync<any>(
+        `SELECT s.deleted_at, r.deleted_at AS report_deleted_at
+         FROM report_submissions s LEFT JOIN reports r ON r.id = s.report_id WHERE s.id = ?`,
+        [id]
+      );
+      if (!submission?.deleted_at) return;
+      if (submission.report_deleted_at) {
+        throw new Error(`Submission ${id} belongs to a report in the trash`);
+      }
+
+      await this.db.runAsync("UPDATE report_submissions SET deleted_at = NULL WHERE id = ?", [id]);
+    }
+  }
+
+  async getTrashItems(userId: string): Promise<TrashItem[]> {
+    await this.ensureInitialized();
+    if (!this.db) return [];
+
+    // Filhos excluídos na mesma data que o pai aparecem apenas por meio dele
+    const projects = await this.db.getAllAsync<any>(
+      "SELECT id, name, deleted_at FROM projects WHERE owner_id = ? AND deleted_at IS NOT NULL",
+      [userId]
+    );
+    const reports = await this.db.getAllAsync<any>(
+      `SELECT r.id, r.title, r.deleted_at, p.name AS project_name
+       FROM reports r LEFT JOIN projects p ON p.id = r.project_id
+       WHERE r.created_by = ? AND r.deleted_at IS NOT NULL
+       AND (p.deleted_at IS NULL OR p.deleted_at <> r.deleted_at)`,
+      [userId]
+    );
+    const submissions = await this.db.getAllAsync<any>(
+      `SELECT s.id, s.deleted_at, r.title AS report_title
+       FROM report_submissions s LEFT JOIN reports r ON r.id = s.report_id
+       WHERE s.user_id = ? AND s.deleted_at IS NOT NULL
+       AND (r.deleted_at IS NULL OR r.deleted_at <> s.deleted_at)`,
+      [userId]
+    );
+
+    const items: TrashItem[] = [
+      ...projects.map((result) => ({
+        type: "project" as const,
+        id: result.id,
+        title: result.name,
+        deletedAt: result.deleted_at,
+      })),
+      ...reports.map((result) => ({
+        type: "report" as const,
+        id: result.id,
+        title: result.title,
+        parentTitle: result.project_name ?? undefined,
+        deletedAt: result.deleted_at,
+      })),
+      ...submissions.map((result) => ({
+        type: "submission" as const,
+        id: result.id,
+        title: result.report_title ?? result.id,
+        deletedAt: result.deleted_at,
+      })),
+    ];
+
+    return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  // Métodos para a retenção de dados
+  async getProjectsWithRetention(): Promise<Project[]> {
+    await this.ensureInitialized();
+    if (!this.db) return [];
+
+    const results = await this.db.getAllAsync<any>(
+      "SELECT * FROM projects WHERE deleted_at IS NULL AND json_extract(settings, '$.retention') IS NOT NULL ORDER BY created_at DESC"
+    );
+
+    return results.map((result) => this.mapProject(result));
+  }
+
+  async getInactiveReports(projectId: string, createdBy: string, before: string): Promise<Report[]> {
+    await this.ensureInitialized();
+    if (!this.db) return [];
+
+    const results = await this.db.getAllAsync<any>(
+      `SELECT * FROM reports r
+       WHERE r.project_id = ? AND r.created_by = ? AND r.status = 'active'
+       AND r.deleted_at IS NULL AND r.updated_at < ?
+       AND NOT EXISTS (
+         SELECT 1 FROM report_submissions s
+         WHERE s.report_id = r.id AND s.deleted_at IS NULL AND s.last_modified >= ?
+       )
+       ORDER BY r.updated_at`,
+      [projectId, createdBy, before, before]
+    );
+
+    return results.map((result) => this.mapReport(result));
+  }
+
+  async getAbandonedDrafts(projectId: string, userId: string, before: string): Promise<ReportSubmission[]> {
+    await this.ensureInitialized();
+    if (!this.db) return [];
+
+    const results = await this.db.getAllAsync<any>(
+      `SELECT s.* FROM report_submissions s JOIN reports r ON r.id = s.report_id
+       WHERE r.project_id = ? AND s.user_id = ? AND s.status = 'draft'
+       AND s.deleted_at IS NULL AND r.deleted_at IS NULL AND s.last_modified < ?
+       ORDER BY s.last_modified`,
+      [projectId, userId, before]
+    );
+
+    return results.map((result) => this.mapSubmission(result));
+  }
+
+  async getLegalHoldUntil(type: TrashItem["type"], id: string): Promise<string | null> {
+    await this.ensureInitialized();
+    if (!this.db) return null;
+
+    // Inclui respostas na lixeira: é justamente a exclusão definitiva que o prazo impede
+    const scope = type === "project" ? "r.project_id = ?" : type === "report" ? "r.id = ?" : "s.id = ?";
+    const result = await this.db.getFirstAsync<{ submitted_at: string | null; settings: string }>(
+      `SELECT MAX(COALESCE(s.submitted_at, s.last_modified)) AS submitted_at, p.settings
+       FROM report_submissions s
+       JOIN reports r ON r.id = s.report_id
+       JOIN projects p ON p.id = r.project_id
+       WHERE s.status <> 'draft' AND ${scope}
+       GROUP BY p.id`,
+      [id]
+    );
+
+    if (!result?.submitted_at) return null;
+    return legalHoldUntil(result.submitted_at, JSON.parse(result.settings));
+  }
+
+  async addRetentionLogEntry(entry: Omit<RetentionLogEntry, "id">): Promise<string> {
+    await this.ensureInitialized();
+    if (!this.db) throw new Error("Database not initialized");
+
+    const id = this.generateId();
     await this.db.runAsync(
-      "UPDATE sync_queue SET attempts = ?, last_attempt = ?, error = ? WHERE id = ?",
-      [attempts, now, error || null, id]
+      `INSERT INTO retention_log (id, user_id, project_id, rule, entity_type, entity_id, details, applied_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        entry.userId,
+        entry.projectId,
+        entry.rule,
+        entry.entityType,
+        entry.entityId,
+        entry.details || null,
+        entry.appliedAt,
+      ]
     );
+
+    return id;
   }
 
-  async removeSyncQueueItem(id: string): Promise<void> {
+  async getRetentionLog(userId: string, projectId: string, limit: number = 100): Promise<RetentionLogEntry[]> {
+    await this.ensureInitialized();
+    if (!this.db) return [];
+
+    const results = await this.db.getAllAsync<any>(
+      "SELECT * FROM retention_log WHERE user_id = ? AND project_id = ? ORDER BY applied_at DESC LIMIT ?",
+      [userId, projectId, limit]
+    );
+
+    return results.map((result) => ({
+      id: result.id,
+      userId: result.user_id,
+      projectId: result.project_id,
+      rule: result.rule,
+      entityType: result.entity_type,
+      entityId: result.entity_id,
+      details: result.details ?? undefined,
+      appliedAt: result.applied_at,
+    }));
+  }
+
+  // Métodos para a busca textual
+  async search(query: string, limit: number = 50): Promise<SearchResult[]> {
+    await this.ensureInitialized();
+    if (!this.db) return [];
+
+    if (!this.fullTextSearch) {
+      return this.searchWithoutIndex(query, limit);
+    }
+
+    const match = toMatchQuery(query);
+    if (!match) return [];
+
+    // O título pesa mais que o corpo; itens na lixeira ficam de fora
+    const results = await this.db.getAllAsync<any>(
+      `SELECT search_index.entity_type, search_index.entity_id, search_index.report_id, r.title AS report_title,
+         snippet(search_index, -1, ?, ?, '…', 12) AS snippet,
+         bm25(search_index, 0, 0, 0, 10.0, 1.0) AS rank
+       FROM search_index
+       JOIN reports r ON r.id = search_index.report_id AND r.deleted_at IS NULL
+       LEFT JOIN report_submissions s ON search_index.entity_type = 'submission' AND s.id = search_index.entity_id
+       WHERE search_index MATCH ?
+       AND (search_index.entity_type = 'report' OR (s.id IS NOT NULL AND s.deleted_at IS NULL))
+       ORDER BY rank
+       LIMIT ?`,
+      [HIGHLIGHT_START, HIGHLIGHT_END, match, limit]
+    );
+
+    return results.map((result) => ({
+      type: result.entity_type,
+      id: result.entity_id,
+      reportId: result.report_id,
+      title: result.report_title,
+      snippet: parseSnippet(result.snippet || ""),
+      rank: result.rank,
+    }));
+  }
+
+  // Sem FTS5 as regras da MemoryRepository valem sobre todos os textos. Um
+  // filtro com LIKE não serve: não ignora acentos como o tokenizador do índice
+  private async searchWithoutIndex(query: string, limit: number): Promise<SearchResult[]> {
+    if (!this.db) return [];
+    if (searchTerms(query).length === 0) return [];
+
+    const documents = await this.db.getAllAsync<any>(
+      `SELECT d.*, r.title AS report_title
+       FROM (${REPORT_DOCUMENTS_SQL} WHERE r.deleted_at IS NULL
+         UNION ALL
+         ${SUBMISSION_DOCUMENTS_SQL} WHERE s.deleted_at IS NULL) d
+       JOIN reports r ON r.id = d.report_id AND r.deleted_at IS NULL`
+    );
+
+    return rankDocuments(
+      documents.map((document) => ({
+        type: document.entity_type,
+        id: document.entity_id,
+        reportId: document.report_id,
+        reportTitle: document.report_title,
+        title: document.title,
+        body: document.body,
+      })),
+      query,
+      limit
+    );
+  }
+
+  private async indexReport(id: string): Promise<void> {
     if (!this.db) throw new Error("Database not initialized");
+    if (!this.fullTextSearch) return;
 
-    await this.db.runAsync("DELETE FROM sync_queue WHERE id = ?", [id]);
+    await this.db.runAsync(
+      "DELETE FROM search_index WHERE entity_type = 'report' AND entity_id = ?",
+      [id]
+    );
+    await this.db.runAsync(`${INDEX_REPORTS_SQL} WHERE r.id = ?`, [id]);
   }
 
-  // Método utilitário para gerar IDs únicos
-  private generateId(): string {
-    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  private async indexSubmission(id: string): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+    if (!this.fullTextSearch) return;
+
+    await this.db.runAsync(
+      "DELETE FROM search_index WHERE entity_type = 'submission' AND entity_id = ?",
+      [id]
+    );
+    await this.db.runAsync(`${INDEX_SUBMISSIONS_SQL} WHERE s.id = ?`, [id]);
+  }
+
+  private async indexAnswers(id: string): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const result = await this.db.getFirstAsync<{ data: string }>(
+      "SELECT data FROM report_submissions WHERE id = ?",
+      [id]
+    );
+    if (result) {
+      await writeAnswers(this.db, id, JSON.parse(result.data));
+    }
   }
 
   // Método para limpar dados (útil para desenvolvimento)
   async clearAllData(): Promise<void> {
+    if (!this.transactional) {
+      return this.withTransaction((tx) => tx.clearAllData());
+    }
+
     if (!this.db) throw new Error("Database not initialized");
 
     const tables = [
+      "search_index",
+      "submission_answers",
+      "retention_log",
+      "attachments",
+      "sync_state",
+      "sync_dead_letters",
       "sync_queue",
+      "submission_conflicts",
       "notifications",
       "report_versions",
       "report_submissions",
+      "report_definitions",
       "reports",
       "projects",
       "users",
     ];
 
     for (const table of tables) {
+      if (table === "search_index" && !this.fullTextSearch) continue;
       await this.db.runAsync(`DELETE FROM ${table}`);
     }
   }
 
+  // Versão do esquema local (PRAGMA user_version), gravada no backup
+  async getSchemaVersion(): Promise<number> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const result = await this.db.getFirstAsync<{ user_version: number }>("PRAGMA user_version");
+    return result?.user_version ?? 0;
+  }
+
+  // Linhas de uma tabela do backup, no formato das colunas. O backup é lido
+  // uma tabela por vez para não manter o banco inteiro em memória
+  async exportTable(table: string): Promise<Record<string, any>[]> {
+    if (!this.db) throw new Error("Database not initialized");
+    if (!BACKUP_TABLES.includes(table)) {
+      throw new Error(`Table is not part of the backup: ${table}`);
+    }
+
+    return this.db.getAllAsync<Record<string, any>>(`SELECT * FROM ${table}`);
+  }
+
+  // Importa as linhas de um backup em uma única transação e reconstrói o
+  // índice de busca e as respostas normalizadas. Backups de um esquema mais
+  // novo que o local são recusados
+  async importTables(
+    tables: BackupTables,
+    schemaVersion: number,
+    mode: BackupImportMode
+  ): Promise<Record<string, BackupTableSummary>> {
+    if (!this.db) throw new Error("Database not initialized");
+    const db = this.db;
+
+    const result = await db.getFirstAsync<{ user_version: number }>("PRAGMA user_version");
+    if (schemaVersion > (result?.user_version ?? 0)) {
+      throw new Error("Backup was created by a newer version of the app");
+    }
+
+    const summary: Record<string, BackupTableSummary> = {};
+    await this.withTransaction(async (tx) => {
+      const txDb = tx.db!;
+      if (mode === "replace") {
+        for (const table of [...BACKUP_TABLES].reverse()) {
+          await txDb.runAsync(`DELETE FROM ${table}`);
+        }
+      }
+
+      for (const table of BACKUP_TABLES) {
+        summary[table] = await tx.importTableRows(txDb, table, tables[table] || []);
+      }
+
+      if (tx.fullTextSearch) {
+        await txDb.runAsync("DELETE FROM search_index");
+        await txDb.runAsync(INDEX_REPORTS_SQL);
+        await txDb.runAsync(INDEX_SUBMISSIONS_SQL);
+      }
+      await rebuildAnswers(txDb);
+    });
+
+    return summary;
+  }
+
+  // Linhas novas são inseridas; as que já existem só são substituídas se a
+  // do backup for mais recente. Colunas que a tabela local não conhece são
+  // ignoradas e as que faltam no backup ficam com o valor padrão
+  private async importTableRows(
+    db: SQLite.SQLiteDatabase,
+    table: string,
+    rows: Record<string, any>[]
+  ): Promise<BackupTableSummary> {
+    const summary: BackupTableSummary = { inserted: 0, updated: 0, skipped: 0 };
+    const info = await db.getAllAsync<any>(`PRAGMA table_info(${table})`);
+    const known = new Set(info.map((column) => column.name));
+    const keys = info
+      .filter((column) => column.pk > 0)
+      .sort((a, b) => a.pk - b.pk)
+      .map((column) => column.name);
+    const stamp = ["updated_at", "last_modified"].find((column) => known.has(column));
+
+    for (const row of rows) {
+      const existing = await db.getFirstAsync<any>(
+        `SELECT ${stamp ?? "NULL"} AS stamp FROM ${table} WHERE ${keys.map((key) => `${key} = ?`).join(" AND ")}`,
+        keys.map((key) => row[key])
+      );
+      if (existing && !(stamp && row[stamp] > existing.stamp)) {
+        summary.skipped++;
+        continue;
+      }
+
+      const columns = Object.keys(row).filter((column) => known.has(column));
+      // Linhas novas que colidem em outra restrição (ex.: email) não
+      // substituem a local
+      const result = await db.runAsync(
+        `INSERT OR ${existing ? "REPLACE" : "IGNORE"} INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+        columns.map((column) => row[column])
+      );
+      if (result.changes === 0) {
+        summary.skipped++;
+      } else if (existing) {
+        summary.updated++;
+      } else {
+        summary.inserted++;
+      }
+    }
+
+    return summary;
+  }
+
   // Método para fechar a conexão com o banco
   async close(): Promise<void> {
     if (this.db) {
       await this.db.closeAsync();
       this.db = null;
+      this.initPromise = null;
     }
   }
 }
@@ -0,0 +1,45 @@
+import * as SecureStore from "expo-secure-store";
+import * as Crypto from "expo-crypto";
+
+// Criptografia em repouso (SQLCipher). A chave é gerada no primeiro uso e
+// fica apenas no SecureStore; sem ela o arquivo do banco é ilegível.
+
+// Banco cifrado; o reports.db das versões anteriores, em texto puro, é
+// importado para ele na primeira abertura e depois apagado
+export const DATABASE_NAME = "reports.secure.db";
+export const LEGACY_DATABASE_NAME = "reports.db";
+
+const KEY_ITEM = "database_key";
+// Durante a rotação a nova chave fica aqui até o rekey terminar
+const PENDING_KEY_ITEM = "database_key_pending";
+
+export const generateKey = async (): Promise<string> => {
+  const bytes = await Crypto.getRandomBytesAsync(32);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// Chave binária no formato do SQLCipher (sem derivação por PBKDF2)
+export const rawKey = (key: string): string => `x'${key}'`;
+
+// Chave errada: o SQLCipher lê o arquivo como lixo e o SQLite responde com
+// SQLITE_NOTADB (código 26), "file is not a database"
+export const isWrongKeyError = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message : String(error);
+  return /file is not a database|SQLITE_NOTADB/i.test(message);
+};
+
+// Chaves que podem abrir o banco, da atual para a pendente
+export const getStoredKeys = async (): Promise<string[]> => {
+  const current = await SecureStore.getItemAsync(KEY_ITEM);
+  const pending = await SecureStore.getItemAsync(PENDING_KEY_ITEM);
+  return [current, pending].filter((key): key is string => !!key);
+};
+
+export const savePendingKey = (key: string): Promise<void> =>
+  SecureStore.setItemAsync(PENDING_KEY_ITEM, key);
+
+// Torna `key` a chave atual e descarta a pendente
+export const commitKey = async (key: string): Promise<void> => {
+  await SecureStore.setItemAsync(KEY_ITEM, key);
+  await SecureStore.deleteItemAsync(PENDING_KEY_ITEM);
+};
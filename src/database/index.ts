@@ -0,0 +1,16 @@
+import { databaseService } from "./database";
+import { Repository } from "./repository";
+
+export * from "./repository";
+export { MemoryRepository } from "./memoryRepository";
+export { databaseService } from "./database";
+
+let activeRepository: Repository = databaseService;
+
+// Repositório usado por serviços e telas; o SQLite por padrão
+export const getRepository = (): Repository => activeRepository;
+
+// Troca o armazenamento (ex.: MemoryRepository em testes)
+export const setRepository = (repository: Repository): void => {
+  activeRepository = repository;
+};
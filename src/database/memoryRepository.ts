@@ -0,0 +1,1040 @@
+import {
+  User,
+  Project,
+  Report,
+  ReportSubmission,
+  ReportVersion,
+  Notification,
+  SyncQueue,
+  DeadLetterItem,
+  SubmissionConflict,
+  Attachment,
+  ReportDefinition,
+  TrashItem,
+  RetentionLogEntry,
+  SearchResult,
+  ReportFilter,
+  Page,
+  PageRequest,
+  AnswerCondition,
+  AnswerQuery,
+  AnswerAggregate,
+  AnswerValueCount,
+} from "../types";
+import { Repository } from "./repository";
+import { searchTerms, rankDocuments, SearchDocument } from "./search";
+import { DEFAULT_PAGE_SIZE, encodeCursor, decodeCursor, toPage } from "./paging";
+import { legalHoldUntil } from "./retention";
+import { collectAttachmentIds } from "./attachments";
+import { AnswerRow, toAnswerRows, answerColumn, toColumnValue } from "./answers";
+import { createTransactionQueue } from "./transactionQueue";
+
+// Cópia profunda: quem chama nunca altera o estado guardado por referência
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Copia para `target` os campos informados; undefined mantém o valor atual
+const applyChanges = <T>(target: T, changes: Partial<T>, keys: (keyof T)[]) => {
+  keys.forEach((key) => {
+    const value = changes[key];
+    if (value !== undefined) target[key] = clone(value);
+  });
+};
+
+const byNewest = (field: string) => (a: any, b: any) =>
+  a[field] < b[field] ? 1 : a[field] > b[field] ? -1 : 0;
+
+// Ordem das listas paginadas: mais recentes primeiro, com o id desempatando
+const byNewestThenId = (field: string) => (a: any, b: any) =>
+  byNewest(field)(a, b) || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+// Se o item vem depois da posição [data, id] do cursor nessa ordem
+const isAfter = (date: string, id: string, position: any[]) =>
+  date < position[0] || (date === position[0] && id < position[1]);
+
+// Mesmo resultado de answerConditionSql: coluna vazia nunca atende à condição
+const matchesAnswer = (row: AnswerRow, condition: AnswerCondition): boolean => {
+  const { operator, value } = condition;
+
+  if (operator === "in") {
+    const list = Array.isArray(value) ? value : [value];
+    if (list.length === 0) return false;
+    const actual = row[answerColumn(list[0])];
+    return actual !== null && list.map(toColumnValue).includes(actual);
+  }
+  if (Array.isArray(value)) {
+    throw new Error(`Answer operator '${operator}' does not accept a list`);
+  }
+  if (operator === "contains") {
+    // O LIKE do SQLite ignora maiúsculas apenas em ASCII
+    const lower = (text: string) => text.replace(/[A-Z]/g, (char) => char.toLowerCase());
+    return row.valueText !== null && lower(row.valueText).includes(lower(String(value)));
+  }
+
+  const actual = row[answerColumn(value)];
+  const expected = toColumnValue(value);
+  if (actual === null) return false;
+
+  switch (operator) {
+    case "eq":
+      return actual === expected;
+    case "neq":
+      return actual !== expected;
+    case "gt":
+      return actual > expected;
+    case "gte":
+      return actual >= expected;
+    case "lt":
+      return actual < expected;
+    case "lte":
+      return actual <= expected;
+    default:
+      throw new Error(`Unknown answer operator: ${operator}`);
+  }
+};
+
+// Desempate da distribuição na ordem do SQLite, com vazios primeiro
+const compareNullable = (a: string | number | null, b: string | number | null) =>
+  a === b ? 0 : a === null ? -1 : b === null ? 1 : a < b ? -1 : 1;
+
+// Implementação em memória do repositório, sem dependência do expo-sqlite.
+// Reproduz as mesmas regras do DatabaseService (ordenação, versão local,
+// mesclagem da fila) para que serviços possam ser exercitados no Node.
+export class MemoryRepository implements Repository {
+  private users: Map<string, User> = new Map();
+  private projects: Map<string, Project> = new Map();
+  private reports: Map<string, Report> = new Map();
+  // Chave: `${reportId}:${version}`
+  private definitions: Map<string, ReportDefinition> = new Map();
+  private submissions: Map<string, ReportSubmission> = new Map();
+  private versions: Map<string, ReportVersion> = new Map();
+  private notifications: Map<string, Notification> = new Map();
+  private syncQueue: Map<string, SyncQueue> = new Map();
+  private deadLetters: Map<string, DeadLetterItem> = new Map();
+  private conflicts: Map<string, SubmissionConflict> = new Map();
+  private attachments: Map<string, Attachment> = new Map();
+  private syncState: Map<string, string> = new Map();
+  private retentionLog: Map<string, RetentionLogEntry> = new Map();
+  private open: boolean = true;
+  // Visões criadas por withTransaction, que compartilham as tabelas
+  private transactional: boolean = false;
+  private transactionQueue = createTransactionQueue();
+
+  isInitialized(): boolean {
+    return this.open;
+  }
+
+  async init(): Promise<void> {
+    this.open = true;
+  }
+
+  // Guarda uma cópia de todas as tabelas e a restaura se `work` falhar.
+  // Como no SQLite, chamadas feitas pelo `tx` entram na transação aberta e
+  // as de raiz esperam a anterior terminar
+  async withTransaction<T>(work: (tx: Repository) => Promise<T>): Promise<T> {
+    if (this.transactional) {
+      return work(this);
+    }
+
+    return this.transactionQueue(async () => {
+      const tables = this.tables();
+      const snapshot = tables.map((table) => new Map(clone([...table.entries()])));
+      const tx: MemoryRepository = Object.create(this);
+      tx.transactional = true;
+      try {
+        return await work(tx);
+      } catch (error) {
+        tables.forEach((table, index) => {
+          table.clear();
+          snapshot[index].forEach((value, key) => table.set(key, value));
+        });
+        throw error;
+      }
+    });
+  }
+
+  // Métodos para usuários
+  async createUser(user: Omit<User, "id">): Promise<string> {
+    const id = this.generateId();
+    const now = new Date().toISOString();
+    this.users.set(id, clone({ ...user, id, createdAt: now, updatedAt: now }));
+    return id;
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    const user = [...this.users.values()].find((u) => u.email === email);
+    return user ? clone(user) : null;
+  }
+
+  async getUserById(id: string): Promise<User | null> {
+    return this.get(this.users, id);
+  }
+
+  async upsertUser(user: User): Promise<void> {
+    const current = this.users.get(user.id);
+    this.users.set(user.id, clone({ ...user, createdAt: current?.createdAt ?? user.createdAt }));
+  }
+
+  // Métodos para projetos
+  async createProject(project: Omit<Project, "id">): Promise<string> {
+    const id = this.generateId();
+    const now = new Date().toISOString();
+    this.projects.set(
+      id,
+      clone({ ...project, id, description: project.description || "", createdAt: now, updatedAt: now })
+    );
+    return id;
+  }
+
+  async getProjectsByUserId(userId: string): Promise<Project[]> {
+    return this.list(this.projects, (p) => p.ownerId === userId && !p.deletedAt, byNewest("createdAt"));
+  }
+
+  async getProjectById(id: string): Promise<Project | null> {
+    return this.getActive(this.projects, id);
+  }
+
+  async upsertProject(project: Project): Promise<void> {
+    const current = this.projects.get(project.id);
+    this.projects.set(
+      project.id,
+      clone({
+        ...project,
+        description: project.description || "",
+        createdAt: current?.createdAt ?? project.createdAt,
+        deletedAt: current?.deletedAt,
+      })
+    );
+  }
+
+  async deleteProject(id: string): Promise<Attachment[]> {
+    const attachments: Attachment[] = [];
+    for (const report of [...this.reports.values()]) {
+      if (report.projectId === id) {
+        attachments.push(...(await this.deleteReport(report.id)));
+      }
+    }
+    this.projects.delete(id);
+    return attachments;
+  }
+
+  // Métodos para relatórios
+  async createReport(report: Omit<Report, "id">): Promise<string> {
+    const id = this.generateId();
+    const now = new Date().toISOString();
+    this.reports.set(
+      id,
+      clone({ ...report, id, description: report.description || "", formVersion: 1, createdAt: now, updatedAt: now })
+    );
+    this.saveDefinition(id, 1, report.fields, now);
+    return id;
+  }
+
+  async getReportsByProjectId(projectId: string): Promise<Report[]> {
+    return this.list(this.reports, (r) => r.projectId === projectId && !r.deletedAt, byNewest("createdAt"));
+  }
+
+  async getAllReports(): Promise<Report[]> {
+    return this.list(this.reports, (r) => !r.deletedAt, byNewest("createdAt"));
+  }
+
+  async getReportById(id: string): Promise<Report | null> {
+    return this.getActive(this.reports, id);
+  }
+
+  async queryReports(filter: ReportFilter): Promise<Report[]> {
+    const emails = new Set(
+      (filter.assignedTo || []).map((userId) => this.users.get(userId)?.email).filter(Boolean)
+    );
+    const matches = (report: Report) =>
+      !report.deletedAt &&
+      (!filter.status?.length || filter.status.includes(report.status)) &&
+      (!filter.dateRange ||
+        (report.createdAt >= filter.dateRange.start && report.createdAt <= filter.dateRange.end)) &&
+      (!filter.assignedTo?.length ||
+        filter.assignedTo.includes(report.createdBy) ||
+        report.permissions.canFill.some((email) => emails.has(email))) &&
+      (!filter.projectId || report.projectId === filter.projectId) &&
+      (!filter.visibleTo ||
+        report.createdBy === filter.visibleTo ||
+        report.permissions.canFill.includes("*") ||
+        report.permissions.canFill.includes(this.users.get(filter.visibleTo)?.email as string));
+
+    if (filter.searchTerm && searchTerms(filter.searchTerm).length > 0) {
+      // Mesma ordem de relevância da busca
+      const results = await this.search(filter.searchTerm, Number.MAX_SAFE_INTEGER);
+      return results
+        .filter((result) => result.type === "report")
+        .map((result) => this.reports.get(result.id)!)
+        .filter(matches)
+        .map(clone);
+    }
+
+    return this.list(this.reports, matches, byNewest("createdAt"));
+  }
+
+  async queryReportsPage(filter: ReportFilter, page: PageRequest = {}): Promise<Page<Report>> {
+    const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+    const position = decodeCursor(page.cursor);
+    const reports = await this.queryReports(filter);
+
+    if (filter.searchTerm && searchTerms(filter.searchTerm).length > 0) {
+      const offset = position ? Number(position[0]) : 0;
+      const items = reports.slice(offset, offset + limit);
+      return { items, nextCursor: reports.length > offset + limit ? encodeCursor([offset + limit]) : null };
+    }
+
+    const rows = reports
+      .sort(byNewestThenId("createdAt"))
+      .filter((report) => !position || isAfter(report.createdAt, report.id, position));
+    return toPage(rows, limit, (report) => [report.createdAt, report.id]);
+  }
+
+  async updateReport(id: string, report: Partial<Report>): Promise<void> {
+    const current = this.reports.get(id);
+    if (!current) return;
+
+    const now = new Date().toISOString();
+    if (report.fields !== undefined && JSON.stringify(current.fields) !== JSON.stringify(report.fields)) {
+      current.formVersion = (current.formVersion ?? 1) + 1;
+      this.saveDefinition(id, current.formVersion, report.fields, now);
+    }
+
+    applyChanges(current, report, ["title", "description", "fields", "permissions", "status"]);
+    current.updatedAt = now;
+  }
+
+  async deleteReport(id: string): Promise<Attachment[]> {
+    const attachments: Attachment[] = [];
+    for (const submission of [...this.submissions.values()]) {
+      if (submission.reportId === id) {
+        attachments.push(...(await this.deleteSubmission(submission.id)));
+      }
+    }
+    this.definitions.forEach((definition, key) => {
+      if (definition.reportId === id) this.definitions.delete(key);
+    });
+    this.reports.delete(id);
+    return attachments;
+  }
+
+  async upsertReport(report: Report): Promise<void> {
+    const current = this.reports.get(report.id);
+    this.reports.set(
+      report.id,
+      clone({
+        ...report,
+        description: report.description || "",
+        formVersion: report.formVersion ?? 1,
+        createdAt: current?.createdAt ?? report.createdAt,
+        createdBy: current?.createdBy ?? report.createdBy,
+        deletedAt: current?.deletedAt,
+      })
+    );
+    this.saveDefinition(report.id, report.formVersion ?? 1, report.fields, report.updatedAt);
+  }
+
+  async getReportDefinition(reportId: string, version: number): Promise<ReportDefinition | null> {
+    return this.get(this.definitions, `${reportId}:${version}`);
+  }
+
+  async getReportDefinitions(reportId: string): Promise<ReportDefinition[]> {
+    return this.list(this.definitions, (d) => d.reportId === reportId, (a, b) => b.version - a.version);
+  }
+
+  private saveDefinition(reportId: string, version: number, fields: Report["fields"], createdAt: string): void {
+    const key = `${reportId}:${version}`;
+    this.definitions.set(
+      key,
+      clone({ reportId, version, fields, createdAt: this.definitions.get(key)?.createdAt ?? createdAt })
+    );
+  }
+
+  // Métodos para submissões
+  async createSubmission(submission: Omit<ReportSubmission, "id">): Promise<string> {
+    const id = this.generateId();
+    const formVersion = submission.formVersion ?? this.reports.get(submission.reportId)?.formVersion ?? 1;
+    this.submissions.set(id, clone({ ...submission, id, formVersion, lastModified: new Date().toISOString() }));
+    return id;
+  }
+
+  async updateSubmission(id: string, data: Partial<ReportSubmission>): Promise<void> {
+    const current = this.submissions.get(id);
+    if (!current) return;
+
+    if (data.data !== undefined) {
+      current.data = clone(data.data);
+      // Cada alteração nos dados gera uma nova versão local
+      if (data.version === undefined) {
+        current.version += 1;
+      }
+    }
+
+    applyChanges(current, data, ["version", "serverVersion", "formVersion", "status", "submittedAt", "syncStatus"]);
+    current.lastModified = new Date().toISOString();
+  }
+
+  async getSubmissionById(id: string): Promise<ReportSubmission | null> {
+    return this.getActive(this.submissions, id);
+  }
+
+  async getSubmissionsByReportId(reportId: string): Promise<ReportSubmission[]> {
+    return this.list(this.submissions, (s) => s.reportId === reportId && !s.deletedAt, byNewest("lastModified"));
+  }
+
+  async getSubmissionsPage(reportId: string, page: PageRequest = {}): Promise<Page<ReportSubmission>> {
+    const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+    const position = decodeCursor(page.cursor);
+    const rows = (await this.getSubmissionsByReportId(reportId))
+      .sort(byNewestThenId("lastModified"))
+      .filter((submission) => !position || isAfter(submission.lastModified, submission.id, position));
+
+    return toPage(rows, limit, (submission) => [submission.lastModified, submission.id]);
+  }
+
+  async countSubmissionsByReportId(reportId: string): Promise<number> {
+    return (await this.getSubmissionsByReportId(reportId)).length;
+  }
+
+  async getSubmissionsByUserId(userId: string): Promise<ReportSubmission[]> {
+    return this.list(this.submissions, (s) => s.userId === userId && !s.deletedAt, byNewest("lastModified"));
+  }
+
+  async getSubmissionsByReportAndUser(reportId: string, userId: string): Promise<ReportSubmission[]> {
+    return this.list(
+      this.submissions,
+      (s) => s.reportId === reportId && s.userId === userId && !s.deletedAt,
+      byNewest("lastModified")
+    );
+  }
+
+  async deleteSubmission(id: string): Promise<Attachment[]> {
+    const versions = [...this.versions.values()].filter((version) => version.submissionId === id);
+    const submission = this.submissions.get(id);
+    const attachmentIds = collectAttachmentIds([
+      ...(submission ? [submission.data] : []),
+      ...versions.map((version) => version.data),
+    ]);
+
+    const attachments: Attachment[] = [];
+    attachmentIds.forEach((attachmentId) => {
+      const attachment = this.attachments.get(attachmentId);
+      if (attachment) {
+        attachments.push(attachment);
+        this.attachments.delete(attachmentId);
+      }
+    });
+
+    versions.forEach((version) => this.versions.delete(version.id));
+    this.conflicts.delete(id);
+    this.submissions.delete(id);
+    return attachments;
+  }
+
+  async markSubmissionSynced(
+    id: string,
+    serverVersion: number,
+    hasPendingChanges: boolean = false
+  ): Promise<void> {
+    const current = this.submissions.get(id);
+    if (!current) return;
+
+    current.serverVersion = serverVersion;
+    current.version = Math.max(current.version, serverVersion);
+    current.syncStatus = hasPendingChanges ? "pending" : "synced";
+  }
+
+  async setSubmissionSyncStatus(id: string, syncStatus: ReportSubmission["syncStatus"]): Promise<void> {
+    const current = this.submissions.get(id);
+    if (current) {
+      current.syncStatus = syncStatus;
+    }
+  }
+
+  async upsertSubmission(submission: ReportSubmission): Promise<void> {
+    const current = this.submissions.get(submission.id);
+    // Alterações locais ainda não enviadas têm prioridade sobre a cópia do servidor
+    if (current && current.syncStatus !== "synced") return;
+
+    this.submissions.set(
+      submission.id,
+      clone({
+        ...submission,
+        reportId: current?.reportId ?? submission.reportId,
+        userId: current?.userId ?? submission.userId,
+        submittedAt: submission.submittedAt || undefined,
+        serverVersion: submission.version,
+        formVersion: submission.formVersion ?? this.reports.get(submission.reportId)?.formVersion ?? 1,
+        isOffline: false,
+        syncStatus: "synced",
+        deletedAt: current?.deletedAt,
+      })
+    );
+  }
+
+  // Métodos para consultas às respostas normalizadas
+  private queryAnswers(query: AnswerQuery): ReportSubmission[] {
+    return Array.from(this.submissions.values())
+      .filter((submission) => {
+        if (submission.reportId !== query.reportId || submission.deletedAt) return false;
+        if (query.status && query.status.length > 0 && !query.status.includes(submission.status)) return false;
+        if (query.submittedBetween) {
+          const { start, end } = query.submittedBetween;
+          if (!submission.submittedAt || submission.submittedAt < start || submission.submittedAt > end) return false;
+        }
+
+        const rows = toAnswerRows(submission.data);
+        return (query.conditions || []).every((condition) =>
+          rows.some((row) => row.fieldId === condition.fieldId && matchesAnswer(row, condition))
+        );
+      })
+      .sort(byNewestThenId("lastModified"));
+  }
+
+  // Respostas do campo nas submissões que atendem à consulta
+  private answerRows(query: AnswerQuery, fieldId: string): AnswerRow[] {
+    return this.queryAnswers(query).flatMap((submission) =>
+      toAnswerRows(submission.data).filter((row) => row.fieldId === fieldId)
+    );
+  }
+
+  async querySubmissionsByAnswers(query: AnswerQuery): Promise<ReportSubmission[]> {
+    return clone(this.queryAnswers(query));
+  }
+
+  async countSubmissionsByAnswers(query: AnswerQuery): Promise<number> {
+    return this.queryAnswers(query).length;
+  }
+
+  async aggregateAnswers(query: AnswerQuery, fieldId: string, aggregate: AnswerAggregate): Promise<number | null> {
+    const rows = this.answerRows(query, fieldId);
+    if (aggregate === "count") return rows.length;
+
+    const numbers = rows.map((row) => row.valueNumber).filter((value): value is number => value !== null);
+    if (numbers.length === 0) return null;
+
+    switch (aggregate) {
+      case "sum":
+        return numbers.reduce((total, value) => total + value, 0);
+      case "avg":
+        return numbers.reduce((total, value) => total + value, 0) / numbers.length;
+      case "min":
+        return Math.min(...numbers);
+      case "max":
+        return Math.max(...numbers);
+    }
+  }
+
+  async getAnswerDistribution(query: AnswerQuery, fieldId: string): Promise<AnswerValueCount[]> {
+    const groups = new Map<string, { row: AnswerRow; count: number }>();
+    this.answerRows(query, fieldId).forEach((row) => {
+      const key = JSON.stringify([row.valueType, row.valueText, row.valueNumber, row.valueBoolean]);
+      const group = groups.get(key);
+      if (group) {
+        group.count++;
+      } else {
+        groups.set(key, { row, count: 1 });
+      }
+    });
+
+    return Array.from(groups.values())
+      .sort(
+        (a, b) =>
+          b.count - a.count ||
+          compareNullable(a.row.valueType, b.row.valueType) ||
+          compareNullable(a.row.valueText, b.row.valueText) ||
+          compareNullable(a.row.valueNumber, b.row.valueNumber) ||
+          compareNullable(a.row.valueBoolean, b.row.valueBoolean)
+      )
+      .map(({ row, count }) => ({
+        value:
+          row.valueType === "number"
+            ? (row.valueNumber as number)
+            : row.valueType === "boolean"
+              ? row.valueBoolean === 1
+              : (row.valueText as string),
+        count,
+      }));
+  }
+
+  async saveSubmissionConflict(
+    submissionId: string,
+    localData: Record<string, any>,
+    serverSubmission: ReportSubmission
+  ): Promise<void> {
+    this.conflicts.set(
+      submissionId,
+      clone({ submissionId, localData, serverSubmission, detectedAt: new Date().toISOString() })
+    );
+  }
+
+  async getSubmissionConflict(submissionId: string): Promise<SubmissionConflict | null> {
+    return this.get(this.conflicts, submissionId);
+  }
+
+  async removeSubmissionConflict(submissionId: string): Promise<void> {
+    this.conflicts.delete(submissionId);
+  }
+
+  // Métodos para o histórico de versões
+  async createReportVersion(version: Omit<ReportVersion, "id">): Promise<string> {
+    const id = this.generateId();
+    this.versions.set(id, clone({ ...version, id }));
+    return id;
+  }
+
+  async getReportVersions(submissionId: string): Promise<ReportVersion[]> {
+    return this.list(this.versions, (v) => v.submissionId === submissionId, (a, b) => b.version - a.version);
+  }
+
+  // Métodos para notificações
+  async createNotification(notification: Omit<Notification, "id" | "createdAt">): Promise<string> {
+    const id = this.generateId();
+    this.notifications.set(id, clone({ ...notification, id, createdAt: new Date().toISOString() }));
+    return id;
+  }
+
+  async getNotificationsByUserId(userId: string): Promise<Notification[]> {
+    return this.list(this.notifications, (n) => n.userId === userId, byNewest("createdAt"));
+  }
+
+  async markNotificationRead(id: string): Promise<void> {
+    const current = this.notifications.get(id);
+    if (current) {
+      current.read = true;
+    }
+  }
+
+  // Métodos para o estado da sincronização
+  async getSyncState(key: string): Promise<string | null> {
+    return this.syncState.get(key) ?? null;
+  }
+
+  async setSyncState(key: string, value: string): Promise<void> {
+    this.syncState.set(key, value);
+  }
+
+  async getPendingSyncItems(userId: string, now?: string): Promise<SyncQueue[]> {
+    const cutoff = now || new Date().toISOString();
+    return this.list(
+      this.syncQueue,
+      (item) => item.userId === userId && (!item.nextAttemptAt || item.nextAttemptAt <= cutoff),
+      (a, b) => (a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0)
+    );
+  }
+
+  async getSyncQueueCount(userId: string): Promise<number> {
+    return [...this.syncQueue.values()].filter((item) => item.userId === userId).length;
+  }
+
+  async addToSyncQueue(item: Omit<SyncQueue, "id">): Promise<string> {
+    const id = this.generateId();
+    this.syncQueue.set(id, clone({ ...item, id, revision: 0, createdAt: new Date().toISOString() }));
+    return id;
+  }
+
+  async updateSyncQueueItem(
+    id: string,
+    attempts: number,
+    error?: string,
+    nextAttemptAt?: string
+  ): Promise<void> {
+    const current = this.syncQueue.get(id);
+    if (!current) return;
+
+    current.attempts = attempts;
+    current.lastAttempt = new Date().toISOString();
+    current.nextAttemptAt = nextAttemptAt || undefined;
+    current.error = error || undefined;
+  }
+
+  async removeSyncQueueItem(id: string): Promise<void> {
+    this.syncQueue.delete(id);
+  }
+
+  async getSyncItemForEntity(
+    type: SyncQueue["type"],
+    entityId: string,
+    userId: string
+  ): Promise<SyncQueue | null> {
+    const item = [...this.syncQueue.values()].find(
+      (i) => i.type === type && i.entityId === entityId && i.userId === userId
+    );
+    return item ? clone(item) : null;
+  }
+
+  async coalesceSyncQueueItem(
+    id: string,
+    action: SyncQueue["action"],
+    data: Record<string, any>
+  ): Promise<void> {
+    const current = this.syncQueue.get(id);
+    if (!current) return;
+
+    current.action = action;
+    current.data = clone(data);
+    current.revision = (current.revision ?? 0) + 1;
+  }
+
+  async completeSyncQueueItem(item: SyncQueue): Promise<boolean> {
+    const current = this.syncQueue.get(item.id);
+    if (!current) return false;
+
+    if ((current.revision ?? 0) === (item.revision ?? 0)) {
+      this.syncQueue.delete(item.id);
+      return true;
+    }
+
+    // A entidade já existe no servidor: o que restou passa a ser atualização
+    if (item.action === "create" && current.action === "create") {
+      current.action = "update";
+    }
+    return false;
+  }
+
+  async assignUnownedSyncItems(): Promise<void> {
+    const ownerOf = (item: { type: SyncQueue["type"]; entityId: string }) => {
+      switch (item.type) {
+        case "submission":
+          return this.submissions.get(item.entityId)?.userId;
+        case "report":
+          return this.reports.get(item.entityId)?.createdBy;
+        case "project":
+          return this.projects.get(item.entityId)?.ownerId;
+        case "user":
+          return this.users.get(item.entityId)?.id;
+      }
+    };
+
+    [...this.syncQueue.values(), ...this.deadLetters.values()].forEach((item) => {
+      if (!item.userId) item.userId = ownerOf(item);
+    });
+  }
+
+  // Métodos para a fila de itens com falha definitiva (dead letter)
+  async moveSyncItemToDeadLetter(item: SyncQueue, error: string): Promise<void> {
+    this.deadLetters.set(
+      item.id,
+      clone({
+        id: item.id,
+        type: item.type,
+        action: item.action,
+        entityId: item.entityId,
+        data: item.data,
+        attempts: item.attempts,
+        error,
+        userId: item.userId,
+        failedAt: new Date().toISOString(),
+        createdAt: item.createdAt,
+      })
+    );
+    this.syncQueue.delete(item.id);
+  }
+
+  async getDeadLetterItems(userId: string): Promise<DeadLetterItem[]> {
+    return this.list(this.deadLetters, (item) => item.userId === userId, byNewest("failedAt"));
+  }
+
+  async getDeadLetterCount(userId: string): Promise<number> {
+    return [...this.deadLetters.values()].filter((item) => item.userId === userId).length;
+  }
+
+  async getDeadLetterItem(id: string): Promise<DeadLetterItem | null> {
+    return this.get(this.deadLetters, id);
+  }
+
+  async removeDeadLetterItem(id: string): Promise<void> {
+    this.deadLetters.delete(id);
+  }
+
+  async clearDeadLetterItems(userId: string): Promise<void> {
+    this.deadLetters.forEach((item, id) => {
+      if (item.userId === userId) this.deadLetters.delete(id);
+    });
+  }
+
+  // Métodos para anexos
+  async createAttachment(attachment: Omit<Attachment, "id" | "createdAt" | "updatedAt">): Promise<string> {
+    const id = this.generateId();
+    const now = new Date().toISOString();
+    this.attachments.set(id, clone({ ...attachment, id, createdAt: now, updatedAt: now }));
+    return id;
+  }
+
+  async getAttachmentById(id: string): Promise<Attachment | null> {
+    return this.get(this.attachments, id);
+  }
+
+  async updateAttachmentUpload(
+    id: string,
+    data: Partial<Pick<Attachment, "uploadState" | "uploadId" | "uploadedBytes" | "remoteId" | "error">>
+  ): Promise<void> {
+    const current = this.attachments.get(id);
+    if (!current) return;
+
+    applyChanges(current, data, ["uploadState", "uploadId", "uploadedBytes", "remoteId", "error"]);
+    current.updatedAt = new Date().toISOString();
+  }
+
+  async deleteAttachment(id: string): Promise<void> {
+    this.attachments.delete(id);
+  }
+
+  // Métodos para a lixeira
+  async moveToTrash(type: TrashItem["type"], id: string): Promise<void> {
+    // Dependentes recebem a mesma data, o que permite restaurá-los juntos
+    const now = new Date().toISOString();
+    const trash = (item?: { deletedAt?: string }) => {
+      if (item && !item.deletedAt) item.deletedAt = now;
+    };
+
+    if (type === "project") {
+      trash(this.projects.get(id));
+      this.reports.forEach((report) => {
+        if (report.projectId === id) trash(report);
+      });
+      this.submissions.forEach((submission) => {
+        const report = this.reports.get(submission.reportId);
+        if (report?.projectId === id && report.deletedAt === now) trash(submission);
+      });
+    } else if (type === "report") {
+      trash(this.reports.get(id));
+      this.submissions.forEach((submission) => {
+        if (submission.reportId === id) trash(submission);
+      });
+    } else {
+      trash(this.submissions.get(id));
+    }
+  }
+
+  async restoreFromTrash(type: TrashItem["type"], id: string): Promise<void> {
+    if (type === "project") {
+      const project = this.projects.get(id);
+      if (!project?.deletedAt) return;
+
+      const deletedAt = project.deletedAt;
+      this.reports.forEach((report) => {
+        if (report.projectId !== id || report.deletedAt !== deletedAt) return;
+        this.submissions.forEach((submission) => {
+          if (submission.reportId === report.id && submission.deletedAt === deletedAt) {
+            delete submission.deletedAt;
+          }
+        });
+        delete report.deletedAt;
+      });
+      delete project.deletedAt;
+    } else if (type === "report") {
+      const report = this.reports.get(id);
+      if (!report?.deletedAt) return;
+      if (this.projects.get(report.projectId)?.deletedAt) {
+        throw new Error(`Report ${id} belongs to a project in the trash`);
+      }
+
+      this.submissions.forEach((submission) => {
+        if (submission.reportId === id && submission.deletedAt === report.deletedAt) {
+          delete submission.deletedAt;
+        }
+      });
+      delete report.deletedAt;
+    } else {
+      const submission = this.submissions.get(id);
+      if (!submission?.deletedAt) return;
+      if (this.reports.get(submission.reportId)?.deletedAt) {
+        throw new Error(`Submission ${id} belongs to a report in the trash`);
+      }
+
+      delete submission.deletedAt;
+    }
+  }
+
+  async getTrashItems(userId: string): Promise<TrashItem[]> {
+    // Filhos excluídos na mesma data que o pai aparecem apenas por meio dele
+    const items: TrashItem[] = [];
+
+    this.projects.forEach((project) => {
+      if (project.ownerId === userId && project.deletedAt) {
+        items.push({ type: "project", id: project.id, title: project.name, deletedAt: project.deletedAt });
+      }
+    });
+    this.reports.forEach((report) => {
+      const project = this.projects.get(report.projectId);
+      if (report.createdBy === userId && report.deletedAt && project?.deletedAt !== report.deletedAt) {
+        items.push({
+          type: "report",
+          id: report.id,
+          title: report.title,
+          parentTitle: project?.name,
+          deletedAt: report.deletedAt,
+        });
+      }
+    });
+    this.submissions.forEach((submission) => {
+      const report = this.reports.get(submission.reportId);
+      if (submission.userId === userId && submission.deletedAt && report?.deletedAt !== submission.deletedAt) {
+        items.push({
+          type: "submission",
+          id: submission.id,
+          title: report?.title ?? submission.id,
+          deletedAt: submission.deletedAt,
+        });
+      }
+    });
+
+    return items.sort(byNewest("deletedAt"));
+  }
+
+  // Métodos para a retenção de dados
+  async getProjectsWithRetention(): Promise<Project[]> {
+    return this.list(this.projects, (p) => !p.deletedAt && !!p.settings.retention, byNewest("createdAt"));
+  }
+
+  async getInactiveReports(projectId: string, createdBy: string, before: string): Promise<Report[]> {
+    const hasRecentSubmission = (reportId: string) =>
+      [...this.submissions.values()].some(
+        (s) => s.reportId === reportId && !s.deletedAt && s.lastModified >= before
+      );
+
+    return this.list(
+      this.reports,
+      (r) =>
+        r.projectId === projectId &&
+        r.createdBy === createdBy &&
+        r.status === "active" &&
+        !r.deletedAt &&
+        r.updatedAt < before &&
+        !hasRecentSubmission(r.id),
+      (a, b) => a.updatedAt.localeCompare(b.updatedAt)
+    );
+  }
+
+  async getAbandonedDrafts(projectId: string, userId: string, before: string): Promise<ReportSubmission[]> {
+    return this.list(
+      this.submissions,
+      (s) => {
+        const report = this.reports.get(s.reportId);
+        return (
+          report?.projectId === projectId &&
+          !report.deletedAt &&
+          s.userId === userId &&
+          s.status === "draft" &&
+          !s.deletedAt &&
+          s.lastModified < before
+        );
+      },
+      (a, b) => a.lastModified.localeCompare(b.lastModified)
+    );
+  }
+
+  async getLegalHoldUntil(type: TrashItem["type"], id: string): Promise<string | null> {
+    const inScope = (submission: ReportSubmission) => {
+      if (type === "submission") return submission.id === id;
+      if (type === "report") return submission.reportId === id;
+      return this.reports.get(submission.reportId)?.projectId === id;
+    };
+
+    const submittedAt = [...this.submissions.values()]
+      .filter((s) => s.status !== "draft" && inScope(s))
+      .map((s) => s.submittedAt ?? s.lastModified)
+      .sort()
+      .pop();
+    if (!submittedAt) return null;
+
+    const submission = [...this.submissions.values()].find(inScope)!;
+    const project = this.projects.get(this.reports.get(submission.reportId)?.projectId ?? "");
+    return project ? legalHoldUntil(submittedAt, project.settings) : null;
+  }
+
+  async addRetentionLogEntry(entry: Omit<RetentionLogEntry, "id">): Promise<string> {
+    const id = this.generateId();
+    this.retentionLog.set(id, clone({ ...entry, id }));
+    return id;
+  }
+
+  async getRetentionLog(userId: string, projectId: string, limit: number = 100): Promise<RetentionLogEntry[]> {
+    return this.list(
+      this.retentionLog,
+      (entry) => entry.userId === userId && entry.projectId === projectId,
+      byNewest("appliedAt")
+    ).slice(0, limit);
+  }
+
+  // Métodos para a busca textual
+  async search(query: string, limit: number = 50): Promise<SearchResult[]> {
+    const activeReport = (reportId: string) => {
+      const report = this.reports.get(reportId);
+      return report && !report.deletedAt ? report : null;
+    };
+    const documents: SearchDocument[] = [
+      ...[...this.reports.values()]
+        .filter((report) => !report.deletedAt)
+        .map((report) => ({
+          type: "report" as const,
+          id: report.id,
+          reportId: report.id,
+          reportTitle: report.title,
+          title: report.title,
+          body: [report.description || "", ...report.fields.map((field) => field.label)].join(" "),
+        })),
+      ...[...this.submissions.values()]
+        .filter((submission) => !submission.deletedAt && activeReport(submission.reportId))
+        .map((submission) => ({
+          type: "submission" as const,
+          id: submission.id,
+          reportId: submission.reportId,
+          reportTitle: activeReport(submission.reportId)!.title,
+          title: "",
+          body: Object.values(submission.data).filter((value) => typeof value === "string").join(" "),
+        })),
+    ];
+
+    return rankDocuments(documents, query, limit);
+  }
+
+  async clearAllData(): Promise<void> {
+    this.tables().forEach((table) => table.clear());
+  }
+
+  private tables(): Map<string, any>[] {
+    return [
+      this.users,
+      this.projects,
+      this.reports,
+      this.definitions,
+      this.submissions,
+      this.versions,
+      this.notifications,
+      this.syncQueue,
+      this.deadLetters,
+      this.conflicts,
+      this.attachments,
+      this.syncState,
+      this.retentionLog,
+    ];
+  }
+
+  async close(): Promise<void> {
+    this.open = false;
+  }
+
+  private get<T>(table: Map<string, T>, id: string): T | null {
+    const value = table.get(id);
+    return value ? clone(value) : null;
+  }
+
+  // Como get, mas ignora itens na lixeira
+  private getActive<T extends { deletedAt?: string }>(table: Map<string, T>, id: string): T | null {
+    const value = table.get(id);
+    return value && !value.deletedAt ? clone(value) : null;
+  }
+
+  private list<T>(
+    table: Map<string, T>,
+    predicate: (value: T) => boolean,
+    compare: (a: T, b: T) => number
+  ): T[] {
+    return [...table.values()].filter(predicate).sort(compare).map(clone);
+  }
+
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+}
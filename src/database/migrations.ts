@@ -0,0 +1,392 @@
+import * as SQLite from "expo-sqlite";
+import { ensureSearchIndex } from "./search";
+import { ANSWERS_TABLE, ANSWERS_INDEXES, rebuildAnswers } from "./answers";
+
+// Migrações do esquema, aplicadas em ordem conforme o PRAGMA user_version.
+// Uma migração publicada nunca deve ser alterada: mudanças novas entram
+// como uma nova versão no fim da lista.
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+const INITIAL_TABLES = [
+  // Tabela de usuários
+  `CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT UNIQUE NOT NULL,
+    name TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('admin', 'user')),
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+
+  // Tabela de projetos
+  `CREATE TABLE IF NOT EXISTS projects (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    owner_id TEXT NOT NULL,
+    settings TEXT NOT NULL, -- JSON string
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (owner_id) REFERENCES users (id)
+  )`,
+
+  // Tabela de relatórios
+  `CREATE TABLE IF NOT EXISTS reports (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT,
+    fields TEXT NOT NULL, -- JSON string
+    permissions TEXT NOT NULL, -- JSON string
+    status TEXT NOT NULL CHECK (status IN ('draft', 'active', 'archived')),
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    FOREIGN KEY (project_id) REFERENCES projects (id),
+    FOREIGN KEY (created_by) REFERENCES users (id)
+  )`,
+
+  // Tabela de submissões de relatórios
+  `CREATE TABLE IF NOT EXISTS report_submissions (
+    id TEXT PRIMARY KEY,
+    report_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    data TEXT NOT NULL, -- JSON string
+    status TEXT NOT NULL CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+    submitted_at TEXT,
+    last_modified TEXT NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    is_offline INTEGER NOT NULL DEFAULT 0,
+    sync_status TEXT NOT NULL DEFAULT 'synced' CHECK (sync_status IN ('synced', 'pending', 'error')),
+    FOREIGN KEY (report_id) REFERENCES reports (id),
+    FOREIGN KEY (user_id) REFERENCES users (id)
+  )`,
+
+  // Tabela de versões de relatórios
+  `CREATE TABLE IF NOT EXISTS report_versions (
+    id TEXT PRIMARY KEY,
+    submission_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    data TEXT NOT NULL, -- JSON string
+    changed_by TEXT NOT NULL,
+    changed_at TEXT NOT NULL,
+    changes TEXT NOT NULL,
+    FOREIGN KEY (submission_id) REFERENCES report_submissions (id),
+    FOREIGN KEY (changed_by) REFERENCES users (id)
+  )`,
+
+  // Tabela de notificações
+  `CREATE TABLE IF NOT EXISTS notifications (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('report_available', 'deadline_approaching', 'new_result', 'report_approved', 'report_rejected')),
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    data TEXT, -- JSON string
+    read INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (user_id) REFERENCES users (id)
+  )`,
+
+  // Tabela de fila de sincronização
+  `CREATE TABLE IF NOT EXISTS sync_queue (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL CHECK (type IN ('submission', 'report', 'user', 'project')),
+    action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+    entity_id TEXT NOT NULL,
+    data TEXT NOT NULL, -- JSON string
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_attempt TEXT,
+    next_attempt_at TEXT,
+    error TEXT,
+    revision INTEGER NOT NULL DEFAULT 0,
+    user_id TEXT, -- Usuário da sessão que gerou a alteração
+    created_at TEXT NOT NULL
+  )`,
+
+  // Itens que esgotaram as tentativas de sincronização
+  `CREATE TABLE IF NOT EXISTS sync_dead_letters (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    action TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    data TEXT NOT NULL, -- JSON string
+    attempts INTEGER NOT NULL,
+    error TEXT,
+    user_id TEXT,
+    failed_at TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  )`,
+
+  // Cópia do servidor para submissões rejeitadas por versão desatualizada
+  `CREATE TABLE IF NOT EXISTS submission_conflicts (
+    submission_id TEXT PRIMARY KEY,
+    local_data TEXT NOT NULL, -- JSON string
+    server_submission TEXT NOT NULL, -- JSON string
+    detected_at TEXT NOT NULL,
+    FOREIGN KEY (submission_id) REFERENCES report_submissions (id)
+  )`,
+
+  // Arquivos anexados às respostas, guardados no sandbox do app
+  `CREATE TABLE IF NOT EXISTS attachments (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    field_id TEXT,
+    local_uri TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    mime_type TEXT,
+    size INTEGER NOT NULL,
+    checksum TEXT NOT NULL, -- MD5 do conteúdo
+    upload_state TEXT NOT NULL DEFAULT 'pending' CHECK (upload_state IN ('pending', 'uploading', 'uploaded')),
+    upload_id TEXT, -- Sessão de upload no servidor
+    uploaded_bytes INTEGER NOT NULL DEFAULT 0,
+    remote_id TEXT, -- Id do anexo no servidor
+    error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (user_id) REFERENCES users (id)
+  )`,
+
+  // Estado da sincronização (cursores, marcadores de tempo)
+  `CREATE TABLE IF NOT EXISTS sync_state (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+];
+
+const INITIAL_INDEXES = [
+  "CREATE INDEX IF NOT EXISTS idx_users_email ON users (email)",
+  "CREATE INDEX IF NOT EXISTS idx_reports_project_id ON reports (project_id)",
+  "CREATE INDEX IF NOT EXISTS idx_submissions_report_id ON report_submissions (report_id)",
+  "CREATE INDEX IF NOT EXISTS idx_submissions_user_id ON report_submissions (user_id)",
+  "CREATE INDEX IF NOT EXISTS idx_submissions_sync_status ON report_submissions (sync_status)",
+  "CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications (user_id)",
+  "CREATE INDEX IF NOT EXISTS idx_notifications_read ON notifications (read)",
+  "CREATE INDEX IF NOT EXISTS idx_sync_queue_type ON sync_queue (type)",
+  "CREATE INDEX IF NOT EXISTS idx_sync_queue_entity ON sync_queue (type, entity_id)",
+  "CREATE INDEX IF NOT EXISTS idx_sync_queue_attempts ON sync_queue (attempts)",
+  "CREATE INDEX IF NOT EXISTS idx_sync_queue_next_attempt ON sync_queue (next_attempt_at)",
+  "CREATE INDEX IF NOT EXISTS idx_sync_queue_user_id ON sync_queue (user_id)",
+  "CREATE INDEX IF NOT EXISTS idx_attachments_upload_state ON attachments (upload_state)",
+];
+
+export const addColumnIfMissing = async (
+  db: SQLite.SQLiteDatabase,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> => {
+  const columns = await db.getAllAsync<any>(`PRAGMA table_info(${table})`);
+  if (!columns.some((c) => c.name === column)) {
+    await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
+// Recria uma tabela com nova definição (ex.: para alterar um CHECK), copiando
+// as colunas em comum e restaurando os índices. Deve rodar dentro da migração.
+export const rebuildTable = async (
+  db: SQLite.SQLiteDatabase,
+  table: string,
+  definition: string
+): Promise<void> => {
+  const tempTable = `${table}_rebuild`;
+
+  const indexes = await db.getAllAsync<{ sql: string }>(
+    "SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL",
+    [table]
+  );
+
+  await db.execAsync(`CREATE TABLE ${tempTable} (${definition})`);
+
+  const oldColumns = await db.getAllAsync<any>(`PRAGMA table_info(${table})`);
+  const newColumns = await db.getAllAsync<any>(`PRAGMA table_info(${tempTable})`);
+  const shared = newColumns
+    .map((c) => c.name)
+    .filter((name) => oldColumns.some((c) => c.name === name))
+    .join(", ");
+
+  await db.execAsync(
+    `INSERT INTO ${tempTable} (${shared}) SELECT ${shared} FROM ${table}`
+  );
+  await db.execAsync(`DROP TABLE ${table}`);
+  await db.execAsync(`ALTER TABLE ${tempTable} RENAME TO ${table}`);
+
+  for (const index of indexes) {
+    await db.execAsync(index.sql);
+  }
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    // Esquema criado antes das migrações; idempotente para instalações existentes
+    description: "Initial schema",
+    up: async (db) => {
+      for (const table of INITIAL_TABLES) {
+        await db.execAsync(table);
+      }
+
+      // Colunas adicionadas depois da primeira versão do esquema
+      await addColumnIfMissing(db, "sync_queue", "next_attempt_at", "TEXT");
+      await addColumnIfMissing(db, "sync_queue", "revision", "INTEGER NOT NULL DEFAULT 0");
+      await addColumnIfMissing(db, "report_submissions", "server_version", "INTEGER");
+      await addColumnIfMissing(db, "sync_queue", "user_id", "TEXT");
+      await addColumnIfMissing(db, "sync_dead_letters", "user_id", "TEXT");
+
+      for (const index of INITIAL_INDEXES) {
+        await db.execAsync(index);
+      }
+    },
+  },
+  {
+    version: 2,
+    // Conflitos de versão passam a ter um sync_status próprio
+    description: "Allow 'conflict' sync status on submissions",
+    up: async (db) => {
+      await rebuildTable(
+        db,
+        "report_submissions",
+        `id TEXT PRIMARY KEY,
+        report_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        data TEXT NOT NULL, -- JSON string
+        status TEXT NOT NULL CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+        submitted_at TEXT,
+        last_modified TEXT NOT NULL,
+        version INTEGER NOT NULL DEFAULT 1,
+        server_version INTEGER,
+        is_offline INTEGER NOT NULL DEFAULT 0,
+        sync_status TEXT NOT NULL DEFAULT 'synced' CHECK (sync_status IN ('synced', 'pending', 'error', 'conflict')),
+        FOREIGN KEY (report_id) REFERENCES reports (id),
+        FOREIGN KEY (user_id) REFERENCES users (id)`
+      );
+      await db.runAsync(
+        "UPDATE report_submissions SET sync_status = 'conflict' WHERE id IN (SELECT submission_id FROM submission_conflicts)"
+      );
+    },
+  },
+  {
+    version: 3,
+    // Cada alteração nos campos de um relatório gera uma nova definição;
+    // as respostas guardam a versão do formulário em que foram preenchidas
+    description: "Versioned report definitions",
+    up: async (db) => {
+      await db.execAsync(`CREATE TABLE IF NOT EXISTS report_definitions (
+        report_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        fields TEXT NOT NULL, -- JSON string
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (report_id, version),
+        FOREIGN KEY (report_id) REFERENCES reports (id)
+      )`);
+      await addColumnIfMissing(db, "reports", "form_version", "INTEGER NOT NULL DEFAULT 1");
+      await addColumnIfMissing(db, "report_submissions", "form_version", "INTEGER NOT NULL DEFAULT 1");
+
+      // Os campos atuais passam a ser a versão 1 de cada relatório
+      await db.runAsync(
+        `INSERT OR IGNORE INTO report_definitions (report_id, version, fields, created_at)
+         SELECT id, form_version, fields, updated_at FROM reports`
+      );
+    },
+  },
+  {
+    version: 4,
+    // Exclusões passam pela lixeira antes de serem definitivas
+    description: "Soft delete for projects, reports and submissions",
+    up: async (db) => {
+      await addColumnIfMissing(db, "projects", "deleted_at", "TEXT");
+      await addColumnIfMissing(db, "reports", "deleted_at", "TEXT");
+      await addColumnIfMissing(db, "report_submissions", "deleted_at", "TEXT");
+
+      await db.execAsync("CREATE INDEX IF NOT EXISTS idx_projects_deleted_at ON projects (deleted_at)");
+      await db.execAsync("CREATE INDEX IF NOT EXISTS idx_reports_deleted_at ON reports (deleted_at)");
+      await db.execAsync("CREATE INDEX IF NOT EXISTS idx_submissions_deleted_at ON report_submissions (deleted_at)");
+
+      // Versões de respostas já excluídas ficaram sem dono
+      await db.runAsync(
+        "DELETE FROM report_versions WHERE submission_id NOT IN (SELECT id FROM report_submissions)"
+      );
+    },
+  },
+  {
+    version: 5,
+    // Sem FTS5 (build web) o índice não é criado e a busca usa LIKE
+    description: "Full-text search index",
+    up: async (db) => {
+      await ensureSearchIndex(db);
+    },
+  },
+  {
+    version: 6,
+    // Índices na ordem das listas paginadas
+    description: "Indexes for paged report and submission lists",
+    up: async (db) => {
+      await db.execAsync("CREATE INDEX IF NOT EXISTS idx_reports_created_at ON reports (created_at, id)");
+      await db.execAsync(
+        "CREATE INDEX IF NOT EXISTS idx_submissions_report_modified ON report_submissions (report_id, last_modified, id)"
+      );
+    },
+  },
+  {
+    version: 7,
+    // Registro do que a rotina de retenção dos projetos arquivou ou removeu
+    description: "Retention log",
+    up: async (db) => {
+      await db.execAsync(`CREATE TABLE IF NOT EXISTS retention_log (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        project_id TEXT NOT NULL,
+        rule TEXT NOT NULL CHECK (rule IN ('archive_report', 'delete_draft')),
+        entity_type TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        details TEXT,
+        applied_at TEXT NOT NULL
+      )`);
+      await db.execAsync(
+        "CREATE INDEX IF NOT EXISTS idx_retention_log_project ON retention_log (user_id, project_id, applied_at)"
+      );
+    },
+  },
+  {
+    version: 8,
+    description: "Normalized submission answers",
+    up: async (db) => {
+      await db.execAsync(ANSWERS_TABLE);
+      for (const index of ANSWERS_INDEXES) {
+        await db.execAsync(index);
+      }
+      await rebuildAnswers(db);
+    },
+  },
+];
+
+// Aplica as migrações pendentes em uma única transação: se qualquer passo
+// falhar, o banco volta ao estado anterior e o erro é propagado
+export const runMigrations = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const result = await db.getFirstAsync<{ user_version: number }>("PRAGMA user_version");
+  const currentVersion = result?.user_version ?? 0;
+
+  const pending = [...MIGRATIONS]
+    .filter((migration) => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  if (pending.length === 0) {
+    return;
+  }
+
+  await db.withTransactionAsync(async () => {
+    for (const migration of pending) {
+      console.log(`Applying migration ${migration.version}: ${migration.description}`);
+      await migration.up(db);
+      await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+    }
+  });
+
+  console.log(`Database migrated from version ${currentVersion} to ${pending[pending.length - 1].version}`);
+};
@@ -0,0 +1,38 @@
+import { Page } from "../types";
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+// O cursor é opaco para quem chama: guarda a posição do último item entregue
+// (ex.: data e id, na ordem da lista)
+export const encodeCursor = (position: (string | number)[]): string => JSON.stringify(position);
+
+export const decodeCursor = (cursor?: string | null): any[] | null => {
+  if (!cursor) return null;
+
+  let position: any = null;
+  try {
+    position = JSON.parse(cursor);
+  } catch (error) {
+    position = null;
+  }
+  if (!Array.isArray(position)) {
+    throw new Error(`Invalid page cursor: ${cursor}`);
+  }
+
+  return position;
+};
+
+// As consultas buscam um item a mais que o limite: a sobra indica que
+// existe uma próxima página
+export const toPage = <T>(
+  rows: T[],
+  limit: number,
+  position: (last: T) => (string | number)[]
+): Page<T> => {
+  const items = rows.slice(0, limit);
+
+  return {
+    items,
+    nextCursor: rows.length > limit ? encodeCursor(position(items[items.length - 1])) : null,
+  };
+};
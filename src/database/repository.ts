@@ -0,0 +1,207 @@
+import {
+  User,
+  Project,
+  Report,
+  ReportSubmission,
+  ReportVersion,
+  Notification,
+  SyncQueue,
+  DeadLetterItem,
+  SubmissionConflict,
+  Attachment,
+  ReportDefinition,
+  TrashItem,
+  RetentionLogEntry,
+  SearchResult,
+  ReportFilter,
+  Page,
+  PageRequest,
+  AnswerQuery,
+  AnswerAggregate,
+  AnswerValueCount,
+} from "../types";
+
+// Contrato de armazenamento usado por serviços e telas. A implementação
+// padrão é o DatabaseService (SQLite); a MemoryRepository serve para testes
+// e para rodar a lógica fora do app.
+//
+// Consultas por id ou listas ignoram itens na lixeira; os métodos delete*
+// excluem definitivamente. Os upsert* não alteram o estado da lixeira.
+
+export interface UserRepository {
+  createUser(user: Omit<User, "id">): Promise<string>;
+  getUserByEmail(email: string): Promise<User | null>;
+  getUserById(id: string): Promise<User | null>;
+  upsertUser(user: User): Promise<void>;
+}
+
+export interface ProjectRepository {
+  createProject(project: Omit<Project, "id">): Promise<string>;
+  getProjectsByUserId(userId: string): Promise<Project[]>;
+  getProjectById(id: string): Promise<Project | null>;
+  upsertProject(project: Project): Promise<void>;
+  // Remove também os relatórios do projeto e suas submissões. Exclusões
+  // definitivas devolvem os anexos removidos, cujos arquivos devem ser
+  // apagados depois do commit
+  deleteProject(id: string): Promise<Attachment[]>;
+}
+
+export interface ReportRepository {
+  createReport(report: Omit<Report, "id">): Promise<string>;
+  getReportsByProjectId(projectId: string): Promise<Report[]>;
+  getAllReports(): Promise<Report[]>;
+  getReportById(id: string): Promise<Report | null>;
+  // Critérios combinados com E; em status e assignedTo (quem criou ou pode
+  // preencher) basta um dos valores. Com searchTerm, ordena por relevância
+  queryReports(filter: ReportFilter): Promise<Report[]>;
+  // Mesmos critérios, uma página por vez: sem searchTerm, dos mais recentes
+  // para os mais antigos; com ele, por relevância
+  queryReportsPage(filter: ReportFilter, page?: PageRequest): Promise<Page<Report>>;
+  // Mudar `fields` publica uma nova versão do formulário
+  updateReport(id: string, report: Partial<Report>): Promise<void>;
+  // Remove também as submissões do relatório e seus históricos
+  deleteReport(id: string): Promise<Attachment[]>;
+  upsertReport(report: Report): Promise<void>;
+  getReportDefinition(reportId: string, version: number): Promise<ReportDefinition | null>;
+  // Da versão mais nova para a mais antiga
+  getReportDefinitions(reportId: string): Promise<ReportDefinition[]>;
+}
+
+export interface SubmissionRepository {
+  // Sem `formVersion`, a resposta fica ligada à versão atual do formulário
+  createSubmission(submission: Omit<ReportSubmission, "id">): Promise<string>;
+  // Alterar `data` sem informar `version` incrementa a versão local
+  updateSubmission(id: string, data: Partial<ReportSubmission>): Promise<void>;
+  getSubmissionById(id: string): Promise<ReportSubmission | null>;
+  getSubmissionsByReportId(reportId: string): Promise<ReportSubmission[]>;
+  // Da alteração mais recente para a mais antiga
+  getSubmissionsPage(reportId: string, page?: PageRequest): Promise<Page<ReportSubmission>>;
+  countSubmissionsByReportId(reportId: string): Promise<number>;
+  getSubmissionsByUserId(userId: string): Promise<ReportSubmission[]>;
+  getSubmissionsByReportAndUser(reportId: string, userId: string): Promise<ReportSubmission[]>;
+  // Remove também o histórico de versões e o conflito pendente
+  deleteSubmission(id: string): Promise<Attachment[]>;
+  markSubmissionSynced(id: string, serverVersion: number, hasPendingChanges?: boolean): Promise<void>;
+  setSubmissionSyncStatus(id: string, syncStatus: ReportSubmission["syncStatus"]): Promise<void>;
+  // Não sobrescreve submissões com alterações locais pendentes
+  upsertSubmission(submission: ReportSubmission): Promise<void>;
+  saveSubmissionConflict(
+    submissionId: string,
+    localData: Record<string, any>,
+    serverSubmission: ReportSubmission
+  ): Promise<void>;
+  getSubmissionConflict(submissionId: string): Promise<SubmissionConflict | null>;
+  removeSubmissionConflict(submissionId: string): Promise<void>;
+}
+
+// Consultas sobre as respostas normalizadas (uma linha por campo), mantidas
+// a cada gravação de submissão. Respostas na lixeira ficam de fora
+export interface AnswerRepository {
+  // Da alteração mais recente para a mais antiga
+  querySubmissionsByAnswers(query: AnswerQuery): Promise<ReportSubmission[]>;
+  countSubmissionsByAnswers(query: AnswerQuery): Promise<number>;
+  // 'count' conta as respostas preenchidas do campo; as demais funções usam
+  // apenas valores numéricos. null quando não há valores
+  aggregateAnswers(query: AnswerQuery, fieldId: string, aggregate: AnswerAggregate): Promise<number | null>;
+  // Quantas respostas tem cada valor do campo, do mais frequente ao menos
+  getAnswerDistribution(query: AnswerQuery, fieldId: string): Promise<AnswerValueCount[]>;
+}
+
+export interface VersionRepository {
+  createReportVersion(version: Omit<ReportVersion, "id">): Promise<string>;
+  // Da versão mais nova para a mais antiga
+  getReportVersions(submissionId: string): Promise<ReportVersion[]>;
+}
+
+export interface NotificationRepository {
+  createNotification(notification: Omit<Notification, "id" | "createdAt">): Promise<string>;
+  getNotificationsByUserId(userId: string): Promise<Notification[]>;
+  markNotificationRead(id: string): Promise<void>;
+}
+
+export interface SyncQueueRepository {
+  getSyncState(key: string): Promise<string | null>;
+  setSyncState(key: string, value: string): Promise<void>;
+  getPendingSyncItems(userId: string, now?: string): Promise<SyncQueue[]>;
+  getSyncQueueCount(userId: string): Promise<number>;
+  addToSyncQueue(item: Omit<SyncQueue, "id">): Promise<string>;
+  updateSyncQueueItem(id: string, attempts: number, error?: string, nextAttemptAt?: string): Promise<void>;
+  removeSyncQueueItem(id: string): Promise<void>;
+  getSyncItemForEntity(type: SyncQueue["type"], entityId: string, userId: string): Promise<SyncQueue | null>;
+  coalesceSyncQueueItem(id: string, action: SyncQueue["action"], data: Record<string, any>): Promise<void>;
+  // Retorna false quando o item foi alterado durante o envio
+  completeSyncQueueItem(item: SyncQueue): Promise<boolean>;
+  assignUnownedSyncItems(): Promise<void>;
+  moveSyncItemToDeadLetter(item: SyncQueue, error: string): Promise<void>;
+  getDeadLetterItems(userId: string): Promise<DeadLetterItem[]>;
+  getDeadLetterCount(userId: string): Promise<number>;
+  getDeadLetterItem(id: string): Promise<DeadLetterItem | null>;
+  removeDeadLetterItem(id: string): Promise<void>;
+  clearDeadLetterItems(userId: string): Promise<void>;
+}
+
+export interface AttachmentRepository {
+  createAttachment(attachment: Omit<Attachment, "id" | "createdAt" | "updatedAt">): Promise<string>;
+  getAttachmentById(id: string): Promise<Attachment | null>;
+  updateAttachmentUpload(
+    id: string,
+    data: Partial<Pick<Attachment, "uploadState" | "uploadId" | "uploadedBytes" | "remoteId" | "error">>
+  ): Promise<void>;
+  deleteAttachment(id: string): Promise<void>;
+}
+
+export interface TrashRepository {
+  // Marca o item, e o que ele contém, como excluído na mesma data
+  moveToTrash(type: TrashItem["type"], id: string): Promise<void>;
+  // Restaura o item e o que foi excluído junto com ele. Falha se o
+  // projeto ou relatório que o contém ainda estiver na lixeira
+  restoreFromTrash(type: TrashItem["type"], id: string): Promise<void>;
+  // Itens do usuário, do excluído mais recentemente ao mais antigo
+  getTrashItems(userId: string): Promise<TrashItem[]>;
+}
+
+export interface RetentionRepository {
+  // Projetos fora da lixeira com alguma regra de retenção definida
+  getProjectsWithRetention(): Promise<Project[]>;
+  // Relatórios ativos do usuário no projeto sem alterações nem respostas
+  // desde `before`
+  getInactiveReports(projectId: string, createdBy: string, before: string): Promise<Report[]>;
+  // Rascunhos do usuário no projeto não alterados desde `before`
+  getAbandonedDrafts(projectId: string, userId: string, before: string): Promise<ReportSubmission[]>;
+  // Fim do prazo legal de guarda das respostas enviadas contidas no item,
+  // inclusive as que estão na lixeira; null se não houver prazo
+  getLegalHoldUntil(type: TrashItem["type"], id: string): Promise<string | null>;
+  addRetentionLogEntry(entry: Omit<RetentionLogEntry, "id">): Promise<string>;
+  // Do registro mais recente para o mais antigo
+  getRetentionLog(userId: string, projectId: string, limit?: number): Promise<RetentionLogEntry[]>;
+}
+
+export interface SearchRepository {
+  // Busca textual em relatórios e respostas fora da lixeira, dos resultados
+  // mais relevantes para os menos relevantes. Cada palavra casa por prefixo
+  search(query: string, limit?: number): Promise<SearchResult[]>;
+}
+
+export interface Repository
+  extends UserRepository,
+    ProjectRepository,
+    ReportRepository,
+    SubmissionRepository,
+    AnswerRepository,
+    VersionRepository,
+    NotificationRepository,
+    SyncQueueRepository,
+    AttachmentRepository,
+    TrashRepository,
+    RetentionRepository,
+    SearchRepository {
+  isInitialized(): boolean;
+  init(): Promise<void>;
+  // Executa `work` como uma unidade: se ela falhar, nada do que foi gravado
+  // por meio de `tx` permanece. Chamadas feitas pelo `tx` entram na transação
+  // aberta; as de raiz esperam a anterior terminar, então dentro de `work`
+  // use só o `tx`
+  withTransaction<T>(work: (tx: Repository) => Promise<T>): Promise<T>;
+  clearAllData(): Promise<void>;
+  close(): Promise<void>;
+}
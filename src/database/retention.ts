@@ -0,0 +1,12 @@
+import { ProjectSettings } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fim do prazo legal de guarda de uma resposta enviada em `submittedAt`;
+// null se o projeto não define esse prazo
+export const legalHoldUntil = (submittedAt: string, settings: ProjectSettings): string | null => {
+  const days = settings.retention?.minSubmissionRetentionDays;
+  if (!days) return null;
+
+  return new Date(new Date(submittedAt).getTime() + days * DAY_MS).toISOString();
+};
@@ -0,0 +1,159 @@
+import * as SQLite from "expo-sqlite";
+import { SearchResult, SearchSnippetPart } from "../types";
+
+// Índice de busca textual (FTS5). Relatórios são indexados pelo título, pela
+// descrição e pelos rótulos dos campos; respostas, pelas respostas em texto.
+// As consultas abaixo são usadas tanto pela migração quanto pelo DatabaseService.
+// O build web do expo-sqlite não inclui o FTS5: sem ele não há índice e a
+// busca compara os textos com LIKE.
+
+export const SEARCH_INDEX_TABLE = `CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+  entity_type UNINDEXED,
+  entity_id UNINDEXED,
+  report_id UNINDEXED,
+  title,
+  body,
+  tokenize = 'unicode61 remove_diacritics 2'
+)`;
+
+// Texto pesquisável de cada relatório e resposta, no formato das colunas do índice
+export const REPORT_DOCUMENTS_SQL = `SELECT 'report' AS entity_type, r.id AS entity_id, r.id AS report_id, r.title AS title,
+    COALESCE(r.description, '') || ' ' ||
+    COALESCE((SELECT group_concat(json_extract(f.value, '$.label'), ' ') FROM json_each(r.fields) f), '') AS body
+  FROM reports r`;
+
+// Apenas valores em texto; anexos e caixas de seleção ficam de fora
+export const SUBMISSION_DOCUMENTS_SQL = `SELECT 'submission' AS entity_type, s.id AS entity_id, s.report_id AS report_id, '' AS title,
+    COALESCE((SELECT group_concat(a.value, ' ') FROM json_each(s.data) a WHERE a.type = 'text'), '') AS body
+  FROM report_submissions s`;
+
+export const INDEX_REPORTS_SQL = `INSERT INTO search_index (entity_type, entity_id, report_id, title, body)
+  ${REPORT_DOCUMENTS_SQL}`;
+
+export const INDEX_SUBMISSIONS_SQL = `INSERT INTO search_index (entity_type, entity_id, report_id, title, body)
+  ${SUBMISSION_DOCUMENTS_SQL}`;
+
+export const supportsFullTextSearch = async (db: SQLite.SQLiteDatabase): Promise<boolean> => {
+  const options = await db.getAllAsync<{ compile_options: string }>("PRAGMA compile_options");
+  return options.some((option) => option.compile_options === "ENABLE_FTS5");
+};
+
+// Cria e preenche o índice se ele ainda não existe e o SQLite tem FTS5 (ex.:
+// banco criado por um build sem FTS5). Retorna se o índice está disponível
+export const ensureSearchIndex = async (db: SQLite.SQLiteDatabase): Promise<boolean> => {
+  const existing = await db.getFirstAsync(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'search_index'"
+  );
+  if (existing) return true;
+  if (!(await supportsFullTextSearch(db))) return false;
+
+  await db.execAsync(SEARCH_INDEX_TABLE);
+  await db.runAsync(INDEX_REPORTS_SQL);
+  await db.runAsync(INDEX_SUBMISSIONS_SQL);
+  return true;
+};
+
+// Marcadores usados pelo snippet() para delimitar os trechos encontrados
+export const HIGHLIGHT_START = "\u0001";
+export const HIGHLIGHT_END = "\u0002";
+
+// Palavras do texto digitado, sem pontuação
+export const searchTerms = (query: string): string[] =>
+  query.split(/[^\p{L}\p{N}]+/u).filter((term) => term.length > 0);
+
+// Converte o texto digitado em uma consulta FTS5: cada palavra vira um
+// prefixo entre aspas, o que neutraliza a sintaxe de operadores do FTS
+export const toMatchQuery = (query: string): string | null => {
+  const terms = searchTerms(query);
+
+  return terms.length > 0 ? terms.map((term) => `"${term}"*`).join(" ") : null;
+};
+
+export const parseSnippet = (snippet: string): SearchSnippetPart[] => {
+  const parts: SearchSnippetPart[] = [];
+  let highlighted = false;
+  let text = "";
+
+  for (const char of snippet) {
+    if (char === HIGHLIGHT_START || char === HIGHLIGHT_END) {
+      if (text) parts.push({ text, highlighted });
+      text = "";
+      highlighted = char === HIGHLIGHT_START;
+    } else {
+      text += char;
+    }
+  }
+  if (text) parts.push({ text, highlighted });
+
+  return parts;
+};
+
+// Mesma normalização do tokenizador do FTS (sem acentos, minúsculas)
+export const normalizeText = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+// Até 12 palavras a partir de pouco antes do primeiro termo encontrado
+export const buildSnippet = (words: string[], matches: (word: string) => boolean): SearchSnippetPart[] => {
+  const first = Math.max(0, words.findIndex(matches));
+  const start = Math.max(0, first - 3);
+  const end = Math.min(words.length, start + 12);
+  const parts: SearchSnippetPart[] = [];
+
+  words.slice(start, end).forEach((word, index) => {
+    const text = (index === 0 && start > 0 ? "…" : "") + word + (start + index === end - 1 ? "" : " ");
+    const highlighted = matches(word);
+    const last = parts[parts.length - 1];
+    if (last && last.highlighted === highlighted) {
+      last.text += text;
+    } else {
+      parts.push({ text, highlighted });
+    }
+  });
+  if (end < words.length) {
+    parts.push({ text: "…", highlighted: false });
+  }
+
+  return parts;
+};
+
+// Relatório ou resposta a pesquisar sem o índice FTS5
+export interface SearchDocument {
+  type: SearchResult["type"];
+  id: string;
+  reportId: string;
+  reportTitle: string;
+  title: string;
+  body: string;
+}
+
+// Mesmas regras do índice: cada termo casa com o início de uma palavra, sem
+// acentos nem maiúsculas, e o título pesa mais que o corpo
+export const rankDocuments = (documents: SearchDocument[], query: string, limit: number): SearchResult[] => {
+  const terms = searchTerms(query).map(normalizeText);
+  if (terms.length === 0) return [];
+
+  const matches = (word: string) => terms.some((term) => normalizeText(word).startsWith(term));
+  const results: SearchResult[] = [];
+
+  documents.forEach((document) => {
+    const titleWords = document.title.split(/\s+/).filter(Boolean);
+    const bodyWords = document.body.split(/\s+/).filter(Boolean);
+    const allWords = [...titleWords, ...bodyWords].map(normalizeText);
+    if (!terms.every((term) => allWords.some((word) => word.startsWith(term)))) {
+      return;
+    }
+
+    const titleHits = titleWords.filter(matches).length;
+    const bodyHits = bodyWords.filter(matches).length;
+    results.push({
+      type: document.type,
+      id: document.id,
+      reportId: document.reportId,
+      title: document.reportTitle,
+      snippet: buildSnippet(titleHits > 0 ? titleWords : bodyWords, matches),
+      rank: -(titleHits * 10 + bodyHits),
+    });
+  });
+
+  return results.sort((a, b) => a.rank - b.rank).slice(0, limit);
+};
@@ -0,0 +1,12 @@
+// Fila das transações de raiz: cada tarefa só começa depois que a anterior
+// termina, com sucesso ou erro. Chamadas aninhadas não passam por aqui (elas
+// usam o `tx` recebido), senão esperariam pela própria transação
+export const createTransactionQueue = () => {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const result = tail.then(() => task());
+    tail = result.catch(() => undefined);
+    return result;
+  };
+};
@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react';
+
+import { getRepository } from '../database';
+import { syncService } from '../services/syncService';
+import { ReportSubmission, SyncStatus } from '../types';
+
+// Estado da sincronização atualizado a cada evento do syncService
+export const useSyncStatus = (): SyncStatus => {
+  const [status, setStatus] = useState<SyncStatus>(() => syncService.getStatus());
+
+  useEffect(() => {
+    setStatus(syncService.getStatus());
+    return syncService.subscribe((_event, next) => setStatus(next));
+  }, []);
+
+  return status;
+};
+
+// Situação de sincronização de uma submissão, recarregada quando ela é enviada
+export const useSubmissionSyncStatus = (
+  submissionId?: string | null
+): ReportSubmission['syncStatus'] | null => {
+  const [syncStatus, setSyncStatus] = useState<ReportSubmission['syncStatus'] | null>(null);
+
+  useEffect(() => {
+    if (!submissionId) {
+      setSyncStatus(null);
+      return;
+    }
+
+    let active = true;
+
+    const load = async () => {
+      try {
+        const submission = await getRepository().getSubmissionById(submissionId);
+        if (active) {
+          setSyncStatus(submission?.syncStatus ?? null);
+        }
+      } catch (error) {
+        console.error('Error loading submission sync status:', error);
+      }
+    };
+
+    load();
+
+    const unsubscribe = syncService.subscribe(event => {
+      if (event.type === 'queueChanged') {
+        load();
+      } else if (
+        (event.type === 'itemSynced' || event.type === 'itemFailed') &&
+        event.item.type === 'submission' &&
+        event.item.entityId === submissionId
+      ) {
+        load();
+      }
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [submissionId]);
+
+  return syncStatus;
+};
@@ -1,6 +1,6 @@
 import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
-import { createStackNavigator } from '@react-navigation/stack';
+import { NavigationContainer, useNavigation } from '@react-navigation/native';
+import { createStackNavigator, StackNavigationProp } from '@react-navigation/stack';
 import { createBottomTabNavigator } from "@react-navigation/bottom-tabs";
 import { Ionicons } from "@expo/vector-icons";
 
@@ -17,6 +17,11 @@ import FillReportScreen from "../screens/FillReportScreen";
 import ProfileScreen from "../screens/ProfileScreen";
 import ProjectsScreen from "../screens/ProjectsScreen";
 import CreateProjectScreen from "../screens/CreateProjectScreen";
+import ProjectRetentionScreen from "../screens/ProjectRetentionScreen";
+import SyncFailuresScreen from "../screens/SyncFailuresScreen";
+import SubmissionHistoryScreen from "../screens/SubmissionHistoryScreen";
+import TrashScreen from "../screens/TrashScreen";
+import SearchScreen from "../screens/SearchScreen";
 
 export type RootStackParamList = {
   Auth: undefined;
@@ -28,6 +33,11 @@ export type RootStackParamList = {
   ReportResponses: { reportId: string };
   FillReport: { reportId: string; submissionId?: string };
   CreateProject: undefined;
+  ProjectRetention: { projectId: string };
+  SyncFailures: undefined;
+  SubmissionHistory: { submissionId: string };
+  Trash: undefined;
+  Search: undefined;
 };
 
 export type MainTabParamList = {
@@ -47,6 +57,21 @@ const AuthStack = () => (
   </Stack.Navigator>
 );
 
+// Busca global em relatórios e respostas, no cabeçalho das abas
+const SearchButton = () => {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+
+  return (
+    <Ionicons
+      name="search"
+      size={22}
+      color="#fff"
+      style={{ marginRight: 16 }}
+      onPress={() => navigation.navigate("Search")}
+    />
+  );
+};
+
 const MainTabs = () => (
   <Tab.Navigator
     screenOptions={({ route }) => ({
@@ -76,6 +101,7 @@ const MainTabs = () => (
       headerTitleStyle: {
         fontWeight: "bold",
       },
+      headerRight: () => <SearchButton />,
     })}
   >
     <Tab.Screen
@@ -117,6 +143,15 @@ const MainStack = () => (
         headerTintColor: "#fff",
       }}
     />
+    <Stack.Screen
+      name="ProjectRetention"
+      component={ProjectRetentionScreen}
+      options={{
+        title: "Retenção de Dados",
+        headerStyle: { backgroundColor: "#2196F3" },
+        headerTintColor: "#fff",
+      }}
+    />
     <Stack.Screen
       name="CreateReport"
       component={CreateReportScreen}
@@ -153,6 +188,42 @@ const MainStack = () => (
         headerTintColor: "#fff",
       }}
     />
+    <Stack.Screen
+      name="SyncFailures"
+      component={SyncFailuresScreen}
+      options={{
+        title: "Falhas de Sincronização",
+        headerStyle: { backgroundColor: "#2196F3" },
+        headerTintColor: "#fff",
+      }}
+    />
+    <Stack.Screen
+      name="SubmissionHistory"
+      component={SubmissionHistoryScreen}
+      options={{
+        title: "Histórico da Resposta",
+        headerStyle: { backgroundColor: "#2196F3" },
+        headerTintColor: "#fff",
+      }}
+    />
+    <Stack.Screen
+      name="Search"
+      component={SearchScreen}
+      options={{
+        title: "Buscar",
+        headerStyle: { backgroundColor: "#2196F3" },
+        headerTintColor: "#fff",
+      }}
+    />
+    <Stack.Screen
+      name="Trash"
+      component={TrashScreen}
+      options={{
+        title: "Lixeira",
+        headerStyle: { backgroundColor: "#2196F3" },
+        headerTintColor: "#fff",
+      }}
+    />
   </Stack.Navigator>
 );
 
@@ -11,7 +11,7 @@ import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 
 import { useAuth } from '../contexts/AuthContext';
-import { databaseService } from '../database/database';
+import { syncService } from '../services/syncService';
 import { RootStackParamList } from '../navigation/AppNavigator';
 
 type CreateProjectScreenNavigationProp = StackNavigationProp<RootStackParamList, 'CreateProject'>;
@@ -41,7 +41,7 @@ const CreateProjectScreen: React.FC = () => {
 
     setLoading(true);
     try {
-      await databaseService.createProject({
+      await syncService.createProjectOffline({
         name: name.trim(),
         description: description.trim() || undefined,
         ownerId: state.user.id,
@@ -18,7 +18,8 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 
 import { useAuth } from '../contexts/AuthContext';
-import { databaseService } from '../database/database';
+import { getRepository } from '../database';
+import { syncService } from '../services/syncService';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { Project, ReportField } from '../types';
 import AddFieldModal from '../components/AddFieldModal';
@@ -60,7 +61,7 @@ const CreateReportScreen: React.FC = () => {
     try {
       if (!state.user) return;
 
-      const userProjects = await databaseService.getProjectsByUserId(state.user.id);
+      const userProjects = await getRepository().getProjectsByUserId(state.user.id);
       setProjects(userProjects);
 
       // Se foi passado um projectId na rota, seleciona automaticamente
@@ -78,7 +79,7 @@ const CreateReportScreen: React.FC = () => {
   const loadReportData = async (reportId: string) => {
     try {
       setLoading(true);
-      const report = await databaseService.getReportById(reportId);
+      const report = await getRepository().getReportById(reportId);
       
       if (report) {
         setTitle(report.title);
@@ -87,7 +88,7 @@ const CreateReportScreen: React.FC = () => {
         
         // Carregar projeto do relatório
         if (report.projectId) {
-          const project = await databaseService.getProjectById(report.projectId);
+          const project = await getRepository().getProjectById(report.projectId);
           if (project) {
             setSelectedProject(project);
           }
@@ -197,7 +198,7 @@ const CreateReportScreen: React.FC = () => {
           status: 'active'
         });
 
-        await databaseService.updateReport(editingReportId, {
+        await syncService.updateReportOffline(editingReportId, {
           title: title.trim(),
           description: description.trim() || undefined,
           projectId: selectedProject.id,
@@ -230,7 +231,7 @@ const CreateReportScreen: React.FC = () => {
           status: 'active'
         });
 
-        await databaseService.createReport({
+        await syncService.createReportOffline({
           title: title.trim(),
           description: description.trim() || undefined,
           projectId: selectedProject.id,
@@ -401,6 +402,11 @@ const CreateReportScreen: React.FC = () => {
 
             {/* Campos do relatório com melhor visualização */}
             <Text style={styles.sectionTitle}>Campos do Relatório</Text>
+            {isEditing && (
+              <Text style={styles.versionHint}>
+                Alterar os campos publica uma nova versão do formulário. Respostas já existentes continuam com a versão em que foram preenchidas.
+              </Text>
+            )}
             
             {fields.length === 0 ? (
               <View style={styles.emptyFieldsContainer}>
@@ -679,6 +685,11 @@ const styles = StyleSheet.create({
     marginTop: 16,
     marginBottom: 12,
   },
+  versionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+  },
   projectSelector: {
     marginBottom: 16,
   },
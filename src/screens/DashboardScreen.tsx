@@ -21,10 +21,13 @@ import { useNavigation } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
 
 import { useAuth } from "../contexts/AuthContext";
-import { databaseService } from "../database/database";
+import { getRepository } from "../database";
 import { syncService } from "../services/syncService";
 import { RootStackParamList } from "../navigation/AppNavigator";
 import { Project, Report, ReportSubmission, DashboardStats } from "../types";
+import { useSyncStatus } from "../hooks/useSyncStatus";
+import SyncBanner from "../components/SyncBanner";
+import SyncStatusBadge from "../components/SyncStatusBadge";
 
 type DashboardScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -46,17 +49,18 @@ const DashboardScreen: React.FC = () => {
     overdueReports: 0,
     recentActivity: [],
   });
-  const [isOnline, setIsOnline] = useState(syncService.isConnected());
+  const syncStatus = useSyncStatus();
+  const isOnline = syncStatus.isOnline;
 
   useEffect(() => {
     loadDashboardData();
 
-    // Verifica status de conectividade periodicamente
-    const interval = setInterval(() => {
-      setIsOnline(syncService.isConnected());
-    }, 5000);
-
-    return () => clearInterval(interval);
+    // Recarrega as submissões ao fim de cada sincronização
+    return syncService.subscribe((event) => {
+      if (event.type === "completed") {
+        loadDashboardData();
+      }
+    });
   }, []);
 
   const loadDashboardData = async () => {
@@ -67,7 +71,7 @@ const DashboardScreen: React.FC = () => {
       }
 
       // Carrega projetos do usuário
-      const userProjects = await databaseService.getProjectsByUserId(
+      const userProjects = await getRepository().getProjectsByUserId(
         state.user.id
       );
       setProjects(userProjects);
@@ -75,7 +79,7 @@ const DashboardScreen: React.FC = () => {
       // Carrega relatórios recentes
       const allReports: Report[] = [];
       for (const project of userProjects) {
-        const projectReports = await databaseService.getReportsByProjectId(
+        const projectReports = await getRepository().getReportsByProjectId(
           project.id
         );
         allReports.push(...projectReports);
@@ -89,7 +93,7 @@ const DashboardScreen: React.FC = () => {
       setRecentReports(sortedReports.slice(0, 5));
 
       // Carrega submissões do usuário
-      const userSubmissions = await databaseService.getSubmissionsByUserId(
+      const userSubmissions = await getRepository().getSubmissionsByUserId(
         state.user.id
       );
       setRecentSubmissions(userSubmissions.slice(0, 5));
@@ -140,6 +144,13 @@ const DashboardScreen: React.FC = () => {
     navigation.navigate("ReportResponses", { reportId });
   };
 
+  const navigateToSubmission = (submission: ReportSubmission) => {
+    navigation.navigate("FillReport", {
+      reportId: submission.reportId,
+      submissionId: submission.id,
+    });
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "draft":
@@ -206,6 +217,8 @@ const DashboardScreen: React.FC = () => {
           </View>
         </View>
 
+        <SyncBanner status={syncStatus} style={styles.syncBanner} />
+
         {/* Estatísticas */}
         <View style={styles.statsContainer}>
           <TouchableOpacity
@@ -352,6 +365,17 @@ const DashboardScreen: React.FC = () => {
                       "pt-BR"
                     )}
                   </Text>
+                  <View style={styles.submissionFooter}>
+                    <SyncStatusBadge syncStatus={submission.syncStatus} />
+                    <Button
+                      mode="text"
+                      onPress={() => navigateToSubmission(submission)}
+                      compact
+                      icon={submission.status === "draft" ? "pencil" : "eye"}
+                    >
+                      {submission.status === "draft" ? "Continuar" : "Abrir"}
+                    </Button>
+                  </View>
                 </Surface>
               ))}
             </Card.Content>
@@ -407,6 +431,10 @@ const styles = StyleSheet.create({
   statusChip: {
     elevation: 2,
   },
+  syncBanner: {
+    marginHorizontal: 20,
+    marginBottom: 20,
+  },
   statsContainer: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -501,6 +529,11 @@ const styles = StyleSheet.create({
     color: "#666",
     fontSize: 12,
   },
+  submissionFooter: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
   reportActions: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, StyleSheet, ScrollView, Alert } from 'react-native';
 import { 
   Text, 
@@ -16,10 +16,17 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 
 import { useAuth } from '../contexts/AuthContext';
-import { databaseService } from '../database/database';
+import { getRepository } from '../database';
 import { syncService } from '../services/syncService';
 import { RootStackParamList } from '../navigation/AppNavigator';
-import { Report, ReportSubmission, ReportField } from '../types';
+import { Report, ReportSubmission, ReportField, SubmissionConflict } from '../types';
+import ConflictMergeModal from '../components/ConflictMergeModal';
+import FormUpgradeModal from '../components/FormUpgradeModal';
+import SyncBanner from '../components/SyncBanner';
+import SyncStatusBadge from '../components/SyncStatusBadge';
+import { useSyncStatus, useSubmissionSyncStatus } from '../hooks/useSyncStatus';
+import { attachmentService, isAttachmentRef } from '../services/attachmentService';
+import { formVersionService } from '../services/formVersionService';
 
 type FillReportScreenNavigationProp = StackNavigationProp<RootStackParamList, 'FillReport'>;
 type FillReportScreenRouteProp = RouteProp<RootStackParamList, 'FillReport'>;
@@ -34,26 +41,55 @@ const FillReportScreen: React.FC = () => {
   const [report, setReport] = useState<Report | null>(null);
   const [submission, setSubmission] = useState<ReportSubmission | null>(null);
   const [formData, setFormData] = useState<Record<string, any>>({});
+  // Campos da versão do formulário em que a resposta foi preenchida
+  const [formFields, setFormFields] = useState<ReportField[]>([]);
   const [menuVisible, setMenuVisible] = useState<Record<string, boolean>>({});
+  const [conflict, setConflict] = useState<SubmissionConflict | null>(null);
+  const [mergeVisible, setMergeVisible] = useState(false);
+  const [upgradeVisible, setUpgradeVisible] = useState(false);
+  // Dados da última gravação, para o auto-save não regravar o que não mudou
+  const savedData = useRef<string | null>(null);
+  const syncStatus = useSyncStatus();
+  const submissionSyncStatus = useSubmissionSyncStatus(submission?.id);
+  // Respostas enviadas só podem ser editadas depois de reabertas
+  const readOnly = submission !== null && submission.status !== 'draft';
+  const outdated = report !== null && submission !== null && formVersionService.isOutdated(report, submission);
 
   useEffect(() => {
     loadReportAndSubmission();
   }, []);
 
+  // Ao voltar do histórico, recarrega a resposta (uma versão pode ter sido restaurada)
+  useEffect(() => {
+    if (!submission) return;
+
+    return navigation.addListener('focus', async () => {
+      const current = await getRepository().getSubmissionById(submission.id);
+      if (current) {
+        setSubmission(current);
+        setFormData(current.data);
+        savedData.current = JSON.stringify(current.data);
+        if (report) {
+          setFormFields(await formVersionService.getFieldsForSubmission(report, current));
+        }
+      }
+    });
+  }, [navigation, submission?.id, report]);
+
   // Auto-save a cada 30 segundos
   useEffect(() => {
     const interval = setInterval(() => {
-      if (report && state.user && Object.keys(formData).length > 0) {
+      if (report && state.user && !conflict && !readOnly && Object.keys(formData).length > 0) {
         autoSave();
       }
     }, 30000);
 
     return () => clearInterval(interval);
-  }, [formData, report, state.user]);
+  }, [formData, report, state.user, conflict, readOnly]);
 
   const loadReportAndSubmission = async () => {
     try {
-      const reportData = await databaseService.getReportById(route.params.reportId);
+      const reportData = await getRepository().getReportById(route.params.reportId);
       if (!reportData) {
         Alert.alert('Erro', 'Relatório não encontrado');
         navigation.goBack();
@@ -61,26 +97,37 @@ const FillReportScreen: React.FC = () => {
       }
 
       setReport(reportData);
+      setFormFields(reportData.fields);
 
       // Se foi passado um submissionId, carrega a submissão existente
       if (route.params.submissionId) {
-        // TODO: Implementar busca de submissão por ID
-        // const submissionData = await databaseService.getSubmissionById(route.params.submissionId);
-        // if (submissionData) {
-        //   setSubmission(submissionData);
-        //   setFormData(submissionData.data);
-        // }
+        const submissionData = await getRepository().getSubmissionById(route.params.submissionId);
+        if (!submissionData || submissionData.reportId !== reportData.id) {
+          Alert.alert('Erro', 'Resposta não encontrada');
+          navigation.goBack();
+          return;
+        }
+
+        setSubmission(submissionData);
+        setFormData(submissionData.data);
+        savedData.current = JSON.stringify(submissionData.data);
+        setFormFields(await formVersionService.getFieldsForSubmission(reportData, submissionData));
+        await loadConflict(submissionData.id);
       } else {
         // Verifica se já existe uma submissão em rascunho para este usuário
         if (state.user) {
-          const userSubmissions = await databaseService.getSubmissionsByUserId(state.user.id);
-          const draftSubmission = userSubmissions.find(
-            s => s.reportId === reportData.id && s.status === 'draft'
+          const userSubmissions = await getRepository().getSubmissionsByReportAndUser(
+            reportData.id,
+            state.user.id
           );
+          const draftSubmission = userSubmissions.find(s => s.status === 'draft');
           
           if (draftSubmission) {
             setSubmission(draftSubmission);
             setFormData(draftSubmission.data);
+            savedData.current = JSON.stringify(draftSubmission.data);
+            setFormFields(await formVersionService.getFieldsForSubmission(reportData, draftSubmission));
+            await loadConflict(draftSubmission.id);
           }
         }
       }
@@ -92,13 +139,46 @@ const FillReportScreen: React.FC = () => {
     }
   };
 
+  // Verifica se o servidor rejeitou esta resposta por versão desatualizada
+  const loadConflict = async (submissionId: string) => {
+    const submissionConflict = await syncService.getSubmissionConflict(submissionId);
+    setConflict(submissionConflict);
+    if (submissionConflict) {
+      setMergeVisible(true);
+    }
+  };
+
+  const handleResolveConflict = async (mergedData: Record<string, any>) => {
+    if (!submission) return;
+
+    try {
+      await syncService.resolveSubmissionConflict(submission.id, mergedData);
+      setFormData(mergedData);
+      savedData.current = JSON.stringify(mergedData);
+      setConflict(null);
+      setMergeVisible(false);
+
+      const updatedSubmission = await getRepository().getSubmissionById(submission.id);
+      if (updatedSubmission) {
+        setSubmission(updatedSubmission);
+      }
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      Alert.alert('Erro', 'Falha ao aplicar a mesclagem');
+    }
+  };
+
   const autoSave = async () => {
     if (!report || !state.user) return;
 
+    const data = JSON.stringify(formData);
+    if (submission && data === savedData.current) return;
+
     try {
       if (submission) {
         // Atualiza submissão existente
         await syncService.updateSubmissionOffline(submission.id, formData);
+        savedData.current = data;
       } else {
         // Cria nova submissão
         const submissionId = await syncService.saveSubmissionOffline(
@@ -109,10 +189,10 @@ const FillReportScreen: React.FC = () => {
         );
         
         // Carrega a submissão criada
-        const newSubmission = await databaseService.getSubmissionsByUserId(state.user.id);
-        const createdSubmission = newSubmission.find(s => s.id === submissionId);
+        const createdSubmission = await getRepository().getSubmissionById(submissionId);
         if (createdSubmission) {
           setSubmission(createdSubmission);
+          savedData.current = data;
         }
       }
     } catch (error) {
@@ -127,10 +207,24 @@ const FillReportScreen: React.FC = () => {
     }));
   };
 
+  const handlePickAttachment = async (field: ReportField) => {
+    if (!state.user) return;
+
+    try {
+      const ref = await attachmentService.pickAttachment(field, state.user.id);
+      if (ref) {
+        handleFieldChange(field.id, ref);
+      }
+    } catch (error) {
+      console.error('Error picking attachment:', error);
+      Alert.alert('Erro', 'Falha ao anexar o arquivo');
+    }
+  };
+
   const validateForm = () => {
     if (!report) return false;
 
-    const requiredFields = report.fields.filter(field => field.required);
+    const requiredFields = formFields.filter(field => field.required);
     
     for (const field of requiredFields) {
       const value = formData[field.id];
@@ -152,6 +246,11 @@ const FillReportScreen: React.FC = () => {
   const handleSaveDraft = async () => {
     if (!report || !state.user) return;
 
+    if (conflict) {
+      setMergeVisible(true);
+      return;
+    }
+
     setSaving(true);
     try {
       await autoSave();
@@ -164,6 +263,11 @@ const FillReportScreen: React.FC = () => {
   };
 
   const handleSubmit = async () => {
+    if (conflict) {
+      setMergeVisible(true);
+      return;
+    }
+
     if (!validateForm() || !report || !state.user) return;
 
     setSaving(true);
@@ -193,6 +297,95 @@ const FillReportScreen: React.FC = () => {
     }
   };
 
+  const handleDeleteDraft = () => {
+    if (!submission) return;
+
+    Alert.alert(
+      'Excluir Rascunho',
+      'O rascunho irá para a lixeira, de onde pode ser restaurado pelo Perfil.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Excluir',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await syncService.moveToTrashOffline('submission', submission.id);
+              navigation.goBack();
+            } catch (error) {
+              console.error('Error deleting draft:', error);
+              Alert.alert('Erro', 'Falha ao excluir o rascunho');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleReopen = async () => {
+    if (!submission) return;
+
+    setSaving(true);
+    try {
+      await syncService.reopenSubmissionOffline(submission.id);
+      const reopened = await getRepository().getSubmissionById(submission.id);
+      if (reopened) {
+        setSubmission(reopened);
+      }
+    } catch (error) {
+      console.error('Error reopening submission:', error);
+      Alert.alert('Erro', 'Falha ao reabrir a resposta');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Leva o rascunho para a versão atual do formulário, com as respostas
+  // redirecionadas pelo usuário para campos recriados
+  const handleUpgradeForm = async (mapping: Record<string, string>) => {
+    if (!report || !submission) return;
+
+    setUpgradeVisible(false);
+    setSaving(true);
+    try {
+      // Salva antes para não perder o que ainda não foi gravado
+      await autoSave();
+      await syncService.upgradeSubmissionForm(submission.id, mapping);
+      const upgraded = await getRepository().getSubmissionById(submission.id);
+      if (upgraded) {
+        setSubmission(upgraded);
+        setFormData(upgraded.data);
+        savedData.current = JSON.stringify(upgraded.data);
+        setFormFields(report.fields);
+      }
+    } catch (error) {
+      console.error('Error upgrading form version:', error);
+      Alert.alert('Erro', 'Falha ao atualizar o formulário');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOpenHistory = async () => {
+    if (!submission) return;
+
+    // Salva antes para que a versão atual apareça no histórico
+    if (!readOnly && !conflict) {
+      await autoSave();
+    }
+    navigation.navigate('SubmissionHistory', { submissionId: submission.id });
+  };
+
+  const getSubmissionStatusText = (status: ReportSubmission['status']) => {
+    switch (status) {
+      case 'draft': return 'Rascunho salvo';
+      case 'submitted': return 'Enviado';
+      case 'approved': return 'Aprovado';
+      case 'rejected': return 'Rejeitado';
+      default: return status;
+    }
+  };
+
   const renderField = (field: ReportField) => {
     const value = formData[field.id];
 
@@ -207,6 +400,7 @@ const FillReportScreen: React.FC = () => {
             mode="outlined"
             style={styles.input}
             placeholder={field.placeholder}
+            disabled={readOnly}
           />
         );
 
@@ -222,6 +416,7 @@ const FillReportScreen: React.FC = () => {
             numberOfLines={4}
             style={styles.input}
             placeholder={field.placeholder}
+            disabled={readOnly}
           />
         );
 
@@ -231,6 +426,7 @@ const FillReportScreen: React.FC = () => {
             <Checkbox
               status={value ? 'checked' : 'unchecked'}
               onPress={() => handleFieldChange(field.id, !value)}
+              disabled={readOnly}
             />
             <Text style={styles.checkboxLabel}>
               {field.label + (field.required ? ' *' : '')}
@@ -252,6 +448,7 @@ const FillReportScreen: React.FC = () => {
                   mode="outlined"
                   onPress={() => setMenuVisible(prev => ({ ...prev, [field.id]: true }))}
                   style={styles.selectButton}
+                  disabled={readOnly}
                 >
                   {value || field.placeholder || 'Selecionar...'}
                 </Button>
@@ -280,18 +477,19 @@ const FillReportScreen: React.FC = () => {
             </Text>
             <Button
               mode="outlined"
-              onPress={() => Alert.alert('Em breve', 'Funcionalidade de upload em desenvolvimento')}
+              onPress={() => handlePickAttachment(field)}
               style={styles.fileButton}
               icon={field.type === 'image' ? 'image' : 'file'}
+              disabled={readOnly}
             >
-              {value ? 'Arquivo selecionado' : 'Selecionar arquivo'}
+              {value ? 'Trocar arquivo' : 'Selecionar arquivo'}
             </Button>
             {value && (
               <Chip
-                onClose={() => handleFieldChange(field.id, null)}
+                onClose={readOnly ? undefined : () => handleFieldChange(field.id, null)}
                 style={styles.fileChip}
               >
-                {value}
+                {isAttachmentRef(value) ? value.fileName : String(value)}
               </Chip>
             )}
           </View>
@@ -330,6 +528,8 @@ const FillReportScreen: React.FC = () => {
   return (
     <View style={styles.container}>
       <ScrollView style={styles.scrollView}>
+        <SyncBanner status={syncStatus} style={styles.syncBanner} />
+
         <Card style={styles.card}>
           <Card.Content>
             <Text variant="headlineMedium" style={styles.title}>{report.title}</Text>
@@ -337,14 +537,78 @@ const FillReportScreen: React.FC = () => {
               <Text style={styles.description}>{report.description}</Text>
             )}
             
+            <View style={styles.chipRow}>
+              {submission && (
+                <Chip 
+                  icon="auto-fix" 
+                  style={styles.statusChip}
+                  textStyle={{ color: '#fff' }}
+                >
+                  {getSubmissionStatusText(submission.status)}
+                </Chip>
+              )}
+              <SyncStatusBadge syncStatus={submissionSyncStatus} />
+            </View>
+
             {submission && (
-              <Chip 
-                icon="auto-fix" 
-                style={styles.statusChip}
-                textStyle={{ color: '#fff' }}
-              >
-                {submission.status === 'draft' ? 'Rascunho salvo' : 'Enviado'}
-              </Chip>
+              <View style={styles.submissionActions}>
+                <Button
+                  mode="text"
+                  onPress={handleOpenHistory}
+                  icon="history"
+                  compact
+                >
+                  Histórico
+                </Button>
+                {submission.status === 'draft' && (
+                  <Button
+                    mode="text"
+                    onPress={handleDeleteDraft}
+                    icon="delete"
+                    textColor="#F44336"
+                    compact
+                  >
+                    Excluir rascunho
+                  </Button>
+                )}
+              </View>
+            )}
+
+            {outdated && (
+              <View style={styles.versionBanner}>
+                <Text style={styles.versionText}>
+                  Esta resposta usa a versão {submission.formVersion ?? 1} do formulário
+                  (atual: versão {report.formVersion ?? 1}).
+                </Text>
+                {submission.status === 'draft' && (
+                  <Button
+                    mode="outlined"
+                    onPress={() => setUpgradeVisible(true)}
+                    disabled={saving || !!conflict}
+                    icon="update"
+                    compact
+                  >
+                    Atualizar formulário
+                  </Button>
+                )}
+              </View>
+            )}
+
+            {conflict && (
+              <View style={styles.conflictBanner}>
+                <Text style={styles.conflictText}>
+                  Esta resposta foi alterada em outro dispositivo.
+                </Text>
+                <Button
+                  mode="contained"
+                  onPress={() => setMergeVisible(true)}
+                  buttonColor="#FF9800"
+                  icon="call-merge"
+                  compact
+                >
+                  Resolver
+                </Button>
+              </View>
             )}
           </Card.Content>
         </Card>
@@ -353,7 +617,7 @@ const FillReportScreen: React.FC = () => {
           <Card.Content>
             <Text variant="headlineSmall">Preencher Campos</Text>
             
-            {report.fields
+            {[...formFields]
               .sort((a, b) => a.order - b.order)
               .map(field => renderField(field))
             }
@@ -364,28 +628,64 @@ const FillReportScreen: React.FC = () => {
       </ScrollView>
 
       <View style={styles.actionButtons}>
-        <Button
-          mode="outlined"
-          onPress={handleSaveDraft}
-          style={styles.actionButton}
-          loading={saving}
-          disabled={saving}
-          icon="content-save"
-        >
-          Salvar Rascunho
-        </Button>
-        
-        <Button
-          mode="contained"
-          onPress={handleSubmit}
-          style={styles.actionButton}
-          loading={saving}
-          disabled={saving}
-          icon="send"
-        >
-          Enviar
-        </Button>
+        {readOnly ? (
+          submission && (submission.status === 'submitted' || submission.status === 'rejected') && (
+            <Button
+              mode="contained"
+              onPress={handleReopen}
+              style={styles.actionButton}
+              loading={saving}
+              disabled={saving}
+              icon="pencil"
+            >
+              Reabrir para edição
+            </Button>
+          )
+        ) : (
+          <>
+            <Button
+              mode="outlined"
+              onPress={handleSaveDraft}
+              style={styles.actionButton}
+              loading={saving}
+              disabled={saving}
+              icon="content-save"
+            >
+              Salvar Rascunho
+            </Button>
+
+            <Button
+              mode="contained"
+              onPress={handleSubmit}
+              style={styles.actionButton}
+              loading={saving}
+              disabled={saving}
+              icon="send"
+            >
+              Enviar
+            </Button>
+          </>
+        )}
       </View>
+
+      <ConflictMergeModal
+        visible={mergeVisible}
+        fields={formFields}
+        conflict={conflict ? { ...conflict, localData: formData } : null}
+        onDismiss={() => setMergeVisible(false)}
+        onResolve={handleResolveConflict}
+      />
+
+      {report && (
+        <FormUpgradeModal
+          visible={upgradeVisible}
+          data={formData}
+          fromFields={formFields}
+          toFields={report.fields}
+          onDismiss={() => setUpgradeVisible(false)}
+          onConfirm={handleUpgradeForm}
+        />
+      )}
     </View>
   );
 };
@@ -445,6 +745,40 @@ const styles = StyleSheet.create({
     backgroundColor: '#4CAF50',
     alignSelf: 'flex-start',
   },
+  syncBanner: {
+    marginHorizontal: 20,
+    marginTop: 20,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  submissionActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  versionBanner: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#E3F2FD',
+  },
+  versionText: {
+    color: '#0D47A1',
+    marginBottom: 8,
+  },
+  conflictBanner: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#FFF3E0',
+  },
+  conflictText: {
+    color: '#E65100',
+    marginBottom: 8,
+  },
   input: {
     marginBottom: 16,
   },
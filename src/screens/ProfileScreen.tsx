@@ -1,5 +1,5 @@
 import React from 'react';
-import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { View, StyleSheet, ScrollView, Alert, Platform } from 'react-native';
 import { 
   Text, 
   Card, 
@@ -9,12 +9,26 @@ import {
   Divider
 } from 'react-native-paper';
 import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 
 import { useAuth } from '../contexts/AuthContext';
 import { syncService } from '../services/syncService';
+import { databaseService } from '../database';
+import { backupService } from '../services/backupService';
+import { TRASH_CONFIG } from '../config/trash';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import SyncBanner from '../components/SyncBanner';
+import { BackupArchive, BackupImportMode, BackupSummary } from '../types';
+
+type ProfileScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
 const ProfileScreen: React.FC = () => {
+  const navigation = useNavigation<ProfileScreenNavigationProp>();
   const { state, logout } = useAuth();
+  const syncStatus = useSyncStatus();
+  const failedItems = syncStatus.failedItems;
 
   const handleLogout = () => {
     Alert.alert(
@@ -29,18 +43,101 @@ const ProfileScreen: React.FC = () => {
 
   const handleSync = async () => {
     try {
-      if (!syncService.isConnected()) {
+      if (!syncStatus.isOnline) {
         Alert.alert('Erro', 'Você está offline. Conecte-se à internet para sincronizar.');
         return;
       }
       
       await syncService.forcSync();
+      if (syncService.getStatus().lastError) {
+        throw new Error(syncService.getStatus().lastError);
+      }
       Alert.alert('Sucesso', 'Sincronização concluída com sucesso!');
     } catch (error) {
       Alert.alert('Erro', 'Falha na sincronização. Tente novamente.');
     }
   };
 
+  const handleRotateKey = () => {
+    Alert.alert(
+      'Renovar chave de criptografia',
+      'Os dados deste dispositivo serão cifrados novamente com uma nova chave. Deseja continuar?',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Renovar',
+          onPress: async () => {
+            try {
+              await databaseService.rotateEncryptionKey();
+              Alert.alert('Sucesso', 'Chave de criptografia renovada.');
+            } catch (error) {
+              console.error('Error rotating database key:', error);
+              Alert.alert('Erro', 'Falha ao renovar a chave de criptografia.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleExportBackup = async () => {
+    try {
+      await backupService.exportBackup();
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      Alert.alert('Erro', 'Falha ao gerar o backup.');
+    }
+  };
+
+  const handleImportBackup = async () => {
+    let archive: BackupArchive | null;
+    try {
+      archive = await backupService.pickBackup();
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      Alert.alert('Erro', 'O arquivo escolhido não é um backup válido deste aplicativo.');
+      return;
+    }
+    if (!archive) return;
+
+    const selected = archive;
+    const runImport = async (mode: BackupImportMode) => {
+      try {
+        const summary = await backupService.importBackup(selected, mode);
+        Alert.alert('Backup importado', formatBackupSummary(summary));
+      } catch (error) {
+        console.error('Error importing backup:', error);
+        Alert.alert('Erro', 'Falha ao importar o backup. Nenhum dado foi alterado.');
+      }
+    };
+
+    Alert.alert(
+      'Importar backup',
+      `Backup de ${new Date(selected.exportedAt).toLocaleString('pt-BR')}. ` +
+        'Mesclar mantém os dados deste aparelho e atualiza o que estiver mais novo no backup; ' +
+        'substituir apaga os dados locais antes de importar.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Mesclar', onPress: () => runImport('merge') },
+        { text: 'Substituir', style: 'destructive', onPress: () => runImport('replace') },
+      ]
+    );
+  };
+
+  const formatBackupSummary = (summary: BackupSummary) => {
+    const labels: Record<string, string> = {
+      projects: 'Projetos',
+      reports: 'Relatórios',
+      report_submissions: 'Respostas',
+      attachments: 'Anexos',
+    };
+    const lines = Object.entries(labels).map(([table, label]) => {
+      const counts = summary.tables[table] || { inserted: 0, updated: 0, skipped: 0 };
+      return `${label}: ${counts.inserted} novos, ${counts.updated} atualizados, ${counts.skipped} mantidos`;
+    });
+    return [...lines, `Arquivos de anexos restaurados: ${summary.files}`].join('\n');
+  };
+
   const getRoleText = (role: string) => {
     switch (role) {
       case 'admin': return 'Administrador';
@@ -108,6 +205,7 @@ const ProfileScreen: React.FC = () => {
       <Card style={styles.card}>
         <Card.Content>
           <Text variant="headlineSmall">Configurações</Text>
+          <SyncBanner status={syncStatus} style={styles.syncBanner} />
           <List.Item
             title="Sincronizar dados"
             description="Sincronizar dados offline com o servidor"
@@ -116,6 +214,54 @@ const ProfileScreen: React.FC = () => {
             onPress={handleSync}
           />
           <Divider />
+          <List.Item
+            title="Falhas de sincronização"
+            description={
+              failedItems > 0
+                ? `${failedItems} item(ns) aguardando ação`
+                : 'Nenhum item com falha'
+            }
+            left={props => <List.Icon {...props} icon="alert-circle-outline" />}
+            right={props => <List.Icon {...props} icon="chevron-right" />}
+            onPress={() => navigation.navigate('SyncFailures')}
+          />
+          <Divider />
+          <List.Item
+            title="Lixeira"
+            description={`Itens excluídos ficam ${TRASH_CONFIG.retentionDays} dias antes de serem removidos`}
+            left={props => <List.Icon {...props} icon="delete-outline" />}
+            right={props => <List.Icon {...props} icon="chevron-right" />}
+            onPress={() => navigation.navigate('Trash')}
+          />
+          {Platform.OS !== 'web' && (
+            <>
+              <Divider />
+              <List.Item
+                title="Criptografia dos dados"
+                description="Dados locais cifrados. Toque para renovar a chave"
+                left={props => <List.Icon {...props} icon="lock" />}
+                right={props => <List.Icon {...props} icon="chevron-right" />}
+                onPress={handleRotateKey}
+              />
+              <Divider />
+              <List.Item
+                title="Exportar backup"
+                description="Gera um arquivo com todos os dados e anexos"
+                left={props => <List.Icon {...props} icon="database-export" />}
+                right={props => <List.Icon {...props} icon="chevron-right" />}
+                onPress={handleExportBackup}
+              />
+              <Divider />
+              <List.Item
+                title="Importar backup"
+                description="Restaura dados de um arquivo de backup"
+                left={props => <List.Icon {...props} icon="database-import" />}
+                right={props => <List.Icon {...props} icon="chevron-right" />}
+                onPress={handleImportBackup}
+              />
+            </>
+          )}
+          <Divider />
           <List.Item
             title="Notificações"
             description="Gerenciar notificações do aplicativo"
@@ -228,6 +374,10 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     elevation: 2,
   },
+  syncBanner: {
+    marginTop: 12,
+    marginBottom: 4,
+  },
   logoutButton: {
     marginTop: 8,
     paddingVertical: 8,
@@ -0,0 +1,305 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  ActivityIndicator,
+  Divider
+} from 'react-native-paper';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+
+import { useAuth } from '../contexts/AuthContext';
+import { getRepository } from '../database';
+import { syncService } from '../services/syncService';
+import { retentionService } from '../services/retentionService';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { Project, RetentionLogEntry, RetentionPolicy, RetentionRule } from '../types';
+
+type ProjectRetentionScreenNavigationProp = StackNavigationProp<RootStackParamList, 'ProjectRetention'>;
+type ProjectRetentionScreenRouteProp = RouteProp<RootStackParamList, 'ProjectRetention'>;
+
+const RULES: { key: keyof RetentionPolicy; label: string; description: string }[] = [
+  {
+    key: 'archiveInactiveReportsAfterDays',
+    label: 'Arquivar relatórios inativos após (dias)',
+    description: 'Relatórios ativos sem alterações nem respostas nesse período são arquivados.',
+  },
+  {
+    key: 'deleteDraftsAfterDays',
+    label: 'Excluir rascunhos abandonados após (dias)',
+    description: 'Rascunhos não alterados nesse período vão para a lixeira.',
+  },
+  {
+    key: 'minSubmissionRetentionDays',
+    label: 'Guardar respostas enviadas por (dias)',
+    description: 'Prazo legal: até lá, respostas enviadas não podem ser excluídas definitivamente.',
+  },
+];
+
+const RULE_TEXT: Record<RetentionRule, string> = {
+  archive_report: 'Relatório arquivado',
+  delete_draft: 'Rascunho enviado para a lixeira',
+};
+
+const ProjectRetentionScreen: React.FC = () => {
+  const navigation = useNavigation<ProjectRetentionScreenNavigationProp>();
+  const route = useRoute<ProjectRetentionScreenRouteProp>();
+  const { state } = useAuth();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [project, setProject] = useState<Project | null>(null);
+  // Valores digitados; vazio desliga a regra
+  const [values, setValues] = useState<Partial<Record<keyof RetentionPolicy, string>>>({});
+  const [log, setLog] = useState<RetentionLogEntry[]>([]);
+
+  const projectId = route.params.projectId;
+
+  useEffect(() => {
+    loadData();
+  }, [projectId]);
+
+  const loadData = async () => {
+    try {
+      if (!state.user) return;
+
+      const projectData = await getRepository().getProjectById(projectId);
+      setProject(projectData);
+
+      const policy = projectData?.settings.retention || {};
+      const initial: Partial<Record<keyof RetentionPolicy, string>> = {};
+      RULES.forEach(rule => {
+        initial[rule.key] = policy[rule.key] ? String(policy[rule.key]) : '';
+      });
+      setValues(initial);
+
+      setLog(await retentionService.getLog(state.user.id, projectId));
+    } catch (error) {
+      console.error('Error loading retention settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Retorna null se algum valor não for um número inteiro de dias
+  const buildPolicy = (): RetentionPolicy | null => {
+    const policy: RetentionPolicy = {};
+    for (const rule of RULES) {
+      const value = (values[rule.key] || '').trim();
+      if (!value) continue;
+
+      const days = Number(value);
+      if (!Number.isInteger(days) || days <= 0) {
+        return null;
+      }
+      policy[rule.key] = days;
+    }
+    return policy;
+  };
+
+  const handleSave = async () => {
+    if (!project) return;
+
+    const policy = buildPolicy();
+    if (!policy) {
+      Alert.alert('Erro', 'Informe os prazos em dias, com números inteiros maiores que zero');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const settings = { ...project.settings, retention: Object.keys(policy).length > 0 ? policy : undefined };
+      await syncService.updateProjectOffline(project.id, { settings });
+      setProject({ ...project, settings });
+      Alert.alert('Sucesso', 'Regras de retenção salvas');
+    } catch (error) {
+      console.error('Error saving retention settings:', error);
+      Alert.alert('Erro', 'Falha ao salvar as regras de retenção');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApplyNow = async () => {
+    if (!state.user) return;
+
+    setApplying(true);
+    try {
+      const entries = await retentionService.run(state.user.id, projectId);
+      setLog(await retentionService.getLog(state.user.id, projectId));
+      Alert.alert(
+        'Retenção aplicada',
+        entries.length > 0
+          ? `${entries.length} item(ns) arquivado(s) ou removido(s).`
+          : 'Nenhum item atingiu os prazos definidos.'
+      );
+    } catch (error) {
+      console.error('Error applying retention rules:', error);
+      Alert.alert('Erro', 'Falha ao aplicar as regras de retenção');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#2196F3" />
+      </View>
+    );
+  }
+
+  if (!project) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.emptyText}>Projeto não encontrado</Text>
+        <Button mode="contained" onPress={() => navigation.goBack()}>
+          Voltar
+        </Button>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text variant="titleLarge">{project.name}</Text>
+          <Text style={styles.subtitle}>
+            Deixe um campo vazio para desligar a regra. As regras são aplicadas automaticamente
+            enquanto o app estiver aberto.
+          </Text>
+
+          {RULES.map(rule => (
+            <View key={rule.key}>
+              <TextInput
+                label={rule.label}
+                value={values[rule.key] || ''}
+                onChangeText={text => setValues(prev => ({ ...prev, [rule.key]: text }))}
+                mode="outlined"
+                keyboardType="number-pad"
+                style={styles.input}
+              />
+              <Text style={styles.ruleDescription}>{rule.description}</Text>
+            </View>
+          ))}
+
+          <View style={styles.buttonContainer}>
+            <Button
+              mode="outlined"
+              onPress={handleApplyNow}
+              style={styles.button}
+              loading={applying}
+              disabled={applying || saving}
+            >
+              Aplicar agora
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSave}
+              style={styles.button}
+              loading={saving}
+              disabled={applying || saving}
+            >
+              Salvar
+            </Button>
+          </View>
+        </Card.Content>
+      </Card>
+
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text style={styles.sectionTitle}>Registro</Text>
+          {log.length === 0 ? (
+            <Text style={styles.emptyText}>Nada foi arquivado ou removido ainda.</Text>
+          ) : (
+            log.map((entry, index) => (
+              <View key={entry.id}>
+                {index > 0 && <Divider style={styles.divider} />}
+                <Text style={styles.logTitle}>{RULE_TEXT[entry.rule]}</Text>
+                {entry.details && <Text style={styles.logDetails}>{entry.details}</Text>}
+                <Text style={styles.logDate}>{new Date(entry.appliedAt).toLocaleString('pt-BR')}</Text>
+              </View>
+            ))
+          )}
+        </Card.Content>
+      </Card>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  card: {
+    elevation: 4,
+    marginBottom: 20,
+  },
+  subtitle: {
+    color: '#666',
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  input: {
+    marginTop: 8,
+  },
+  ruleDescription: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  button: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  emptyText: {
+    color: '#666',
+    marginBottom: 16,
+  },
+  divider: {
+    marginVertical: 8,
+  },
+  logTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  logDetails: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  logDate: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+});
+
+export default ProjectRetentionScreen;
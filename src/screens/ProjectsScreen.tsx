@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import { View, StyleSheet, ScrollView, RefreshControl, Alert } from 'react-native';
 import { 
   Text, 
   Card, 
@@ -14,7 +14,8 @@ import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 
 import { useAuth } from '../contexts/AuthContext';
-import { databaseService } from '../database/database';
+import { getRepository } from '../database';
+import { syncService } from '../services/syncService';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { Project } from '../types';
 
@@ -38,7 +39,7 @@ const ProjectsScreen: React.FC = () => {
     try {
       if (!state.user) return;
 
-      const userProjects = await databaseService.getProjectsByUserId(state.user.id);
+      const userProjects = await getRepository().getProjectsByUserId(state.user.id);
       setProjects(userProjects);
     } catch (error) {
       console.error('Error loading projects:', error);
@@ -57,6 +58,29 @@ const ProjectsScreen: React.FC = () => {
     navigation.navigate('CreateProject');
   };
 
+  const handleDeleteProject = (project: Project) => {
+    Alert.alert(
+      'Excluir Projeto',
+      `"${project.name}", seus relatórios e respostas irão para a lixeira, de onde podem ser restaurados pelo Perfil.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Excluir',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await syncService.moveToTrashOffline('project', project.id);
+              loadProjects();
+            } catch (error) {
+              console.error('Error deleting project:', error);
+              Alert.alert('Erro', 'Falha ao excluir o projeto');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const navigateToCreateReport = (projectId: string) => {
     navigation.navigate('CreateReport', { projectId });
   };
@@ -121,6 +145,13 @@ const ProjectsScreen: React.FC = () => {
                     <Chip icon="account" style={styles.metaChip}>
                       Proprietário
                     </Chip>
+                    <Chip
+                      icon="timer-sand"
+                      onPress={() => navigation.navigate('ProjectRetention', { projectId: project.id })}
+                      style={styles.metaChip}
+                    >
+                      {project.settings.retention ? 'Retenção ativa' : 'Retenção'}
+                    </Chip>
                   </View>
 
                   <View style={styles.projectActions}>
@@ -139,6 +170,15 @@ const ProjectsScreen: React.FC = () => {
                     >
                       Ver Relatórios
                     </Button>
+                    <Button
+                      mode="text"
+                      onPress={() => handleDeleteProject(project)}
+                      style={styles.actionButton}
+                      textColor="#F44336"
+                      icon="delete"
+                    >
+                      Excluir
+                    </Button>
                   </View>
                 </Card.Content>
               </Card>
@@ -236,6 +276,8 @@ const styles = StyleSheet.create({
   },
   projectMeta: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 8,
     marginBottom: 16,
   },
   metaChip: {
@@ -14,14 +14,18 @@ import { useNavigation, useRoute } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 
-import { databaseService } from '../database/database';
+import { getRepository } from '../database';
+import { syncService } from '../services/syncService';
 import { useAuth } from '../contexts/AuthContext';
 import { RootStackParamList } from '../navigation/AppNavigator';
-import { Report, Project } from '../types';
+import { Report, Project, AnswerValueCount, ReportSubmission } from '../types';
 
 type ReportDetailScreenNavigationProp = StackNavigationProp<RootStackParamList, 'ReportDetail'>;
 type ReportDetailScreenRouteProp = RouteProp<RootStackParamList, 'ReportDetail'>;
 
+// Respostas consideradas no resumo: rascunhos ficam de fora
+const SUMMARY_STATUSES: ReportSubmission['status'][] = ['submitted', 'approved', 'rejected'];
+
 const ReportDetailScreen: React.FC = () => {
   const navigation = useNavigation<ReportDetailScreenNavigationProp>();
   const route = useRoute<ReportDetailScreenRouteProp>();
@@ -30,6 +34,8 @@ const ReportDetailScreen: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [report, setReport] = useState<Report | null>(null);
   const [project, setProject] = useState<Project | null>(null);
+  // Contagem de cada opção escolhida nos campos de seleção e checkbox
+  const [answerSummary, setAnswerSummary] = useState<Record<string, AnswerValueCount[]>>({});
 
   useEffect(() => {
     loadReportDetails();
@@ -37,15 +43,19 @@ const ReportDetailScreen: React.FC = () => {
 
   const loadReportDetails = async () => {
     try {
-      const reportData = await databaseService.getReportById(route.params.reportId);
+      const reportData = await getRepository().getReportById(route.params.reportId);
       if (reportData) {
         setReport(reportData);
         
         // Carrega dados do projeto usando o ID do usuário atual
         if (state?.user?.id) {
-          const projectData = await databaseService.getProjectsByUserId(state.user.id);
+          const projectData = await getRepository().getProjectsByUserId(state.user.id);
           const reportProject = projectData.find(p => p.id === reportData.projectId);
           setProject(reportProject || null);
+
+          if (reportData.createdBy === state.user.id) {
+            await loadAnswerSummary(reportData);
+          }
         }
       }
     } catch (error) {
@@ -56,6 +66,20 @@ const ReportDetailScreen: React.FC = () => {
     }
   };
 
+  const loadAnswerSummary = async (reportData: Report) => {
+    const summary: Record<string, AnswerValueCount[]> = {};
+    const query = { reportId: reportData.id, status: SUMMARY_STATUSES };
+
+    for (const field of reportData.fields) {
+      if (field.type !== 'select' && field.type !== 'checkbox') continue;
+      summary[field.id] = await getRepository().getAnswerDistribution(query, field.id);
+    }
+    setAnswerSummary(summary);
+  };
+
+  const formatAnswerValue = (value: AnswerValueCount['value']) =>
+    typeof value === 'boolean' ? (value ? 'Sim' : 'Não') : String(value);
+
   const navigateToFillReport = () => {
     if (report) {
       navigation.navigate('FillReport', { reportId: report.id });
@@ -74,7 +98,7 @@ const ReportDetailScreen: React.FC = () => {
   const handleDeleteReport = () => {
     Alert.alert(
       'Excluir Relatório',
-      'Tem certeza que deseja excluir este relatório? Esta ação não pode ser desfeita.',
+      'O relatório e suas respostas irão para a lixeira, de onde podem ser restaurados pelo Perfil.',
       [
         {
           text: 'Cancelar',
@@ -86,8 +110,8 @@ const ReportDetailScreen: React.FC = () => {
           onPress: async () => {
             try {
               if (report) {
-                await databaseService.deleteReport(report.id);
-                Alert.alert('Sucesso', 'Relatório excluído com sucesso!', [
+                await syncService.moveToTrashOffline('report', report.id);
+                Alert.alert('Sucesso', 'Relatório movido para a lixeira.', [
                   {
                     text: 'OK',
                     onPress: () => navigation.goBack(),
@@ -276,6 +300,33 @@ const ReportDetailScreen: React.FC = () => {
         </Card.Content>
       </Card>
 
+      {/* Resumo das respostas (apenas para o criador) */}
+      {Object.keys(answerSummary).length > 0 && (
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="headlineSmall">Resumo das Respostas</Text>
+
+            {report.fields
+              .filter(field => answerSummary[field.id])
+              .map(field => (
+                <View key={field.id} style={styles.summaryField}>
+                  <Text style={styles.summaryLabel}>{field.label}</Text>
+                  {answerSummary[field.id].length === 0 ? (
+                    <Text style={styles.summaryEmpty}>Sem respostas enviadas</Text>
+                  ) : (
+                    answerSummary[field.id].map(item => (
+                      <View key={String(item.value)} style={styles.summaryRow}>
+                        <Text style={styles.summaryValue}>{formatAnswerValue(item.value)}</Text>
+                        <Text style={styles.summaryCount}>{item.count}</Text>
+                      </View>
+                    ))
+                  )}
+                </View>
+              ))}
+          </Card.Content>
+        </Card>
+      )}
+
       {/* Ações */}
       {state.user && (
         <Card style={styles.card}>
@@ -472,6 +523,33 @@ const styles = StyleSheet.create({
   actionButton: {
     marginBottom: 8,
   },
+  summaryField: {
+    marginTop: 16,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  summaryEmpty: {
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 2,
+  },
+  summaryValue: {
+    color: '#666',
+    flex: 1,
+    marginRight: 8,
+  },
+  summaryCount: {
+    fontWeight: 'bold',
+    color: '#2196F3',
+  },
   bottomSpacing: {
     height: 100,
   },
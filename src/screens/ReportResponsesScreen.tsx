@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from "react";
-import { View, StyleSheet, ScrollView, RefreshControl } from "react-native";
+import React, { useState, useEffect, useRef } from "react";
+import { View, StyleSheet, FlatList } from "react-native";
 import {
   Text,
   Card,
@@ -12,9 +12,10 @@ import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
 
 import { useAuth } from "../contexts/AuthContext";
-import { databaseService } from "../database/database";
+import { getRepository } from "../database";
+import { formatFieldValue } from "../services/attachmentService";
 import { RootStackParamList } from "../navigation/AppNavigator";
-import { Report, ReportSubmission, User } from "../types";
+import { Report, ReportField, ReportSubmission, User } from "../types";
 
 type ReportResponsesScreenNavigationProp = StackNavigationProp<
   RootStackParamList,
@@ -33,8 +34,22 @@ const ReportResponsesScreen: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [report, setReport] = useState<Report | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [submissions, setSubmissions] = useState<ReportSubmission[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
   const [users, setUsers] = useState<Record<string, User>>({});
+  // Campos de cada versão do formulário, para exibir cada resposta com a sua
+  const [fieldsByVersion, setFieldsByVersion] = useState<
+    Record<number, ReportField[]>
+  >({});
+
+  // Identifica a carga mais recente: páginas pedidas antes de uma nova carga
+  // (atualização) são descartadas
+  const queryId = useRef(0);
+  // Cursor da página sendo carregada. O onEndReached pode disparar de novo
+  // antes de o estado loadingMore ser atualizado
+  const pendingCursor = useRef<string | null>(null);
 
   const reportId = route.params?.reportId;
 
@@ -45,45 +60,89 @@ const ReportResponsesScreen: React.FC = () => {
   }, [reportId]);
 
   const loadData = async () => {
+    const id = ++queryId.current;
+    pendingCursor.current = null;
+    setLoadingMore(false);
     try {
       if (!reportId) return;
 
       console.log("Loading data for report ID:", reportId);
 
       // Carrega o relatório
-      const reportData = await databaseService.getReportById(reportId);
+      const reportData = await getRepository().getReportById(reportId);
       console.log("Report data loaded:", reportData);
       setReport(reportData);
 
-      // Carrega as submissões
-      const submissionsData = await databaseService.getSubmissionsByReportId(
-        reportId
-      );
-      console.log(
-        "Submissions data loaded:",
-        submissionsData.length,
-        "submissions"
-      );
-      setSubmissions(submissionsData);
-
-      // Carrega informações dos usuários
-      const userIds = [...new Set(submissionsData.map((s) => s.userId))];
-      const usersData: Record<string, User> = {};
-
-      for (const userId of userIds) {
-        const user = await databaseService.getUserById(userId);
-        if (user) {
-          usersData[userId] = user;
-        }
-      }
+      // Carrega a primeira página de submissões; as demais vêm com a rolagem
+      const page = await getRepository().getSubmissionsPage(reportId);
+      if (id !== queryId.current) return;
+      setSubmissions(page.items);
+      setNextCursor(page.nextCursor);
+      setTotal(await getRepository().countSubmissionsByReportId(reportId));
+
+      const definitions = await getRepository().getReportDefinitions(reportId);
+      const versionsData: Record<number, ReportField[]> = {};
+      definitions.forEach((definition) => {
+        versionsData[definition.version] = definition.fields;
+      });
+      setFieldsByVersion(versionsData);
 
-      setUsers(usersData);
+      setUsers(await loadUsers(page.items, {}));
     } catch (error) {
       console.error("Error loading report responses:", error);
     } finally {
-      setLoading(false);
-      setRefreshing(false);
+      if (id === queryId.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    }
+  };
+
+  const loadNextPage = async () => {
+    if (!reportId || !nextCursor || pendingCursor.current) return;
+
+    const id = queryId.current;
+    pendingCursor.current = nextCursor;
+    setLoadingMore(true);
+    try {
+      const page = await getRepository().getSubmissionsPage(reportId, {
+        cursor: nextCursor,
+      });
+      if (id !== queryId.current) return;
+
+      setSubmissions((prev) => {
+        const known = new Set(prev.map((submission) => submission.id));
+        return [...prev, ...page.items.filter((submission) => !known.has(submission.id))];
+      });
+      setNextCursor(page.nextCursor);
+      setUsers(await loadUsers(page.items, users));
+    } catch (error) {
+      console.error("Error loading more responses:", error);
+    } finally {
+      if (id === queryId.current) {
+        pendingCursor.current = null;
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  // Carrega informações dos autores da página que ainda não são conhecidos
+  const loadUsers = async (
+    pageSubmissions: ReportSubmission[],
+    known: Record<string, User>
+  ) => {
+    const usersData: Record<string, User> = { ...known };
+    const userIds = [...new Set(pageSubmissions.map((s) => s.userId))];
+
+    for (const userId of userIds) {
+      if (usersData[userId]) continue;
+      const user = await getRepository().getUserById(userId);
+      if (user) {
+        usersData[userId] = user;
+      }
     }
+
+    return usersData;
   };
 
   const onRefresh = () => {
@@ -130,15 +189,7 @@ const ReportResponsesScreen: React.FC = () => {
     value: any,
     fieldLabel: string
   ) => {
-    if (value === null || value === undefined || value === "") {
-      return <Text style={styles.fieldValue}>Não preenchido</Text>;
-    }
-
-    if (typeof value === "boolean") {
-      return <Text style={styles.fieldValue}>{value ? "Sim" : "Não"}</Text>;
-    }
-
-    return <Text style={styles.fieldValue}>{String(value)}</Text>;
+    return <Text style={styles.fieldValue}>{formatFieldValue(value)}</Text>;
   };
 
   if (loading) {
@@ -161,130 +212,165 @@ const ReportResponsesScreen: React.FC = () => {
     );
   }
 
+  const renderSubmission = (submission: ReportSubmission) => (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.submissionHeader}>
+          <View style={styles.submissionInfo}>
+            <Text style={styles.userName}>
+              {users[submission.userId]?.name || "Usuário desconhecido"}
+            </Text>
+            <Text style={styles.userEmail}>
+              {users[submission.userId]?.email || submission.userId}
+            </Text>
+          </View>
+          <Chip
+            style={[
+              styles.statusChip,
+              { backgroundColor: getStatusColor(submission.status) },
+            ]}
+            textStyle={styles.statusText}
+          >
+            {getStatusText(submission.status)}
+          </Chip>
+        </View>
+
+        <Text style={styles.dateText}>
+          {submission.submittedAt
+            ? `Enviado em: ${formatDate(submission.submittedAt)}`
+            : `Última modificação: ${formatDate(
+                submission.lastModified
+              )}`}
+        </Text>
+
+        <Divider style={styles.divider} />
+
+        <Text style={styles.responsesTitle}>
+          Respostas
+          {(submission.formVersion ?? 1) !== (report.formVersion ?? 1)
+            ? ` (versão ${submission.formVersion ?? 1} do formulário)`
+            : ""}
+          :
+        </Text>
+
+        {(
+          fieldsByVersion[submission.formVersion ?? 1] || report.fields
+        ).map((field) => (
+          <View key={field.id} style={styles.fieldContainer}>
+            <Text style={styles.fieldLabel}>{field.label}:</Text>
+            {renderFieldValue(
+              field.id,
+              submission.data[field.id],
+              field.label
+            )}
+          </View>
+        ))}
+
+        {submission.status === "submitted" &&
+          state.user?.id === report.createdBy && (
+            <View style={styles.actionButtons}>
+              <Button
+                mode="contained"
+                onPress={() => {
+                  // TODO: Implementar aprovação
+                  console.log("Aprovar submissão:", submission.id);
+                }}
+                style={[
+                  styles.actionButton,
+                  { backgroundColor: "#4CAF50" },
+                ]}
+                compact
+              >
+                Aprovar
+              </Button>
+              <Button
+                mode="contained"
+                onPress={() => {
+                  // TODO: Implementar rejeição
+                  console.log("Rejeitar submissão:", submission.id);
+                }}
+                style={[
+                  styles.actionButton,
+                  { backgroundColor: "#F44336" },
+                ]}
+                compact
+              >
+                Rejeitar
+              </Button>
+            </View>
+          )}
+
+        {submission.userId === state.user?.id && (
+          <Button
+            mode="outlined"
+            onPress={() =>
+              navigation.navigate("FillReport", {
+                reportId: report.id,
+                submissionId: submission.id,
+              })
+            }
+            style={styles.openButton}
+            icon={submission.status === "draft" ? "pencil" : "eye"}
+            compact
+          >
+            {submission.status === "draft"
+              ? "Continuar preenchimento"
+              : "Abrir minha resposta"}
+          </Button>
+        )}
+      </Card.Content>
+    </Card>
+  );
+
   return (
-    <ScrollView
+    <FlatList
       style={styles.container}
-      refreshControl={
-        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
-      }
-    >
-      <Card style={styles.headerCard}>
+      contentContainerStyle={styles.content}
+      data={submissions}
+      keyExtractor={(submission) => submission.id}
+      renderItem={({ item }) => renderSubmission(item)}
+      refreshing={refreshing}
+      onRefresh={onRefresh}
+      onEndReached={loadNextPage}
+      onEndReachedThreshold={0.5}
+      ListHeaderComponent={
+        <Card style={styles.headerCard}>
           <Card.Content>
             <Text variant="headlineSmall">{report.title}</Text>
             <Text style={styles.description}>{report.description}</Text>
             <Text style={styles.statsText}>
-              Total de respostas: {submissions.length}
-            </Text>
-          </Card.Content>
-        </Card>
-
-      {submissions.length === 0 ? (
-        <Card style={styles.card}>
-          <Card.Content>
-            <Text style={styles.noResponsesText}>
-              Nenhuma resposta foi enviada ainda.
-            </Text>
-            <Text style={styles.noResponsesSubtext}>
-              Para visualizar respostas, os usuários precisam primeiro preencher
-              este relatório.
+              Total de respostas: {total}
             </Text>
-            <Button
-              mode="outlined"
-              onPress={() =>
-                navigation.navigate("FillReport", { reportId: report.id })
-              }
-              style={styles.fillReportButton}
-              icon="edit"
-            >
-              Preencher este relatório
-            </Button>
           </Card.Content>
         </Card>
-      ) : (
-        submissions.map((submission) => (
-          <Card key={submission.id} style={styles.card}>
-            <Card.Content>
-              <View style={styles.submissionHeader}>
-                <View style={styles.submissionInfo}>
-                  <Text style={styles.userName}>
-                    {users[submission.userId]?.name || "Usuário desconhecido"}
-                  </Text>
-                  <Text style={styles.userEmail}>
-                    {users[submission.userId]?.email || submission.userId}
-                  </Text>
-                </View>
-                <Chip
-                  style={[
-                    styles.statusChip,
-                    { backgroundColor: getStatusColor(submission.status) },
-                  ]}
-                  textStyle={styles.statusText}
-                >
-                  {getStatusText(submission.status)}
-                </Chip>
-              </View>
-
-              <Text style={styles.dateText}>
-                {submission.submittedAt
-                  ? `Enviado em: ${formatDate(submission.submittedAt)}`
-                  : `Última modificação: ${formatDate(
-                      submission.lastModified
-                    )}`}
-              </Text>
-
-              <Divider style={styles.divider} />
-
-              <Text style={styles.responsesTitle}>Respostas:</Text>
-
-              {report.fields.map((field) => (
-                <View key={field.id} style={styles.fieldContainer}>
-                  <Text style={styles.fieldLabel}>{field.label}:</Text>
-                  {renderFieldValue(
-                    field.id,
-                    submission.data[field.id],
-                    field.label
-                  )}
-                </View>
-              ))}
-
-              {submission.status === "submitted" &&
-                state.user?.id === report.createdBy && (
-                  <View style={styles.actionButtons}>
-                    <Button
-                      mode="contained"
-                      onPress={() => {
-                        // TODO: Implementar aprovação
-                        console.log("Aprovar submissão:", submission.id);
-                      }}
-                      style={[
-                        styles.actionButton,
-                        { backgroundColor: "#4CAF50" },
-                      ]}
-                      compact
-                    >
-                      Aprovar
-                    </Button>
-                    <Button
-                      mode="contained"
-                      onPress={() => {
-                        // TODO: Implementar rejeição
-                        console.log("Rejeitar submissão:", submission.id);
-                      }}
-                      style={[
-                        styles.actionButton,
-                        { backgroundColor: "#F44336" },
-                      ]}
-                      compact
-                    >
-                      Rejeitar
-                    </Button>
-                  </View>
-                )}
-            </Card.Content>
-          </Card>
-        ))
-      )}
-    </ScrollView>
+      }
+      ListEmptyComponent={
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text style={styles.noResponsesText}>
+            Nenhuma resposta foi enviada ainda.
+          </Text>
+          <Text style={styles.noResponsesSubtext}>
+            Para visualizar respostas, os usuários precisam primeiro preencher
+            este relatório.
+          </Text>
+          <Button
+            mode="outlined"
+            onPress={() =>
+              navigation.navigate("FillReport", { reportId: report.id })
+            }
+            style={styles.fillReportButton}
+            icon="edit"
+          >
+            Preencher este relatório
+          </Button>
+        </Card.Content>
+      </Card>
+      }
+      ListFooterComponent={
+        loadingMore ? <ActivityIndicator style={styles.loadingMore} /> : null
+      }
+    />
   );
 };
 
@@ -292,8 +378,13 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: "#f5f5f5",
+  },
+  content: {
     padding: 16,
   },
+  loadingMore: {
+    marginBottom: 16,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: "center",
@@ -318,6 +409,10 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     textAlign: "center",
   },
+  openButton: {
+    marginTop: 12,
+    alignSelf: "flex-start",
+  },
   headerCard: {
     marginBottom: 16,
     elevation: 4,
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, StyleSheet, FlatList } from 'react-native';
 import { 
   Text, 
   Card, 
@@ -7,16 +7,18 @@ import {
   FAB,
   ActivityIndicator,
   Chip,
-  Searchbar
+  Searchbar,
+  IconButton
 } from 'react-native-paper';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 
 import { useAuth } from '../contexts/AuthContext';
-import { databaseService } from '../database/database';
+import { getRepository } from '../database';
 import { RootStackParamList } from '../navigation/AppNavigator';
-import { Report, Project } from '../types';
+import ReportFilterModal from '../components/ReportFilterModal';
+import { Report, Project, ReportFilter, User } from '../types';
 
 type ReportsScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -26,86 +28,155 @@ const ReportsScreen: React.FC = () => {
   
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [reports, setReports] = useState<Report[]>([]);
-  const [filteredReports, setFilteredReports] = useState<Report[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [projects, setProjects] = useState<Project[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [filter, setFilter] = useState<ReportFilter>({});
+  const [filterVisible, setFilterVisible] = useState(false);
+  const [owners, setOwners] = useState<User[]>([]);
+  // Identifica a consulta mais recente; páginas de consultas substituídas
+  // por outra (nova busca ou filtro) são descartadas
+  const queryId = useRef(0);
+  // Busca e filtro atuais: o callback de foco é criado só na montagem e,
+  // sem a ref, recarregaria a lista com os valores iniciais
+  const query = useRef({ searchQuery, filter });
+  query.current = { searchQuery, filter };
 
   useFocusEffect(
     React.useCallback(() => {
-      loadReports();
+      loadProjects();
+      loadFirstPage();
     }, [])
   );
 
   useEffect(() => {
-    filterReports();
-  }, [searchQuery, reports]);
+    loadFirstPage();
+  }, [searchQuery, filter]);
 
-  const loadReports = async () => {
+  const loadProjects = async () => {
     try {
       if (!state.user) return;
 
-      // Carrega projetos do usuário
-      const userProjects = await databaseService.getProjectsByUserId(state.user.id);
-      setProjects(userProjects);
+      const userProjects = await getRepository().getProjectsByUserId(state.user.id);
+      setProjects(prev => mergeById(prev, userProjects));
+    } catch (error) {
+      console.error('Error loading projects:', error);
+    }
+  };
 
-      // Carrega todos os relatórios dos projetos do usuário
-      const ownedReports: Report[] = [];
-      for (const project of userProjects) {
-        const projectReports = await databaseService.getReportsByProjectId(project.id);
-        ownedReports.push(...projectReports);
-      }
+  // Filtros, permissão e busca textual (título, descrição e rótulos dos
+  // campos) são resolvidos na consulta; com busca, a ordem é a de relevância
+  const fetchPage = async (cursor: string | null) => {
+    const { searchQuery, filter } = query.current;
+    const searchTerm = searchQuery.trim();
+    return getRepository().queryReportsPage(
+      {
+        ...filter,
+        searchTerm: searchTerm || undefined,
+        visibleTo: state.user!.id,
+      },
+      { cursor }
+    );
+  };
+
+  const loadFirstPage = async () => {
+    if (!state.user) return;
+
+    const id = ++queryId.current;
+    try {
+      const page = await fetchPage(null);
+      if (id !== queryId.current) return;
 
-      // Carrega todos os relatórios onde o usuário tem permissão para preencher
-      const allReports = await databaseService.getAllReports();
-      const accessibleReports = allReports.filter(report => {
-        // Inclui se o usuário é o criador
-        if (report.createdBy === state.user.id) return true;
-        
-        // Inclui se o relatório é público
-        if (report.permissions.canFill.includes('*')) return true;
-        
-        // Inclui se o usuário está na lista de permissões
-        if (report.permissions.canFill.includes(state.user.email)) return true;
-        
-        return false;
-      });
-      
-      // Remove duplicatas e ordena por data de criação (mais recentes primeiro)
-      const uniqueReports = Array.from(
-        new Map(accessibleReports.map(report => [report.id, report])).values()
-      );
-      
-      const sortedReports = uniqueReports.sort((a, b) => 
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      );
-      
-      setReports(sortedReports);
+      setReports(page.items);
+      setNextCursor(page.nextCursor);
+      await loadRelated(page.items);
     } catch (error) {
       console.error('Error loading reports:', error);
     } finally {
-      setLoading(false);
-      setRefreshing(false);
+      if (id === queryId.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
     }
   };
 
-  const filterReports = () => {
-    if (!searchQuery.trim()) {
-      setFilteredReports(reports);
-      return;
+  const loadNextPage = async () => {
+    if (!nextCursor || loadingMore || !state.user) return;
+
+    const id = queryId.current;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(nextCursor);
+      if (id !== queryId.current) return;
+
+      setReports(prev => mergeById(prev, page.items));
+      setNextCursor(page.nextCursor);
+      await loadRelated(page.items);
+    } catch (error) {
+      console.error('Error loading more reports:', error);
+    } finally {
+      setLoadingMore(false);
     }
+  };
 
-    const filtered = reports.filter(report =>
-      report.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (report.description && report.description.toLowerCase().includes(searchQuery.toLowerCase()))
-    );
-    
-    setFilteredReports(filtered);
+  // Projetos de relatórios compartilhados (podem ser de outros usuários) e
+  // autores, oferecidos no filtro por responsável, à medida que aparecem
+  const loadRelated = async (pageReports: Report[]) => {
+    const knownProjectIds = new Set(projects.map(p => p.id));
+    const newProjects: Project[] = [];
+    for (const projectId of new Set(pageReports.map(r => r.projectId))) {
+      if (knownProjectIds.has(projectId)) continue;
+      const project = await getRepository().getProjectById(projectId);
+      if (project) {
+        newProjects.push(project);
+      }
+    }
+
+    const knownOwnerIds = new Set(owners.map(o => o.id));
+    const newOwners: User[] = [];
+    for (const ownerId of new Set(pageReports.map(r => r.createdBy))) {
+      if (knownOwnerIds.has(ownerId)) continue;
+      const owner = await getRepository().getUserById(ownerId);
+      if (owner) {
+        newOwners.push(owner);
+      }
+    }
+
+    if (newProjects.length > 0) setProjects(prev => mergeById(prev, newProjects));
+    if (newOwners.length > 0) setOwners(prev => mergeById(prev, newOwners));
   };
 
+  const mergeById = <T extends { id: string }>(current: T[], added: T[]): T[] => {
+    const known = new Set(current.map(item => item.id));
+    return [...current, ...added.filter(item => !known.has(item.id))];
+  };
+
+  const hasActiveFilter = (current: ReportFilter) =>
+    !!(current.status?.length || current.dateRange || current.assignedTo?.length || current.projectId);
+
+  const applyFilter = (next: ReportFilter) => {
+    setFilter(next);
+    setFilterVisible(false);
+  };
+
+  const removeFilter = (change: Partial<ReportFilter>) => {
+    setFilter(prev => ({ ...prev, ...change }));
+  };
+
+  // Lista sem o valor removido; vazia equivale a não filtrar
+  const without = <T,>(list: T[], value: T): T[] | undefined => {
+    const rest = list.filter(item => item !== value);
+    return rest.length > 0 ? rest : undefined;
+  };
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('pt-BR');
+
   const onRefresh = () => {
     setRefreshing(true);
-    loadReports();
+    loadProjects();
+    loadFirstPage();
   };
 
   const navigateToCreateReport = () => {
@@ -143,6 +214,66 @@ const ReportsScreen: React.FC = () => {
     }
   };
 
+  const isFiltering = searchQuery.trim() !== '' || hasActiveFilter(filter);
+
+  const renderReport = (report: Report) => (
+    <Card style={styles.reportCard}>
+      <Card.Content>
+        <View style={styles.reportHeader}>
+          <View style={styles.reportInfo}>
+            <Text variant="titleLarge" style={styles.reportTitle}>{report.title}</Text>
+            <Text style={styles.projectName}>
+              {getProjectName(report.projectId)}
+            </Text>
+            <Text style={styles.reportDescription} numberOfLines={2}>
+              {report.description || 'Sem descrição'}
+            </Text>
+          </View>
+          <Chip 
+            style={{ backgroundColor: getStatusColor(report.status) }}
+            textStyle={{ color: '#fff' }}
+          >
+            {getStatusText(report.status)}
+          </Chip>
+        </View>
+
+        <View style={styles.reportMeta}>
+          <View style={styles.metaItem}>
+            <Ionicons name="calendar-outline" size={16} color="#666" />
+            <Text style={styles.metaText}>
+              {new Date(report.createdAt).toLocaleDateString('pt-BR')}
+            </Text>
+          </View>
+          <View style={styles.metaItem}>
+            <Ionicons name="list-outline" size={16} color="#666" />
+            <Text style={styles.metaText}>
+              {report.fields.length} campos
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.reportActions}>
+          <Button
+            mode="contained"
+            onPress={() => navigateToFillReport(report.id)}
+            style={styles.actionButton}
+            icon="edit"
+            disabled={report.status !== 'active'}
+          >
+            Preencher
+          </Button>
+          <Button
+            mode="outlined"
+            onPress={() => navigateToReportDetail(report.id)}
+            style={styles.actionButton}
+          >
+            Detalhes
+          </Button>
+        </View>
+      </Card.Content>
+    </Card>
+  );
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -161,27 +292,75 @@ const ReportsScreen: React.FC = () => {
           value={searchQuery}
           style={styles.searchbar}
         />
+        <IconButton
+          icon={hasActiveFilter(filter) ? 'filter' : 'filter-outline'}
+          iconColor={hasActiveFilter(filter) ? '#2196F3' : '#666'}
+          onPress={() => setFilterVisible(true)}
+        />
       </View>
 
-      <ScrollView 
+      {hasActiveFilter(filter) && (
+        <View style={styles.activeFilters}>
+          {filter.status?.map(status => (
+            <Chip
+              key={`status:${status}`}
+              onClose={() => removeFilter({ status: without(filter.status!, status) })}
+              style={styles.filterChip}
+            >
+              Status: {getStatusText(status)}
+            </Chip>
+          ))}
+          {filter.projectId && (
+            <Chip
+              onClose={() => removeFilter({ projectId: undefined })}
+              style={styles.filterChip}
+            >
+              Projeto: {getProjectName(filter.projectId)}
+            </Chip>
+          )}
+          {filter.dateRange && (
+            <Chip
+              onClose={() => removeFilter({ dateRange: undefined })}
+              style={styles.filterChip}
+            >
+              Período: {formatDate(filter.dateRange.start)} a {formatDate(filter.dateRange.end)}
+            </Chip>
+          )}
+          {filter.assignedTo?.map(userId => (
+            <Chip
+              key={`owner:${userId}`}
+              onClose={() => removeFilter({ assignedTo: without(filter.assignedTo!, userId) })}
+              style={styles.filterChip}
+            >
+              Responsável: {owners.find(owner => owner.id === userId)?.name || 'Desconhecido'}
+            </Chip>
+          ))}
+        </View>
+      )}
+
+      <FlatList
         style={styles.scrollView}
-        refreshControl={
-          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
-        }
-      >
-        {filteredReports.length === 0 ? (
+        contentContainerStyle={styles.reportsList}
+        data={reports}
+        keyExtractor={report => report.id}
+        renderItem={({ item }) => renderReport(item)}
+        refreshing={refreshing}
+        onRefresh={onRefresh}
+        onEndReached={loadNextPage}
+        onEndReachedThreshold={0.5}
+        ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <Ionicons name="document-outline" size={80} color="#ccc" />
             <Text style={styles.emptyTitle}>
-              {reports.length === 0 ? 'Nenhum relatório encontrado' : 'Nenhum resultado encontrado'}
+              {isFiltering ? 'Nenhum resultado encontrado' : 'Nenhum relatório encontrado'}
             </Text>
             <Text style={styles.emptyDescription}>
-              {reports.length === 0 
-                ? 'Crie seu primeiro relatório para começar a coletar dados'
-                : 'Tente ajustar sua busca ou limpar o filtro'
+              {isFiltering
+                ? 'Tente ajustar sua busca ou limpar o filtro'
+                : 'Crie seu primeiro relatório para começar a coletar dados'
               }
             </Text>
-            {reports.length === 0 && (
+            {!isFiltering && (
               <Button
                 mode="contained"
                 onPress={navigateToCreateReport}
@@ -192,70 +371,13 @@ const ReportsScreen: React.FC = () => {
               </Button>
             )}
           </View>
-        ) : (
-          <View style={styles.reportsList}>
-            {filteredReports.map((report) => (
-              <Card key={report.id} style={styles.reportCard}>
-                <Card.Content>
-                  <View style={styles.reportHeader}>
-                    <View style={styles.reportInfo}>
-                      <Text variant="titleLarge" style={styles.reportTitle}>{report.title}</Text>
-                      <Text style={styles.projectName}>
-                        {getProjectName(report.projectId)}
-                      </Text>
-                      <Text style={styles.reportDescription} numberOfLines={2}>
-                        {report.description || 'Sem descrição'}
-                      </Text>
-                    </View>
-                    <Chip 
-                      style={{ backgroundColor: getStatusColor(report.status) }}
-                      textStyle={{ color: '#fff' }}
-                    >
-                      {getStatusText(report.status)}
-                    </Chip>
-                  </View>
-
-                  <View style={styles.reportMeta}>
-                    <View style={styles.metaItem}>
-                      <Ionicons name="calendar-outline" size={16} color="#666" />
-                      <Text style={styles.metaText}>
-                        {new Date(report.createdAt).toLocaleDateString('pt-BR')}
-                      </Text>
-                    </View>
-                    <View style={styles.metaItem}>
-                      <Ionicons name="list-outline" size={16} color="#666" />
-                      <Text style={styles.metaText}>
-                        {report.fields.length} campos
-                      </Text>
-                    </View>
-                  </View>
-
-                  <View style={styles.reportActions}>
-                    <Button
-                      mode="contained"
-                      onPress={() => navigateToFillReport(report.id)}
-                      style={styles.actionButton}
-                      icon="edit"
-                      disabled={report.status !== 'active'}
-                    >
-                      Preencher
-                    </Button>
-                    <Button
-                      mode="outlined"
-                      onPress={() => navigateToReportDetail(report.id)}
-                      style={styles.actionButton}
-                    >
-                      Detalhes
-                    </Button>
-                  </View>
-                </Card.Content>
-              </Card>
-            ))}
+        }
+        ListFooterComponent={
+          <View style={styles.bottomSpacing}>
+            {loadingMore && <ActivityIndicator color="#2196F3" />}
           </View>
-        )}
-
-        <View style={styles.bottomSpacing} />
-      </ScrollView>
+        }
+      />
 
       <FAB
         style={styles.fab}
@@ -263,6 +385,15 @@ const ReportsScreen: React.FC = () => {
         onPress={navigateToCreateReport}
         label="Novo Relatório"
       />
+
+      <ReportFilterModal
+        visible={filterVisible}
+        filter={filter}
+        projects={projects}
+        owners={owners}
+        onDismiss={() => setFilterVisible(false)}
+        onApply={applyFilter}
+      />
     </View>
   );
 };
@@ -273,14 +404,28 @@ const styles = StyleSheet.create({
     backgroundColor: '#f5f5f5',
   },
   searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
     padding: 16,
     backgroundColor: '#fff',
     elevation: 2,
   },
   searchbar: {
+    flex: 1,
     elevation: 0,
     backgroundColor: '#f5f5f5',
   },
+  activeFilters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#fff',
+  },
+  filterChip: {
+    backgroundColor: '#E3F2FD',
+  },
   scrollView: {
     flex: 1,
   },
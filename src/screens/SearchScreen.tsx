@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import {
+  Text,
+  Card,
+  Chip,
+  Searchbar,
+  ActivityIndicator
+} from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+
+import { useAuth } from '../contexts/AuthContext';
+import { searchService } from '../services/searchService';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { SearchResult } from '../types';
+
+type SearchScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Search'>;
+
+const SearchScreen: React.FC = () => {
+  const navigation = useNavigation<SearchScreenNavigationProp>();
+  const { state } = useAuth();
+
+  const [query, setQuery] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [results, setResults] = useState<SearchResult[]>([]);
+
+  useEffect(() => {
+    if (!query.trim() || !state.user) {
+      setResults([]);
+      return;
+    }
+
+    // Descarta o resultado de buscas que já foram substituídas por outra
+    let cancelled = false;
+    setSearching(true);
+    searchService.search(query, state.user)
+      .then(found => {
+        if (!cancelled) setResults(found);
+      })
+      .catch(error => {
+        console.error('Error searching:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setSearching(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, state.user?.id]);
+
+  const openResult = (result: SearchResult) => {
+    if (result.type === 'report') {
+      navigation.navigate('ReportDetail', { reportId: result.reportId });
+    } else {
+      navigation.navigate('FillReport', { reportId: result.reportId, submissionId: result.id });
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchContainer}>
+        <Searchbar
+          placeholder="Buscar em relatórios e respostas..."
+          onChangeText={setQuery}
+          value={query}
+          style={styles.searchbar}
+          autoFocus
+        />
+      </View>
+
+      <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
+        {searching && results.length === 0 ? (
+          <ActivityIndicator style={styles.loading} color="#2196F3" />
+        ) : results.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="search-outline" size={80} color="#ccc" />
+            <Text style={styles.emptyTitle}>
+              {query.trim() ? 'Nenhum resultado encontrado' : 'Busque por título, campo ou resposta'}
+            </Text>
+          </View>
+        ) : (
+          results.map(result => (
+            <Card
+              key={`${result.type}:${result.id}`}
+              style={styles.card}
+              onPress={() => openResult(result)}
+            >
+              <Card.Content>
+                <View style={styles.resultHeader}>
+                  <Text style={styles.resultTitle} numberOfLines={1}>
+                    {result.title}
+                  </Text>
+                  <Chip
+                    style={result.type === 'report' ? styles.reportChip : styles.submissionChip}
+                    textStyle={{ color: '#fff' }}
+                  >
+                    {result.type === 'report' ? 'Relatório' : 'Resposta'}
+                  </Chip>
+                </View>
+                <Text style={styles.snippet} numberOfLines={3}>
+                  {result.snippet.map((part, index) => (
+                    <Text key={index} style={part.highlighted ? styles.highlight : undefined}>
+                      {part.text}
+                    </Text>
+                  ))}
+                </Text>
+              </Card.Content>
+            </Card>
+          ))
+        )}
+
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  searchContainer: {
+    padding: 16,
+    backgroundColor: '#fff',
+    elevation: 2,
+  },
+  searchbar: {
+    elevation: 0,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollView: {
+    flex: 1,
+    padding: 16,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+    marginTop: 40,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    color: '#999',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  card: {
+    marginBottom: 12,
+    elevation: 2,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    flex: 1,
+    marginRight: 8,
+  },
+  reportChip: {
+    backgroundColor: '#2196F3',
+  },
+  submissionChip: {
+    backgroundColor: '#4CAF50',
+  },
+  snippet: {
+    color: '#666',
+    lineHeight: 20,
+  },
+  highlight: {
+    fontWeight: 'bold',
+    color: '#333',
+    backgroundColor: '#FFF59D',
+  },
+  bottomSpacing: {
+    height: 20,
+  },
+});
+
+export default SearchScreen;
@@ -0,0 +1,356 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Alert } from 'react-native';
+import {
+  Text,
+  Card,
+  Button,
+  ActivityIndicator,
+  Chip,
+  Divider
+} from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+
+import { getRepository } from '../database';
+import { syncService } from '../services/syncService';
+import { versionService } from '../services/versionService';
+import { formatFieldValue } from '../services/attachmentService';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { Report, ReportSubmission, ReportVersion, User } from '../types';
+
+type SubmissionHistoryScreenNavigationProp = StackNavigationProp<RootStackParamList, 'SubmissionHistory'>;
+type SubmissionHistoryScreenRouteProp = RouteProp<RootStackParamList, 'SubmissionHistory'>;
+
+const SubmissionHistoryScreen: React.FC = () => {
+  const navigation = useNavigation<SubmissionHistoryScreenNavigationProp>();
+  const route = useRoute<SubmissionHistoryScreenRouteProp>();
+
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [submission, setSubmission] = useState<ReportSubmission | null>(null);
+  const [report, setReport] = useState<Report | null>(null);
+  const [versions, setVersions] = useState<ReportVersion[]>([]);
+  const [users, setUsers] = useState<Record<string, User>>({});
+  // Ids das (no máximo duas) versões comparadas
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const { submissionId } = route.params;
+
+  useEffect(() => {
+    loadHistory();
+  }, [submissionId]);
+
+  const loadHistory = async () => {
+    try {
+      const submissionData = await getRepository().getSubmissionById(submissionId);
+      setSubmission(submissionData);
+      if (!submissionData) return;
+
+      setReport(await getRepository().getReportById(submissionData.reportId));
+
+      const history = await versionService.getHistory(submissionId);
+      setVersions(history);
+      // Por padrão compara as duas versões mais recentes
+      setSelected(history.slice(0, 2).map(v => v.id));
+
+      const authorIds = [...new Set(history.map(v => v.changedBy))];
+      const authors: Record<string, User> = {};
+      for (const authorId of authorIds) {
+        const user = await getRepository().getUserById(authorId);
+        if (user) {
+          authors[authorId] = user;
+        }
+      }
+      setUsers(authors);
+    } catch (error) {
+      console.error('Error loading submission history:', error);
+      Alert.alert('Erro', 'Falha ao carregar o histórico');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadHistory();
+  };
+
+  const toggleSelected = (versionId: string) => {
+    setSelected(prev => {
+      if (prev.includes(versionId)) {
+        return prev.filter(id => id !== versionId);
+      }
+      // Mantém a última escolha e a nova
+      return [...prev.slice(-1), versionId];
+    });
+  };
+
+  const handleRestore = (version: ReportVersion) => {
+    if (!submission) return;
+
+    Alert.alert(
+      'Restaurar versão',
+      `Os dados da resposta voltarão aos da versão ${version.version}. Uma nova versão será criada.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Restaurar',
+          onPress: async () => {
+            try {
+              await syncService.restoreSubmissionVersion(submission.id, version.id);
+              navigation.goBack();
+            } catch (error) {
+              console.error('Error restoring version:', error);
+              Alert.alert('Erro', 'Falha ao restaurar a versão');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderDiff = () => {
+    const compared = versions.filter(v => selected.includes(v.id));
+
+    if (compared.length < 2) {
+      return (
+        <Text style={styles.hintText}>
+          Selecione duas versões para ver as diferenças.
+        </Text>
+      );
+    }
+
+    const [newer, older] = compared[0].version > compared[1].version
+      ? [compared[0], compared[1]]
+      : [compared[1], compared[0]];
+    const diffs = versionService.diffVersions(older, newer, report?.fields || []);
+
+    return (
+      <>
+        <Text style={styles.diffTitle}>
+          Versão {older.version} → versão {newer.version}
+        </Text>
+        {diffs.length === 0 ? (
+          <Text style={styles.hintText}>Nenhuma diferença nos campos.</Text>
+        ) : (
+          diffs.map(diff => (
+            <View key={diff.fieldId} style={styles.diffRow}>
+              <Text style={styles.fieldLabel}>{diff.label}</Text>
+              <Text style={styles.beforeValue}>{formatFieldValue(diff.before)}</Text>
+              <Text style={styles.afterValue}>{formatFieldValue(diff.after)}</Text>
+            </View>
+          ))
+        )}
+      </>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#2196F3" />
+        <Text style={styles.loadingText}>Carregando histórico...</Text>
+      </View>
+    );
+  }
+
+  if (!submission) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Ionicons name="alert-circle-outline" size={80} color="#F44336" />
+        <Text style={styles.emptyTitle}>Resposta não encontrada</Text>
+        <Button mode="contained" onPress={() => navigation.goBack()}>
+          Voltar
+        </Button>
+      </View>
+    );
+  }
+
+  const canRestore = submission.status === 'draft';
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+      }
+    >
+      {versions.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="time-outline" size={80} color="#9E9E9E" />
+          <Text style={styles.emptyTitle}>Nenhuma versão registrada</Text>
+        </View>
+      ) : (
+        <>
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium">Comparação</Text>
+              <Divider style={styles.divider} />
+              {renderDiff()}
+            </Card.Content>
+          </Card>
+
+          {!canRestore && (
+            <Text style={styles.hintText}>
+              Reabra a resposta para restaurar uma versão anterior.
+            </Text>
+          )}
+
+          {versions.map((version, index) => (
+            <Card key={version.id} style={styles.card}>
+              <Card.Content>
+                <View style={styles.versionHeader}>
+                  <Text style={styles.versionTitle}>Versão {version.version}</Text>
+                  {index === 0 && (
+                    <Chip style={styles.currentChip} textStyle={{ color: '#fff' }}>
+                      Atual
+                    </Chip>
+                  )}
+                </View>
+                <Text style={styles.metaText}>
+                  {users[version.changedBy]?.name || version.changedBy} ·{' '}
+                  {new Date(version.changedAt).toLocaleString('pt-BR')}
+                </Text>
+                <Text style={styles.changesText}>{version.changes}</Text>
+
+                <View style={styles.actions}>
+                  <Button
+                    mode={selected.includes(version.id) ? 'contained' : 'outlined'}
+                    onPress={() => toggleSelected(version.id)}
+                    style={styles.actionButton}
+                    icon="compare-horizontal"
+                    compact
+                  >
+                    Comparar
+                  </Button>
+                  {canRestore && index > 0 && (
+                    <Button
+                      mode="outlined"
+                      onPress={() => handleRestore(version)}
+                      style={styles.actionButton}
+                      icon="restore"
+                      compact
+                    >
+                      Restaurar
+                    </Button>
+                  )}
+                </View>
+              </Card.Content>
+            </Card>
+          ))}
+        </>
+      )}
+
+      <View style={styles.bottomSpacing} />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 16,
+    color: '#666',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+    marginTop: 60,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#666',
+    marginTop: 20,
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  card: {
+    marginBottom: 16,
+    elevation: 2,
+  },
+  divider: {
+    marginVertical: 8,
+  },
+  hintText: {
+    color: '#999',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  diffTitle: {
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  diffRow: {
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  beforeValue: {
+    color: '#C62828',
+    backgroundColor: '#FFEBEE',
+    padding: 6,
+    borderRadius: 4,
+    marginBottom: 4,
+  },
+  afterValue: {
+    color: '#2E7D32',
+    backgroundColor: '#E8F5E9',
+    padding: 6,
+    borderRadius: 4,
+  },
+  versionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  versionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  currentChip: {
+    backgroundColor: '#4CAF50',
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 8,
+  },
+  changesText: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  bottomSpacing: {
+    height: 20,
+  },
+});
+
+export default SubmissionHistoryScreen;
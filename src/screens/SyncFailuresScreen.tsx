@@ -0,0 +1,292 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Alert } from 'react-native';
+import {
+  Text,
+  Card,
+  Button,
+  ActivityIndicator,
+  Chip
+} from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+
+import { syncService } from '../services/syncService';
+import { DeadLetterItem } from '../types';
+
+const SyncFailuresScreen: React.FC = () => {
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [items, setItems] = useState<DeadLetterItem[]>([]);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadItems();
+    }, [])
+  );
+
+  const loadItems = async () => {
+    try {
+      const failedItems = await syncService.getFailedSyncItems();
+      setItems(failedItems);
+    } catch (error) {
+      console.error('Error loading failed sync items:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadItems();
+  };
+
+  const handleRetry = async (item: DeadLetterItem) => {
+    try {
+      await syncService.retryFailedSyncItem(item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (error) {
+      console.error('Error retrying sync item:', error);
+      Alert.alert('Erro', 'Falha ao reenviar o item para a fila');
+    }
+  };
+
+  const handleDiscard = (item: DeadLetterItem) => {
+    Alert.alert(
+      'Descartar item',
+      'As alterações deste item não serão enviadas ao servidor. Deseja continuar?',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Descartar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await syncService.discardFailedSyncItem(item.id);
+              setItems(prev => prev.filter(i => i.id !== item.id));
+            } catch (error) {
+              console.error('Error discarding sync item:', error);
+              Alert.alert('Erro', 'Falha ao descartar o item');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDiscardAll = () => {
+    Alert.alert(
+      'Descartar todos',
+      'Todos os itens com falha serão removidos. Deseja continuar?',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Descartar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await syncService.clearFailedSyncItems();
+              setItems([]);
+            } catch (error) {
+              console.error('Error clearing failed sync items:', error);
+              Alert.alert('Erro', 'Falha ao descartar os itens');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const getTypeText = (type: string) => {
+    switch (type) {
+      case 'submission': return 'Resposta';
+      case 'report': return 'Relatório';
+      case 'user': return 'Usuário';
+      case 'project': return 'Projeto';
+      default: return type;
+    }
+  };
+
+  const getActionText = (action: string) => {
+    switch (action) {
+      case 'create': return 'Criação';
+      case 'update': return 'Atualização';
+      case 'delete': return 'Exclusão';
+      default: return action;
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#2196F3" />
+        <Text style={styles.loadingText}>Carregando falhas...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+      }
+    >
+      {items.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="checkmark-circle-outline" size={80} color="#4CAF50" />
+          <Text style={styles.emptyTitle}>Nenhuma falha de sincronização</Text>
+          <Text style={styles.emptyDescription}>
+            Todos os dados foram enviados ou aguardam nova tentativa automática.
+          </Text>
+        </View>
+      ) : (
+        <>
+          <Button
+            mode="outlined"
+            onPress={handleDiscardAll}
+            style={styles.discardAllButton}
+            textColor="#F44336"
+            icon="delete-sweep"
+          >
+            Descartar todos
+          </Button>
+
+          {items.map((item) => (
+            <Card key={item.id} style={styles.card}>
+              <Card.Content>
+                <View style={styles.itemHeader}>
+                  <Text style={styles.itemTitle}>
+                    {getActionText(item.action)} de {getTypeText(item.type)}
+                  </Text>
+                  <Chip style={styles.attemptsChip} textStyle={{ color: '#fff' }}>
+                    {item.attempts} tentativa(s)
+                  </Chip>
+                </View>
+                <Text style={styles.entityText}>ID: {item.entityId}</Text>
+                <Text style={styles.dateText}>
+                  Falhou em {new Date(item.failedAt).toLocaleString('pt-BR')}
+                </Text>
+                <Text style={styles.errorText}>
+                  {item.error || 'Erro desconhecido'}
+                </Text>
+
+                <View style={styles.actions}>
+                  <Button
+                    mode="contained"
+                    onPress={() => handleRetry(item)}
+                    style={styles.actionButton}
+                    icon="refresh"
+                    compact
+                  >
+                    Tentar novamente
+                  </Button>
+                  <Button
+                    mode="outlined"
+                    onPress={() => handleDiscard(item)}
+                    style={styles.actionButton}
+                    textColor="#F44336"
+                    icon="delete"
+                    compact
+                  >
+                    Descartar
+                  </Button>
+                </View>
+              </Card.Content>
+            </Card>
+          ))}
+        </>
+      )}
+
+      <View style={styles.bottomSpacing} />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 16,
+    color: '#666',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+    marginTop: 60,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#666',
+    marginTop: 20,
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  emptyDescription: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  discardAllButton: {
+    marginBottom: 16,
+    borderColor: '#F44336',
+  },
+  card: {
+    marginBottom: 16,
+    elevation: 2,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    flex: 1,
+    marginRight: 8,
+  },
+  attemptsChip: {
+    backgroundColor: '#FF9800',
+  },
+  entityText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  dateText: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#F44336',
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  bottomSpacing: {
+    height: 20,
+  },
+});
+
+export default SyncFailuresScreen;
@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Alert } from 'react-native';
+import {
+  Text,
+  Card,
+  Button,
+  ActivityIndicator,
+  Chip
+} from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+
+import { useAuth } from '../contexts/AuthContext';
+import { syncService } from '../services/syncService';
+import { trashService } from '../services/trashService';
+import { TRASH_CONFIG } from '../config/trash';
+import { TrashItem } from '../types';
+
+const TrashScreen: React.FC = () => {
+  const { state } = useAuth();
+
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [items, setItems] = useState<TrashItem[]>([]);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadItems();
+    }, [])
+  );
+
+  const loadItems = async () => {
+    try {
+      if (!state.user) return;
+
+      setItems(await trashService.getItems(state.user.id));
+    } catch (error) {
+      console.error('Error loading trash items:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadItems();
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      await syncService.restoreFromTrashOffline(item.type, item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (error) {
+      console.error('Error restoring trash item:', error);
+      Alert.alert(
+        'Erro',
+        item.type === 'project'
+          ? 'Falha ao restaurar o item'
+          : 'Falha ao restaurar o item. Se o projeto ou relatório que o contém também foi excluído, restaure-o primeiro.'
+      );
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    const heldUntil = await trashService.getLegalHoldUntil(item).catch(() => null);
+    if (heldUntil) {
+      Alert.alert(
+        'Prazo legal',
+        `Este item contém respostas enviadas que devem ser guardadas até ${heldUntil.toLocaleDateString('pt-BR')}.`
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Excluir definitivamente',
+      `"${item.title}" será removido deste dispositivo. Esta ação não pode ser desfeita.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Excluir',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await trashService.purge(item);
+              setItems(prev => prev.filter(i => i.id !== item.id));
+            } catch (error) {
+              console.error('Error purging trash item:', error);
+              Alert.alert('Erro', 'Falha ao excluir o item');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Esvaziar lixeira',
+      'Todos os itens da lixeira serão removidos definitivamente. Deseja continuar?',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Esvaziar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              if (!state.user) return;
+              const held = await trashService.emptyTrash(state.user.id);
+              if (held > 0) {
+                Alert.alert(
+                  'Prazo legal',
+                  `${held} item(ns) com respostas enviadas ainda dentro do prazo legal de guarda foram mantidos.`
+                );
+              }
+              await loadItems();
+            } catch (error) {
+              console.error('Error emptying trash:', error);
+              Alert.alert('Erro', 'Falha ao esvaziar a lixeira');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const getTypeText = (type: TrashItem['type']) => {
+    switch (type) {
+      case 'project': return 'Projeto';
+      case 'report': return 'Relatório';
+      case 'submission': return 'Resposta';
+      default: return type;
+    }
+  };
+
+  const getDaysLeft = (item: TrashItem) => {
+    const msLeft = trashService.getExpiresAt(item).getTime() - Date.now();
+    return Math.max(0, Math.ceil(msLeft / (24 * 60 * 60 * 1000)));
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#2196F3" />
+        <Text style={styles.loadingText}>Carregando lixeira...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+      }
+    >
+      {items.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="trash-outline" size={80} color="#9E9E9E" />
+          <Text style={styles.emptyTitle}>A lixeira está vazia</Text>
+          <Text style={styles.emptyDescription}>
+            Projetos, relatórios e respostas excluídos ficam aqui por {TRASH_CONFIG.retentionDays} dias.
+          </Text>
+        </View>
+      ) : (
+        <>
+          <Button
+            mode="outlined"
+            onPress={handleEmptyTrash}
+            style={styles.emptyTrashButton}
+            textColor="#F44336"
+            icon="delete-sweep"
+          >
+            Esvaziar lixeira
+          </Button>
+
+          {items.map((item) => (
+            <Card key={`${item.type}:${item.id}`} style={styles.card}>
+              <Card.Content>
+                <View style={styles.itemHeader}>
+                  <Text style={styles.itemTitle}>
+                    {item.type === 'submission' ? `Resposta de "${item.title}"` : item.title}
+                  </Text>
+                  <Chip style={styles.typeChip} textStyle={{ color: '#fff' }}>
+                    {getTypeText(item.type)}
+                  </Chip>
+                </View>
+                {item.parentTitle && (
+                  <Text style={styles.parentText}>Projeto: {item.parentTitle}</Text>
+                )}
+                <Text style={styles.dateText}>
+                  Excluído em {new Date(item.deletedAt).toLocaleString('pt-BR')}
+                </Text>
+                <Text style={styles.expiryText}>
+                  Removido definitivamente em {getDaysLeft(item)} dia(s)
+                </Text>
+
+                <View style={styles.actions}>
+                  <Button
+                    mode="contained"
+                    onPress={() => handleRestore(item)}
+                    style={styles.actionButton}
+                    icon="restore"
+                    compact
+                  >
+                    Restaurar
+                  </Button>
+                  <Button
+                    mode="outlined"
+                    onPress={() => handlePurge(item)}
+                    style={styles.actionButton}
+                    textColor="#F44336"
+                    icon="delete-forever"
+                    compact
+                  >
+                    Excluir
+                  </Button>
+                </View>
+              </Card.Content>
+            </Card>
+          ))}
+        </>
+      )}
+
+      <View style={styles.bottomSpacing} />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 16,
+    color: '#666',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+    marginTop: 60,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#666',
+    marginTop: 20,
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  emptyDescription: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  emptyTrashButton: {
+    marginBottom: 16,
+    borderColor: '#F44336',
+  },
+  card: {
+    marginBottom: 16,
+    elevation: 2,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    flex: 1,
+    marginRight: 8,
+  },
+  typeChip: {
+    backgroundColor: '#757575',
+  },
+  parentText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
+  dateText: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  expiryText: {
+    fontSize: 12,
+    color: '#F44336',
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  bottomSpacing: {
+    height: 20,
+  },
+});
+
+export default TrashScreen;
@@ -0,0 +1,109 @@
+import { MemoryRepository, setRepository } from '../../database';
+import { retentionService } from '../retentionService';
+import { syncService } from '../syncService';
+import { Project, Report } from '../../types';
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js')
+);
+
+const USER_ID = 'user-1';
+
+const PROJECT: Project = {
+  id: 'project-1',
+  name: 'Obras',
+  ownerId: USER_ID,
+  settings: {
+    primaryColor: '#000000',
+    secondaryColor: '#ffffff',
+    allowOffline: true,
+    retention: { archiveInactiveReportsAfterDays: 90, deleteDraftsAfterDays: 30 },
+  },
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const report = (id: string, updatedAt: string): Report => ({
+  id,
+  projectId: PROJECT.id,
+  title: `Relatório ${id}`,
+  fields: [{ id: 'name', type: 'text', label: 'Nome', required: false, order: 0 }],
+  permissions: { canFill: [USER_ID], canEdit: [USER_ID], canView: [USER_ID], canConsolidate: [] },
+  status: 'active',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt,
+  createdBy: USER_ID,
+});
+
+describe('retentionService', () => {
+  let repository: MemoryRepository;
+
+  // O repositório grava a hora atual como última alteração
+  const addDraft = (reportId: string, lastModified: string) => {
+    jest.setSystemTime(new Date(lastModified));
+    return repository.createSubmission({
+      reportId,
+      userId: USER_ID,
+      data: { name: 'Rascunho' },
+      status: 'draft',
+      lastModified,
+      version: 1,
+      isOffline: false,
+      syncStatus: 'synced',
+    });
+  };
+
+  const runAt = (now: string) => {
+    jest.setSystemTime(new Date(now));
+    return retentionService.run(USER_ID);
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate'] });
+    repository = new MemoryRepository();
+    setRepository(repository);
+    await repository.upsertProject(PROJECT);
+    await syncService.startSession(USER_ID, 'token');
+  });
+
+  afterEach(() => {
+    syncService.endSession();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('archives inactive reports, trashes abandoned drafts and logs each change', async () => {
+    await repository.upsertReport(report('old', '2026-01-15T00:00:00.000Z'));
+    await repository.upsertReport(report('recent', '2026-05-20T00:00:00.000Z'));
+    const oldDraft = await addDraft('recent', '2026-04-01T00:00:00.000Z');
+    const newDraft = await addDraft('recent', '2026-05-25T00:00:00.000Z');
+
+    const entries = await runAt('2026-06-01T12:00:00.000Z');
+
+    expect(entries.map(entry => [entry.rule, entry.entityId])).toEqual([
+      ['archive_report', 'old'],
+      ['delete_draft', oldDraft],
+    ]);
+    expect((await repository.getReportById('old'))?.status).toBe('archived');
+    expect((await repository.getReportById('recent'))?.status).toBe('active');
+    expect((await repository.getTrashItems(USER_ID)).map(item => item.id)).toEqual([oldDraft]);
+    expect(await repository.getSubmissionById(newDraft)).not.toBeNull();
+
+    // As mudanças seguem para o servidor pela fila
+    const queued = await repository.getPendingSyncItems(USER_ID);
+    expect(queued.map(item => [item.type, item.action, item.entityId])).toEqual([
+      ['report', 'update', 'old'],
+      ['submission', 'delete', oldDraft],
+    ]);
+    expect(await retentionService.getLog(USER_ID, PROJECT.id)).toHaveLength(2);
+  });
+
+  it('leaves data alone on a second run', async () => {
+    await repository.upsertReport(report('old', '2026-01-15T00:00:00.000Z'));
+    await addDraft('old', '2026-01-20T00:00:00.000Z');
+
+    expect(await runAt('2026-06-01T12:00:00.000Z')).toHaveLength(2);
+    expect(await runAt('2026-06-02T12:00:00.000Z')).toEqual([]);
+  });
+});
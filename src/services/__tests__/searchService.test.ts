@@ -0,0 +1,82 @@
+import { MemoryRepository, setRepository } from '../../database';
+import { searchService } from '../searchService';
+import { Report, User } from '../../types';
+
+const user = (id: string): User => ({
+  id,
+  email: `${id}@example.com`,
+  name: id,
+  role: 'user',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const OWNER = user('owner');
+const MEMBER = user('member');
+
+const report = (id: string, canFill: string[]): Report => ({
+  id,
+  projectId: 'project-1',
+  title: `Inspeção ${id}`,
+  fields: [{ id: 'name', type: 'text', label: 'Nome', required: false, order: 0 }],
+  permissions: { canFill, canEdit: [], canView: [], canConsolidate: [] },
+  status: 'active',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  createdBy: OWNER.id,
+});
+
+describe('searchService', () => {
+  let repository: MemoryRepository;
+
+  const addSubmission = (reportId: string, userId: string) =>
+    repository.createSubmission({
+      reportId,
+      userId,
+      data: { name: `inspeção de ${userId}` },
+      status: 'submitted',
+      lastModified: new Date().toISOString(),
+      version: 1,
+      isOffline: false,
+      syncStatus: 'synced',
+    });
+
+  beforeEach(async () => {
+    repository = new MemoryRepository();
+    setRepository(repository);
+    await repository.upsertReport(report('shared', [MEMBER.email]));
+    await repository.upsertReport(report('public', ['*']));
+    await repository.upsertReport(report('private', []));
+  });
+
+  it('hides reports the user cannot open and answers from other people', async () => {
+    const ownAnswer = await addSubmission('shared', MEMBER.id);
+    const otherAnswer = await addSubmission('shared', 'someone-else');
+
+    const results = await searchService.search('inspeção', MEMBER);
+    const found = results.map(result => `${result.type}:${result.id}`).sort();
+
+    expect(found).toEqual(['report:public', 'report:shared', `submission:${ownAnswer}`].sort());
+    expect(found).not.toContain(`submission:${otherAnswer}`);
+  });
+
+  it('shows every answer to the author of the report', async () => {
+    await addSubmission('private', MEMBER.id);
+    await addSubmission('private', 'someone-else');
+
+    const results = await searchService.search('inspeção', OWNER);
+
+    expect(results.filter(result => result.type === 'submission')).toHaveLength(2);
+    expect(results.filter(result => result.type === 'report')).toHaveLength(3);
+  });
+
+  it('fills the page with visible results when better matches are restricted', async () => {
+    for (let i = 0; i < 5; i++) {
+      await repository.upsertReport({ ...report(`private-${i}`, []), title: 'Inspeção inspeção inspeção' });
+    }
+
+    const results = await searchService.search('inspeção', MEMBER, 2);
+
+    expect(results.map(result => result.id).sort()).toEqual(['public', 'shared']);
+  });
+});
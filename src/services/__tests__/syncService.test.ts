@@ -0,0 +1,193 @@
+import NetInfo from '@react-native-community/netinfo';
+
+import { MemoryRepository, setRepository } from '../../database';
+import { SYNC_CONFIG } from '../../config/sync';
+import { FakeSyncTransport } from '../fakeSyncTransport';
+import { NetworkError } from '../httpClient';
+import { SyncService } from '../syncService';
+import { Report, SyncEvent } from '../../types';
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js')
+);
+
+const USER_ID = 'user-1';
+const REPORT_ID = 'report-1';
+
+const REPORT: Report = {
+  id: REPORT_ID,
+  projectId: 'project-1',
+  title: 'Inspeção',
+  fields: [{ id: 'name', type: 'text', label: 'Nome', required: false, order: 0 }],
+  permissions: { canFill: [USER_ID], canEdit: [USER_ID], canView: [USER_ID], canConsolidate: [] },
+  status: 'active',
+  formVersion: 1,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  createdBy: USER_ID,
+};
+
+describe('SyncService', () => {
+  let repository: MemoryRepository;
+  let server: FakeSyncTransport;
+  let service: SyncService;
+  let setConnected: (isConnected: boolean) => void;
+
+  // Roda um ciclo completo (push e pull): fica online até o fim do ciclo e
+  // volta a ficar offline, para que as gravações do teste não disparem outros
+  const syncOnce = () =>
+    new Promise<SyncEvent>((resolve) => {
+      const unsubscribe = service.subscribe((event) => {
+        if (event.type === 'completed' || event.type === 'failed') {
+          unsubscribe();
+          resolve(event);
+        }
+      });
+      setConnected(true);
+    }).finally(() => setConnected(false));
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate'] });
+    jest.setSystemTime(new Date('2026-01-01T12:00:00.000Z'));
+
+    repository = new MemoryRepository();
+    setRepository(repository);
+    await repository.upsertReport(REPORT);
+
+    server = new FakeSyncTransport();
+    service = new SyncService(server);
+    const listener = (NetInfo.addEventListener as jest.Mock).mock.calls.at(-1)[0];
+    setConnected = (isConnected) => listener({ isConnected });
+
+    await service.startSession(USER_ID, 'token');
+  });
+
+  afterEach(() => {
+    service.endSession();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('coalesces a create and later edits into a single outbox item', async () => {
+    const pushBatch = jest.spyOn(server, 'pushBatch');
+    const submissionId = await service.saveSubmissionOffline(REPORT_ID, USER_ID, { name: 'a' });
+    await service.updateSubmissionOffline(submissionId, { name: 'b' });
+    await service.updateSubmissionOffline(submissionId, { name: 'c' });
+
+    const [item] = await repository.getPendingSyncItems(USER_ID);
+    expect(await repository.getSyncQueueCount(USER_ID)).toBe(1);
+    expect(item.action).toBe('create');
+
+    await syncOnce();
+
+    expect(pushBatch).toHaveBeenCalledTimes(1);
+    expect(pushBatch.mock.calls[0][0]).toHaveLength(1);
+    expect(server.getSubmission(submissionId)?.data).toEqual({ name: 'c' });
+    expect(await repository.getSyncQueueCount(USER_ID)).toBe(0);
+    expect((await repository.getSubmissionById(submissionId))?.syncStatus).toBe('synced');
+  });
+
+  it('backs off retryable failures and dead-letters the item after the last attempt', async () => {
+    const submissionId = await service.saveSubmissionOffline(REPORT_ID, USER_ID, { name: 'a' });
+    server.failEntity(submissionId, 503);
+
+    for (let attempt = 1; attempt < SYNC_CONFIG.maxAttempts; attempt++) {
+      await syncOnce();
+      const [item] = await repository.getPendingSyncItems(USER_ID, '9999-12-31T00:00:00.000Z');
+      expect(item.attempts).toBe(attempt);
+      expect(item.nextAttemptAt! > new Date().toISOString()).toBe(true);
+
+      // Antes do fim do backoff o item não é enviado
+      expect(await repository.getPendingSyncItems(USER_ID)).toEqual([]);
+      jest.setSystemTime(new Date(item.nextAttemptAt!).getTime() + 1);
+    }
+
+    await syncOnce();
+
+    expect(await repository.getSyncQueueCount(USER_ID)).toBe(0);
+    const [deadLetter] = await repository.getDeadLetterItems(USER_ID);
+    expect(deadLetter.entityId).toBe(submissionId);
+    expect(deadLetter.attempts).toBe(SYNC_CONFIG.maxAttempts);
+    expect((await repository.getSubmissionById(submissionId))?.syncStatus).toBe('error');
+  });
+
+  it('keeps both copies when the server rejects a stale submission version', async () => {
+    const submissionId = await service.saveSubmissionOffline(REPORT_ID, USER_ID, { name: 'a' });
+    await syncOnce();
+
+    server.simulateRemoteEdit(submissionId, { name: 'server' });
+    await service.updateSubmissionOffline(submissionId, { name: 'local' });
+    await syncOnce();
+
+    const conflict = await repository.getSubmissionConflict(submissionId);
+    expect(conflict?.localData).toEqual({ name: 'local' });
+    expect(conflict?.serverSubmission.data).toEqual({ name: 'server' });
+    expect((await repository.getSubmissionById(submissionId))?.syncStatus).toBe('conflict');
+    expect(await repository.getSyncQueueCount(USER_ID)).toBe(0);
+  });
+
+  it('dead-letters a conflict that comes without the server copy', async () => {
+    const submissionId = await service.saveSubmissionOffline(REPORT_ID, USER_ID, { name: 'a' });
+    server.failEntity(submissionId, 409, { message: 'Version conflict' });
+    await syncOnce();
+
+    expect(await repository.getSubmissionConflict(submissionId)).toBeNull();
+    expect(await repository.getSyncQueueCount(USER_ID)).toBe(0);
+    expect(await repository.getDeadLetterCount(USER_ID)).toBe(1);
+    expect((await repository.getSubmissionById(submissionId))?.syncStatus).toBe('error');
+  });
+
+  it('resends a batch whose response was lost without applying it twice', async () => {
+    const submissionId = await service.saveSubmissionOffline(REPORT_ID, USER_ID, { name: 'a' });
+    const pushBatch = server.pushBatch.bind(server);
+    const sent = jest.spyOn(server, 'pushBatch').mockImplementationOnce(async (operations) => {
+      await pushBatch(operations);
+      throw new NetworkError('Connection reset');
+    });
+
+    await syncOnce();
+    expect(await repository.getSyncQueueCount(USER_ID)).toBe(1);
+
+    const [item] = await repository.getPendingSyncItems(USER_ID, '9999-12-31T00:00:00.000Z');
+    jest.setSystemTime(new Date(item.nextAttemptAt!).getTime() + 1);
+    await syncOnce();
+
+    const [first, second] = sent.mock.calls.map(([operations]) => operations[0].idempotencyKey);
+    expect(second).toBe(first);
+    expect(server.getSubmission(submissionId)?.version).toBe(1);
+    expect(await repository.getSyncQueueCount(USER_ID)).toBe(0);
+  });
+
+  it('pulls from the stored cursor and only receives newer changes', async () => {
+    server.seed({ reports: [{ ...REPORT, title: 'Servidor' }] });
+    const pullChanges = jest.spyOn(server, 'pullChanges');
+
+    await syncOnce();
+    expect(pullChanges).toHaveBeenLastCalledWith(null);
+    expect((await repository.getReportById(REPORT_ID))?.title).toBe('Servidor');
+    const cursor = await repository.getSyncState(`pull_cursor:${USER_ID}`);
+    expect(cursor).not.toBeNull();
+
+    await syncOnce();
+    expect(pullChanges).toHaveBeenLastCalledWith(cursor);
+    expect((await pullChanges.mock.results.at(-1)!.value).reports).toBeUndefined();
+  });
+
+  it('stops processing the batch when an operation is rejected for authentication', async () => {
+    const first = await service.saveSubmissionOffline(REPORT_ID, USER_ID, { name: 'a' });
+    jest.setSystemTime(Date.now() + 1);
+    const second = await service.saveSubmissionOffline(REPORT_ID, USER_ID, { name: 'b' });
+    server.failEntity(first, 401);
+
+    await syncOnce();
+
+    // O segundo item não é concluído: volta no próximo ciclo pela mesma chave
+    const items = await repository.getPendingSyncItems(USER_ID);
+    expect(items.map((item) => item.entityId)).toEqual([first, second]);
+    expect(items[0].attempts).toBe(0);
+    expect((await repository.getSubmissionById(second))?.syncStatus).toBe('pending');
+  });
+});
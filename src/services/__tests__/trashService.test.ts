@@ -0,0 +1,97 @@
+import { MemoryRepository, setRepository } from '../../database';
+import { TRASH_CONFIG } from '../../config/trash';
+import { trashService } from '../trashService';
+import { Project, Report, ReportSubmission } from '../../types';
+
+const USER_ID = 'user-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PROJECT: Project = {
+  id: 'project-1',
+  name: 'Obras',
+  ownerId: USER_ID,
+  settings: {
+    primaryColor: '#000000',
+    secondaryColor: '#ffffff',
+    allowOffline: true,
+    retention: { minSubmissionRetentionDays: 365 },
+  },
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const REPORT: Report = {
+  id: 'report-1',
+  projectId: PROJECT.id,
+  title: 'Inspeção',
+  fields: [{ id: 'name', type: 'text', label: 'Nome', required: false, order: 0 }],
+  permissions: { canFill: [USER_ID], canEdit: [USER_ID], canView: [USER_ID], canConsolidate: [] },
+  status: 'active',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  createdBy: USER_ID,
+};
+
+describe('trashService', () => {
+  let repository: MemoryRepository;
+
+  const addSubmission = (status: ReportSubmission['status']) =>
+    repository.createSubmission({
+      reportId: REPORT.id,
+      userId: USER_ID,
+      data: { name: status },
+      status,
+      submittedAt: status === 'draft' ? undefined : new Date().toISOString(),
+      lastModified: new Date().toISOString(),
+      version: 1,
+      isOffline: false,
+      syncStatus: 'synced',
+    });
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate'] });
+    jest.setSystemTime(new Date('2026-03-01T12:00:00.000Z'));
+
+    repository = new MemoryRepository();
+    setRepository(repository);
+    await repository.upsertProject(PROJECT);
+    await repository.upsertReport(REPORT);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('purges expired items and keeps submitted answers under legal retention', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const draftId = await addSubmission('draft');
+    const submittedId = await addSubmission('submitted');
+    await repository.moveToTrash('submission', draftId);
+    await repository.moveToTrash('submission', submittedId);
+
+    // Ainda dentro do prazo da lixeira nada é removido
+    expect(await trashService.purgeExpired(USER_ID)).toBe(0);
+
+    jest.setSystemTime(Date.now() + TRASH_CONFIG.retentionDays * DAY_MS);
+    expect(await trashService.purgeExpired(USER_ID)).toBe(1);
+
+    expect((await trashService.getItems(USER_ID)).map(item => item.id)).toEqual([submittedId]);
+    expect((await repository.getSubmissionsByUserId(USER_ID)).map(s => s.id)).not.toContain(draftId);
+  });
+
+  it('refuses to purge a held item and leaves it in the trash when emptying', async () => {
+    const submittedId = await addSubmission('submitted');
+    await repository.moveToTrash('submission', submittedId);
+    const [item] = await trashService.getItems(USER_ID);
+
+    await expect(trashService.purge(item)).rejects.toThrow('under legal retention');
+    expect(await trashService.emptyTrash(USER_ID)).toBe(1);
+    expect(await trashService.getItems(USER_ID)).toEqual([item]);
+
+    // Passado o prazo legal, a resposta pode sair
+    jest.setSystemTime(Date.now() + 366 * DAY_MS);
+    expect(await trashService.emptyTrash(USER_ID)).toBe(0);
+    expect(await trashService.getItems(USER_ID)).toEqual([]);
+  });
+});
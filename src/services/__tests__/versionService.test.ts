@@ -0,0 +1,69 @@
+import { MemoryRepository, setRepository } from '../../database';
+import { versionService } from '../versionService';
+import { Report } from '../../types';
+
+const USER_ID = 'user-1';
+
+const REPORT: Report = {
+  id: 'report-1',
+  projectId: 'project-1',
+  title: 'Inspeção',
+  fields: [
+    { id: 'name', type: 'text', label: 'Nome', required: false, order: 0 },
+    { id: 'ok', type: 'checkbox', label: 'Aprovado', required: false, order: 1 },
+  ],
+  permissions: { canFill: [USER_ID], canEdit: [USER_ID], canView: [USER_ID], canConsolidate: [] },
+  status: 'active',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  createdBy: USER_ID,
+};
+
+describe('versionService', () => {
+  let repository: MemoryRepository;
+  let submissionId: string;
+
+  beforeEach(async () => {
+    repository = new MemoryRepository();
+    setRepository(repository);
+    await repository.upsertReport(REPORT);
+    submissionId = await repository.createSubmission({
+      reportId: REPORT.id,
+      userId: USER_ID,
+      data: { name: 'a', ok: false },
+      status: 'draft',
+      lastModified: new Date().toISOString(),
+      version: 1,
+      isOffline: true,
+      syncStatus: 'pending',
+    });
+  });
+
+  it('records the changed fields and skips saves that change nothing', async () => {
+    expect((await versionService.recordVersion(submissionId, USER_ID))?.changes).toBe('Criada');
+    expect(await versionService.recordVersion(submissionId, USER_ID)).toBeNull();
+
+    await repository.updateSubmission(submissionId, { data: { name: 'b', ok: true } });
+    const version = await versionService.recordVersion(submissionId, USER_ID, 'Enviada');
+    expect(version?.version).toBe(2);
+    expect(version?.changes).toBe('Enviada; Alterado(s): Nome, Aprovado');
+
+    const [newer, older] = await versionService.getHistory(submissionId);
+    expect(newer.version).toBe(2);
+    expect(versionService.diffVersions(newer, older, REPORT.fields)).toEqual([
+      { fieldId: 'name', label: 'Nome', before: 'a', after: 'b' },
+      { fieldId: 'ok', label: 'Aprovado', before: false, after: true },
+    ]);
+  });
+
+  it('writes through the repository it receives inside a transaction', async () => {
+    await expect(
+      repository.withTransaction(async tx => {
+        await versionService.recordVersion(submissionId, USER_ID, undefined, tx);
+        throw new Error('save failed');
+      })
+    ).rejects.toThrow('save failed');
+
+    expect(await versionService.getHistory(submissionId)).toEqual([]);
+  });
+});
@@ -0,0 +1,202 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { File, Directory, Paths } from 'expo-file-system';
+
+import { getRepository } from '../database';
+import { Attachment, AttachmentRef, ReportField } from '../types';
+
+const ATTACHMENTS_DIR = 'attachments';
+const BASE64_CHUNK_SIZE = 3 * 64 * 1024;
+
+// Converte bytes para base64 sem estourar a pilha em blocos grandes
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const step = 0x8000;
+  for (let i = 0; i < bytes.length; i += step) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + step));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const isAttachmentRef = (value: any): value is AttachmentRef =>
+  Boolean(value) && typeof value === 'object' && typeof value.attachmentId === 'string';
+
+// Resposta de um campo como texto para exibição; anexos aparecem pelo nome
+export const formatFieldValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') {
+    return 'Não preenchido';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Sim' : 'Não';
+  }
+  if (isAttachmentRef(value)) {
+    return value.fileName;
+  }
+  return String(value);
+};
+
+class AttachmentService {
+  private getDirectory(): Directory {
+    const directory = new Directory(Paths.document, ATTACHMENTS_DIR);
+    if (!directory.exists) {
+      directory.create({ intermediates: true, idempotent: true });
+    }
+    return directory;
+  }
+
+  // Abre o seletor do sistema e guarda uma cópia do arquivo no sandbox
+  async pickAttachment(field: ReportField, userId: string): Promise<AttachmentRef | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: field.type === 'image' ? 'image/*' : '*/*',
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+
+    const asset = result.assets[0];
+    return this.importFile(asset.uri, asset.name, asset.mimeType, field.id, userId);
+  }
+
+  async importFile(
+    uri: string,
+    fileName: string,
+    mimeType: string | undefined,
+    fieldId: string | undefined,
+    userId: string
+  ): Promise<AttachmentRef> {
+    const source = new File(uri);
+    const target = new File(this.getDirectory(), `${Date.now().toString(36)}-${fileName}`);
+    source.copy(target);
+
+    const checksum = target.md5;
+    if (!checksum) {
+      throw new Error(`Could not read attachment ${fileName}`);
+    }
+
+    const attachmentId = await getRepository().createAttachment({
+      userId,
+      fieldId,
+      localUri: target.uri,
+      fileName,
+      mimeType,
+      size: target.size,
+      checksum,
+      uploadState: 'pending',
+      uploadedBytes: 0,
+    });
+
+    return { attachmentId, fileName, mimeType, size: target.size };
+  }
+
+  // Lê um trecho do arquivo local já codificado em base64
+  readChunk(attachment: Attachment, offset: number, length: number): string {
+    const file = new File(attachment.localUri);
+    if (!file.exists) {
+      throw new Error(`Attachment file missing: ${attachment.fileName}`);
+    }
+
+    const handle = file.open();
+    try {
+      handle.offset = offset;
+      return bytesToBase64(handle.readBytes(length));
+    } finally {
+      handle.close();
+    }
+  }
+
+  // Entrega o arquivo local em blocos já codificados em base64. Os blocos
+  // têm tamanho múltiplo de 3 bytes, então concatenados formam o base64 do
+  // arquivo inteiro
+  readFileBase64Chunks(uri: string, onChunk: (base64: string) => void): void {
+    const file = new File(uri);
+    if (!file.exists) {
+      throw new Error(`Attachment file missing: ${uri}`);
+    }
+
+    const handle = file.open();
+    try {
+      const size = handle.size ?? 0;
+      for (let offset = 0; offset < size; offset += BASE64_CHUNK_SIZE) {
+        handle.offset = offset;
+        onChunk(bytesToBase64(handle.readBytes(Math.min(BASE64_CHUNK_SIZE, size - offset))));
+      }
+    } finally {
+      handle.close();
+    }
+  }
+
+  // Grava no sandbox um anexo recebido em base64 aos poucos (ex.: de um
+  // backup). As partes podem ter qualquer tamanho; close() termina o arquivo
+  openBase64Writer(
+    attachmentId: string,
+    fileName: string
+  ): { uri: string; write: (base64: string) => void; close: () => void } {
+    const target = new File(this.getDirectory(), `${attachmentId}-${fileName}`);
+    if (target.exists) {
+      target.delete();
+    }
+    target.create();
+
+    const handle = target.open();
+    // Cada 4 caracteres de base64 formam 3 bytes; o resto espera a próxima parte
+    let pending = '';
+    return {
+      uri: target.uri,
+      write: (base64: string) => {
+        pending += base64;
+        const length = pending.length - (pending.length % 4);
+        if (length > 0) {
+          handle.writeBytes(base64ToBytes(pending.slice(0, length)));
+          pending = pending.slice(length);
+        }
+      },
+      close: () => {
+        try {
+          if (pending) {
+            handle.writeBytes(base64ToBytes(pending));
+          }
+        } finally {
+          handle.close();
+        }
+      },
+    };
+  }
+
+  // Apaga a cópia local de um anexo removido do banco
+  deleteFile(attachment: Attachment): void {
+    const file = new File(attachment.localUri);
+    if (file.exists) {
+      file.delete();
+    }
+  }
+
+  // Anexos referenciados pelos campos de uma resposta
+  getAttachmentRefs(data: Record<string, any>): AttachmentRef[] {
+    return Object.values(data).filter(isAttachmentRef);
+  }
+
+  // Troca os ids locais pelos ids dos anexos no servidor
+  rewriteRefs(data: Record<string, any>, remoteIds: Record<string, string>): Record<string, any> {
+    const rewritten: Record<string, any> = {};
+
+    Object.entries(data).forEach(([fieldId, value]) => {
+      rewritten[fieldId] = isAttachmentRef(value) && remoteIds[value.attachmentId]
+        ? { ...value, attachmentId: remoteIds[value.attachmentId] }
+        : value;
+    });
+
+    return rewritten;
+  }
+}
+
+export const attachmentService = new AttachmentService();
@@ -0,0 +1,222 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+
+import { databaseService } from '../database';
+import {
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION,
+  BACKUP_TABLES,
+  JsonStreamReader,
+  readBackupArchive,
+  readBackupFiles,
+} from '../database/backup';
+import { attachmentService } from './attachmentService';
+import { BackupArchive, BackupImportMode, BackupSummary } from '../types';
+
+// Bytes lidos do arquivo de backup por vez
+const READ_CHUNK_SIZE = 256 * 1024;
+
+// Backup completo do dispositivo em um único arquivo JSON: as linhas de
+// todas as tabelas mais o conteúdo dos anexos.
+//
+// O backup é só do SQLite e não passa pelo getRepository(): o arquivo guarda
+// as linhas no formato das colunas e a importação reconstrói as tabelas
+// derivadas (índice de busca, respostas normalizadas) com SQL. A
+// MemoryRepository, usada em testes, não tem esse formato nem dados que
+// valha a pena guardar
+class BackupService {
+  // Grava o arquivo aos poucos: uma tabela por vez e os anexos em blocos de
+  // base64, sem montar o backup inteiro em memória
+  private async writeArchive(file: File, exportedAt: string): Promise<void> {
+    const encoder = new TextEncoder();
+    const handle = file.open();
+    const write = (text: string) => handle.writeBytes(encoder.encode(text));
+
+    try {
+      const header = JSON.stringify({
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        schemaVersion: await databaseService.getSchemaVersion(),
+        exportedAt,
+      });
+      write(`${header.slice(0, -1)},"tables":{`);
+
+      let attachments: Record<string, any>[] = [];
+      for (const [index, table] of BACKUP_TABLES.entries()) {
+        const rows = await databaseService.exportTable(table);
+        if (table === 'attachments') {
+          attachments = rows;
+        }
+        write(`${index > 0 ? ',' : ''}${JSON.stringify(table)}:${JSON.stringify(rows)}`);
+      }
+
+      write('},"files":[');
+      let first = true;
+      for (const row of attachments) {
+        if (!new File(row.local_uri).exists) {
+          console.warn(`Attachment file missing, not included in backup: ${row.file_name}`);
+          continue;
+        }
+
+        const entry = JSON.stringify({ attachmentId: row.id, fileName: row.file_name, base64: '' });
+        write(`${first ? '' : ','}${entry.slice(0, -2)}`);
+        attachmentService.readFileBase64Chunks(row.local_uri, write);
+        write('"}');
+        first = false;
+      }
+      write(']}');
+    } finally {
+      handle.close();
+    }
+  }
+
+  // Grava o backup no cache e abre a folha de compartilhamento do sistema.
+  // O arquivo não é cifrado, então é apagado assim que a folha fecha
+  async exportBackup(): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    const exportedAt = new Date().toISOString();
+    const file = new File(Paths.cache, `reportsapp-backup-${exportedAt.slice(0, 10)}.json`);
+    if (file.exists) {
+      file.delete();
+    }
+    file.create();
+
+    try {
+      await this.writeArchive(file, exportedAt);
+      await Sharing.shareAsync(file.uri, {
+        mimeType: 'application/json',
+        dialogTitle: 'Backup do ReportsApp',
+        UTI: 'public.json',
+      });
+    } finally {
+      if (file.exists) {
+        file.delete();
+      }
+    }
+  }
+
+  // Lê o arquivo aos poucos; o UTF-8 é decodificado entre as partes
+  private readArchive<T>(uri: string, read: (reader: JsonStreamReader) => T): T {
+    const handle = new File(uri).open();
+    const decoder = new TextDecoder();
+    const size = handle.size ?? 0;
+    let offset = 0;
+
+    try {
+      return read(
+        new JsonStreamReader(() => {
+          if (offset >= size) {
+            return null;
+          }
+          handle.offset = offset;
+          const bytes = handle.readBytes(Math.min(READ_CHUNK_SIZE, size - offset));
+          if (bytes.length === 0) {
+            return null;
+          }
+          offset += bytes.length;
+          return decoder.decode(bytes, { stream: offset < size });
+        })
+      );
+    } finally {
+      handle.close();
+    }
+  }
+
+  // Abre o seletor de arquivos e valida o backup escolhido; null se o
+  // usuário cancelar. Só o cabeçalho e as tabelas ficam em memória
+  async pickBackup(): Promise<BackupArchive | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: 'application/json',
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+
+    const { uri } = result.assets[0];
+    return { ...this.readArchive(uri, readBackupArchive), uri };
+  }
+
+  private deleteFiles(uris: string[]): void {
+    for (const uri of uris) {
+      try {
+        const file = new File(uri);
+        if (file.exists) {
+          file.delete();
+        }
+      } catch (error) {
+        console.error(`Error deleting attachment file ${uri}:`, error);
+      }
+    }
+  }
+
+  // Os caminhos dos anexos no backup são do aparelho de origem: cada anexo
+  // importado é gravado no sandbox, em blocos lidos do arquivo, e a linha
+  // passa a apontar para a cópia. Na mesclagem, anexos que já existem aqui
+  // mantêm o arquivo local; na substituição, os arquivos dos anexos que
+  // saíram do banco são apagados depois da importação
+  async importBackup(archive: BackupArchive, mode: BackupImportMode): Promise<BackupSummary> {
+    const rows = archive.tables.attachments || [];
+    const rowIds = new Set(rows.map(row => row.id));
+    const previousUris = (await databaseService.exportTable('attachments')).map(row => row.local_uri as string);
+    const localUris = new Map<string, string>();
+    if (mode === 'merge') {
+      for (const row of rows) {
+        const local = await databaseService.getAttachmentById(row.id);
+        if (local) {
+          localUris.set(row.id, local.localUri);
+        }
+      }
+    }
+
+    const written = new Map<string, string>();
+    let attachments: Record<string, any>[];
+    let tables: BackupSummary['tables'];
+    try {
+      this.readArchive(archive.uri, reader =>
+        readBackupFiles(reader, (file, readBase64) => {
+          if (!rowIds.has(file.attachmentId) || localUris.has(file.attachmentId) || written.has(file.attachmentId)) {
+            return;
+          }
+
+          const writer = attachmentService.openBase64Writer(file.attachmentId, file.fileName);
+          written.set(file.attachmentId, writer.uri);
+          try {
+            readBase64(writer.write);
+          } finally {
+            writer.close();
+          }
+        })
+      );
+
+      attachments = rows.map(row => {
+        const localUri = localUris.get(row.id) ?? written.get(row.id);
+        if (!localUri) {
+          console.warn(`Attachment file missing from backup: ${row.file_name}`);
+          return row;
+        }
+        return { ...row, local_uri: localUri };
+      });
+      tables = await databaseService.importTables({ ...archive.tables, attachments }, archive.schemaVersion, mode);
+    } catch (error) {
+      // Nada foi importado: saem as cópias gravadas agora, menos as que
+      // ocupam o lugar do arquivo de um anexo que já estava aqui
+      this.deleteFiles([...written.values()].filter(uri => !previousUris.includes(uri)));
+      throw error;
+    }
+
+    if (mode === 'replace') {
+      const kept = new Set(attachments.map(row => row.local_uri));
+      this.deleteFiles(previousUris.filter(uri => !kept.has(uri)));
+    }
+
+    return { mode, tables, files: written.size };
+  }
+}
+
+export const backupService = new BackupService();
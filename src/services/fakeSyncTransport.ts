@@ -0,0 +1,349 @@
+import {
+  User,
+  Project,
+  Report,
+  ReportSubmission,
+  SyncChanges,
+  SyncOperation,
+  SyncOperationResult,
+  SyncQueue,
+  AttachmentUploadInfo
+} from '../types';
+import { ApiError, AuthError, ClientError } from './httpClient';
+import { SyncTransport } from './syncTransport';
+
+type EntityType = SyncQueue['type'];
+
+// Entidade de cada tipo, no formato devolvido por pullChanges
+interface SyncEntities {
+  user: User;
+  project: Project;
+  report: Report;
+  submission: ReportSubmission;
+}
+
+type StoredEntity = SyncEntities[EntityType];
+
+type EntityChange = { [K in EntityType]: { type: K; entity: SyncEntities[K] } }[EntityType];
+
+type ChangeEntry = EntityChange & { seq: number };
+
+interface FakeUpload {
+  info: AttachmentUploadInfo;
+  chunks: string[];
+  offset: number;
+}
+
+interface InjectedResult {
+  status: number;
+  body?: any;
+}
+
+const PULL_PAGE_SIZE = 100;
+
+// Servidor em memória para desenvolvimento: guarda as entidades recebidas,
+// versiona as submissões e permite injetar falhas, latência e conflitos
+export class FakeSyncTransport implements SyncTransport {
+  private entities: Map<string, EntityChange> = new Map();
+  private changeLog: ChangeEntry[] = [];
+  private seq: number = 0;
+  // Resultados já devolvidos, por chave de idempotência
+  private processedKeys: Map<string, SyncOperationResult> = new Map();
+  private requestFailures: ApiError[] = [];
+  private entityFailures: Map<string, InjectedResult> = new Map();
+  private latencyMs: number = 0;
+  private authToken: string | null = null;
+  private uploads: Map<string, FakeUpload> = new Map();
+  private attachments: Map<string, AttachmentUploadInfo & { chunks: string[] }> = new Map();
+  private uploadSeq: number = 0;
+  private requireAuth: boolean = false;
+
+  setAuthToken(token: string | null): void {
+    this.authToken = token;
+  }
+
+  async pushBatch(operations: SyncOperation[]): Promise<SyncOperationResult[]> {
+    await this.beforeRequest();
+    return operations.map(operation => this.applyOperation(operation));
+  }
+
+  async pullChanges(cursor: string | null): Promise<SyncChanges> {
+    await this.beforeRequest();
+
+    const since = cursor ? Number(cursor) : 0;
+    const pending = this.changeLog.filter(change => change.seq > since);
+    const page = pending.slice(0, PULL_PAGE_SIZE);
+
+    const changes: SyncChanges = {
+      cursor: String(page.length > 0 ? page[page.length - 1].seq : since),
+      hasMore: pending.length > page.length,
+    };
+
+    // Apenas a última versão de cada entidade na página
+    const latest = new Map<string, ChangeEntry>();
+    page.forEach(change => latest.set(this.key(change.type, change.entity.id), change));
+
+    latest.forEach(change => {
+      switch (change.type) {
+        case 'user':
+          changes.users = [...(changes.users || []), { ...change.entity }];
+          break;
+        case 'project':
+          changes.projects = [...(changes.projects || []), { ...change.entity }];
+          break;
+        case 'report':
+          changes.reports = [...(changes.reports || []), { ...change.entity }];
+          break;
+        case 'submission':
+          changes.submissions = [...(changes.submissions || []), { ...change.entity }];
+          break;
+      }
+    });
+
+    return changes;
+  }
+
+  async createUpload(info: AttachmentUploadInfo): Promise<{ uploadId: string }> {
+    await this.beforeRequest();
+
+    this.uploadSeq++;
+    const uploadId = `upload_${this.uploadSeq}`;
+    this.uploads.set(uploadId, { info, chunks: [], offset: 0 });
+    return { uploadId };
+  }
+
+  async getUploadOffset(uploadId: string): Promise<number> {
+    await this.beforeRequest();
+    return this.getUpload(uploadId).offset;
+  }
+
+  async uploadChunk(uploadId: string, offset: number, base64Data: string): Promise<number> {
+    await this.beforeRequest();
+
+    const upload = this.getUpload(uploadId);
+    // Trecho fora de ordem é ignorado; o cliente continua do offset devolvido
+    if (offset === upload.offset) {
+      upload.chunks.push(base64Data);
+      upload.offset += this.decodedLength(base64Data);
+    }
+    return upload.offset;
+  }
+
+  async completeUpload(uploadId: string): Promise<{ attachmentId: string }> {
+    await this.beforeRequest();
+
+    const upload = this.getUpload(uploadId);
+    if (upload.offset !== upload.info.size) {
+      throw new ClientError(400, `HTTP 400: Upload incomplete (${upload.offset}/${upload.info.size})`);
+    }
+
+    const attachmentId = `attachment_${uploadId}`;
+    this.attachments.set(attachmentId, { ...upload.info, chunks: upload.chunks });
+    this.uploads.delete(uploadId);
+    return { attachmentId };
+  }
+
+  // Métodos de controle usados para montar cenários
+
+  // Simula a perda da sessão de upload no servidor (ex.: expirou)
+  expireUpload(uploadId: string): void {
+    this.uploads.delete(uploadId);
+  }
+
+  setLatency(ms: number): void {
+    this.latencyMs = ms;
+  }
+
+  // Exige um token nas requisições, respondendo 401 quando ausente
+  setRequireAuth(required: boolean): void {
+    this.requireAuth = required;
+  }
+
+  // As próximas requisições falham inteiras com os erros informados, em ordem
+  failNextRequests(...errors: ApiError[]): void {
+    this.requestFailures.push(...errors);
+  }
+
+  // Toda operação sobre a entidade recebe este resultado até clearFailures()
+  failEntity(entityId: string, status: number, body?: any): void {
+    this.entityFailures.set(entityId, { status, body });
+  }
+
+  clearFailures(): void {
+    this.requestFailures = [];
+    this.entityFailures.clear();
+  }
+
+  // Grava entidades como se tivessem vindo de outro dispositivo
+  seed(changes: Omit<SyncChanges, 'cursor' | 'hasMore'>): void {
+    (changes.users || []).forEach(entity => this.store({ type: 'user', entity: { ...entity } }));
+    (changes.projects || []).forEach(entity => this.store({ type: 'project', entity: { ...entity } }));
+    (changes.reports || []).forEach(entity => this.store({ type: 'report', entity: { ...entity } }));
+    (changes.submissions || []).forEach(entity => this.store({ type: 'submission', entity: { ...entity } }));
+  }
+
+  // Altera uma submissão no servidor, provocando conflito com edições locais
+  simulateRemoteEdit(submissionId: string, data: Record<string, any>): void {
+    const current = this.getSubmission(submissionId);
+    if (!current) {
+      throw new Error(`Submission ${submissionId} not found in fake server`);
+    }
+
+    this.store({
+      type: 'submission',
+      entity: {
+        ...current,
+        data: { ...current.data, ...data },
+        version: (current.version ?? 0) + 1,
+        lastModified: new Date().toISOString(),
+      },
+    });
+  }
+
+  getEntity(type: EntityType, id: string): StoredEntity | undefined {
+    return this.entities.get(this.key(type, id))?.entity;
+  }
+
+  getSubmission(id: string): ReportSubmission | undefined {
+    const stored = this.entities.get(this.key('submission', id));
+    return stored?.type === 'submission' ? stored.entity : undefined;
+  }
+
+  reset(): void {
+    this.entities.clear();
+    this.changeLog = [];
+    this.seq = 0;
+    this.processedKeys.clear();
+    this.uploads.clear();
+    this.attachments.clear();
+    this.uploadSeq = 0;
+    this.clearFailures();
+    this.latencyMs = 0;
+    this.requireAuth = false;
+  }
+
+  private async beforeRequest(): Promise<void> {
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+
+    const failure = this.requestFailures.shift();
+    if (failure) {
+      throw failure;
+    }
+
+    if (this.requireAuth && !this.authToken) {
+      throw new AuthError(401, 'HTTP 401: Missing token');
+    }
+  }
+
+  private applyOperation(operation: SyncOperation): SyncOperationResult {
+    // Reenvio de uma operação já aplicada: devolve o mesmo resultado
+    const previous = this.processedKeys.get(operation.idempotencyKey);
+    if (previous) {
+      return previous;
+    }
+
+    const injected = this.entityFailures.get(operation.entityId);
+    if (injected) {
+      return { idempotencyKey: operation.idempotencyKey, ...injected };
+    }
+
+    const result: SyncOperationResult = {
+      idempotencyKey: operation.idempotencyKey,
+      ...this.write(operation),
+    };
+
+    if (result.status < 300) {
+      this.processedKeys.set(operation.idempotencyKey, result);
+    }
+    return result;
+  }
+
+  private write(operation: SyncOperation): InjectedResult {
+    const current = this.getEntity(operation.type, operation.entityId);
+    // Como no servidor real, o corpo da operação chega como JSON
+    const body = JSON.parse(JSON.stringify(operation.data ?? {}));
+
+    // Exclusões ficam marcadas para que os outros dispositivos as recebam;
+    // qualquer escrita posterior restaura a entidade
+    if (operation.action === 'delete') {
+      const stored = this.entities.get(this.key(operation.type, operation.entityId));
+      if (stored) {
+        this.markDeleted(stored, new Date().toISOString());
+      }
+      return { status: 204 };
+    }
+
+    if (operation.type !== 'submission') {
+      this.store({ type: operation.type, entity: { ...current, ...body, id: operation.entityId, deletedAt: undefined } });
+      return { status: 200 };
+    }
+
+    // Mesma regra do servidor real: a escrita precisa partir da versão atual
+    const submission = this.getSubmission(operation.entityId);
+    const expectedVersion = operation.expectedVersion ?? null;
+    const currentVersion = submission ? submission.version ?? 0 : null;
+    if (submission && expectedVersion !== currentVersion) {
+      return {
+        status: 409,
+        body: { message: 'Version conflict', current: { ...submission } },
+      };
+    }
+
+    const version = (currentVersion ?? 0) + 1;
+    this.store({
+      type: 'submission',
+      entity: {
+        ...submission,
+        ...body,
+        id: operation.entityId,
+        version,
+        lastModified: new Date().toISOString(),
+        isOffline: false,
+        syncStatus: 'synced',
+        deletedAt: undefined,
+      },
+    });
+
+    return { status: submission ? 200 : 201, body: { version } };
+  }
+
+  private markDeleted(change: EntityChange, deletedAt: string): void {
+    switch (change.type) {
+      case 'project':
+        if (!change.entity.deletedAt) this.store({ type: 'project', entity: { ...change.entity, deletedAt } });
+        break;
+      case 'report':
+        if (!change.entity.deletedAt) this.store({ type: 'report', entity: { ...change.entity, deletedAt } });
+        break;
+      case 'submission':
+        if (!change.entity.deletedAt) this.store({ type: 'submission', entity: { ...change.entity, deletedAt } });
+        break;
+      // Usuários não têm exclusão lógica
+    }
+  }
+
+  private getUpload(uploadId: string): FakeUpload {
+    const upload = this.uploads.get(uploadId);
+    if (!upload) {
+      throw new ClientError(404, `HTTP 404: Upload ${uploadId} not found`);
+    }
+    return upload;
+  }
+
+  private decodedLength(base64Data: string): number {
+    const padding = base64Data.endsWith('==') ? 2 : base64Data.endsWith('=') ? 1 : 0;
+    return (base64Data.length * 3) / 4 - padding;
+  }
+
+  private store(change: EntityChange): void {
+    this.entities.set(this.key(change.type, change.entity.id), change);
+    this.seq++;
+    this.changeLog.push({ ...change, seq: this.seq });
+  }
+
+  private key(type: EntityType, id: string): string {
+    return `${type}:${id}`;
+  }
+}
@@ -0,0 +1,83 @@
+import { getRepository } from '../database';
+import { Report, ReportField, ReportSubmission } from '../types';
+
+// Tipos cujos valores podem ser copiados de um para o outro
+const COMPATIBLE_TYPES: ReportField['type'][][] = [
+  ['text', 'textarea'],
+  ['file', 'image'],
+];
+
+const isCompatible = (from: ReportField, to: ReportField, value: any): boolean => {
+  const sameFamily = from.type === to.type ||
+    COMPATIBLE_TYPES.some(group => group.includes(from.type) && group.includes(to.type));
+  if (!sameFamily) {
+    return false;
+  }
+  // Opção que deixou de existir na lista não é mantida
+  if (to.type === 'select') {
+    return (to.options || []).includes(value);
+  }
+  return true;
+};
+
+export interface AnswerMigration {
+  data: Record<string, any>;
+  dropped: ReportField[]; // Campos antigos cujas respostas não puderam ser levadas
+}
+
+// Leva as respostas de uma versão do formulário para outra. Por padrão cada
+// campo segue para o campo de mesmo id; `mapping` (id antigo -> id novo)
+// permite redirecionar campos recriados
+export const migrateAnswers = (
+  data: Record<string, any>,
+  fromFields: ReportField[],
+  toFields: ReportField[],
+  mapping: Record<string, string> = {}
+): AnswerMigration => {
+  const migrated: Record<string, any> = {};
+  const dropped: ReportField[] = [];
+
+  fromFields.forEach(field => {
+    const value = data[field.id];
+    if (value === undefined || value === null || value === '') {
+      return;
+    }
+
+    const target = toFields.find(f => f.id === (mapping[field.id] ?? field.id));
+    if (target && isCompatible(field, target, value)) {
+      migrated[target.id] = value;
+    } else {
+      dropped.push(field);
+    }
+  });
+
+  return { data: migrated, dropped };
+};
+
+// Campos da nova versão que podem receber a resposta descartada de `field`,
+// deixando de fora os que já recebem outra resposta
+export const getMappingTargets = (
+  field: ReportField,
+  value: any,
+  toFields: ReportField[],
+  taken: string[]
+): ReportField[] =>
+  toFields.filter(target => !taken.includes(target.id) && isCompatible(field, target, value));
+
+class FormVersionService {
+  // Campos da versão do formulário em que a resposta foi preenchida
+  async getFieldsForSubmission(report: Report, submission: ReportSubmission | null): Promise<ReportField[]> {
+    if (!submission || !this.isOutdated(report, submission)) {
+      return report.fields;
+    }
+
+    const definition = await getRepository().getReportDefinition(report.id, submission.formVersion ?? 1);
+    return definition ? definition.fields : report.fields;
+  }
+
+  isOutdated(report: Report, submission: ReportSubmission): boolean {
+    return (submission.formVersion ?? 1) !== (report.formVersion ?? 1);
+  }
+}
+
+export const formVersionService = new FormVersionService();
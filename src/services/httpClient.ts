@@ -0,0 +1,228 @@
+import { API_CONFIG } from '../config/api';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type ApiErrorKind = 'network' | 'timeout' | 'auth' | 'conflict' | 'client' | 'server';
+
+// Erro base de todas as falhas de comunicação com a API
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly body?: any;
+
+  constructor(kind: ApiErrorKind, message: string, status?: number, body?: any) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.body = body;
+  }
+
+  // Indica se vale a pena tentar a mesma requisição novamente mais tarde
+  get retryable(): boolean {
+    return this.kind === 'network' || this.kind === 'timeout' || this.kind === 'server';
+  }
+}
+
+// Falha de conectividade (sem resposta do servidor)
+export class NetworkError extends ApiError {
+  constructor(message: string) {
+    super('network', message);
+    this.name = 'NetworkError';
+  }
+}
+
+// A requisição excedeu o tempo limite configurado
+export class TimeoutError extends ApiError {
+  constructor(timeoutMs: number) {
+    super('timeout', `Request timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Token ausente, expirado ou sem permissão (401/403)
+export class AuthError extends ApiError {
+  constructor(status: number, message: string, body?: any) {
+    super('auth', message, status, body);
+    this.name = 'AuthError';
+  }
+}
+
+// O recurso foi alterado por outro cliente desde a versão enviada (409)
+export class ConflictError extends ApiError {
+  constructor(message: string, body?: any) {
+    super('conflict', message, 409, body);
+    this.name = 'ConflictError';
+  }
+}
+
+// Requisição rejeitada pelo servidor (demais 4xx)
+export class ClientError extends ApiError {
+  constructor(status: number, message: string, body?: any) {
+    super('client', message, status, body);
+    this.name = 'ClientError';
+  }
+
+  get retryable(): boolean {
+    // 408 (timeout) e 429 (rate limit) são temporários
+    return this.status === 408 || this.status === 429;
+  }
+}
+
+// Erro interno do servidor (5xx)
+export class ServerError extends ApiError {
+  constructor(status: number, message: string, body?: any) {
+    super('server', message, status, body);
+    this.name = 'ServerError';
+  }
+}
+
+interface RequestOptions {
+  body?: any;
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+}
+
+class HttpClient {
+  private baseUrl: string = API_CONFIG.baseUrl;
+  private timeoutMs: number = API_CONFIG.timeoutMs;
+  private authToken: string | null = null;
+
+  configure(config: { baseUrl?: string; timeoutMs?: number }): void {
+    if (config.baseUrl !== undefined) {
+      this.baseUrl = config.baseUrl;
+    }
+    if (config.timeoutMs !== undefined) {
+      this.timeoutMs = config.timeoutMs;
+    }
+  }
+
+  setAuthToken(token: string | null): void {
+    this.authToken = token;
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  async request<T = any>(method: HttpMethod, path: string, options: RequestOptions = {}): Promise<T> {
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      ...options.headers,
+    };
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (this.authToken) {
+      headers.Authorization = `Bearer ${this.authToken}`;
+    }
+
+    // O tempo limite vale até o corpo terminar de chegar: uma leitura
+    // travada no meio também é abortada
+    let response: Response;
+    let body: any;
+    try {
+      response = await fetch(this.buildUrl(path), {
+        method,
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: controller.signal,
+      });
+      body = await this.parseBody(response);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new TimeoutError(timeoutMs);
+      }
+      throw new NetworkError(error instanceof Error ? error.message : 'Network request failed');
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      throw createHttpError(response.status, body);
+    }
+
+    return body as T;
+  }
+
+  get<T = any>(path: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('GET', path, options);
+  }
+
+  post<T = any>(path: string, body?: any, options?: RequestOptions): Promise<T> {
+    return this.request<T>('POST', path, { ...options, body });
+  }
+
+  put<T = any>(path: string, body?: any, options?: RequestOptions): Promise<T> {
+    return this.request<T>('PUT', path, { ...options, body });
+  }
+
+  delete<T = any>(path: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('DELETE', path, options);
+  }
+
+  private buildUrl(path: string): string {
+    if (/^https?:\/\//.test(path)) {
+      return path;
+    }
+    return `${this.baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+  }
+
+  private async parseBody(response: Response): Promise<any> {
+    if (response.status === 204) {
+      return null;
+    }
+
+    const text = await response.text();
+    if (!text) {
+      return null;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('application/json')) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    }
+
+    return text;
+  }
+}
+
+// Converte uma resposta HTTP de erro na subclasse de ApiError correspondente
+export const createHttpError = (status: number, body: any): ApiError => {
+  const detail =
+    body && typeof body === 'object' && (body.message || body.error)
+      ? body.message || body.error
+      : typeof body === 'string' && body
+        ? body
+        : 'Request failed';
+  const message = `HTTP ${status}: ${detail}`;
+
+  if (status === 401 || status === 403) {
+    return new AuthError(status, message, body);
+  }
+  if (status === 409) {
+    return new ConflictError(message, body);
+  }
+  if (status >= 500) {
+    return new ServerError(status, message, body);
+  }
+  return new ClientError(status, message, body);
+};
+
+// Formata um erro para ser gravado na fila de sincronização
+export const describeApiError = (error: unknown): string => {
+  if (error instanceof ApiError) {
+    return `[${error.kind}] ${error.message}`;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+};
+
+export const httpClient = new HttpClient();
@@ -0,0 +1,112 @@
+import { getRepository } from '../database';
+import { RETENTION_CONFIG } from '../config/retention';
+import { syncService } from './syncService';
+import { Project, RetentionLogEntry, RetentionRule, SyncQueue } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Aplica as regras de retenção dos projetos aos dados do usuário da sessão.
+// Arquivar relatórios e descartar rascunhos passa pelo syncService, para
+// que a mudança chegue ao servidor; cada item afetado fica registrado
+class RetentionService {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<RetentionLogEntry[]> | null = null;
+
+  // Executa agora e depois periodicamente, até stop()
+  start(userId: string): void {
+    this.stop();
+
+    const run = () => {
+      this.run(userId).catch(error => {
+        console.error('Error applying retention rules:', error);
+      });
+    };
+    run();
+    this.timer = setInterval(run, RETENTION_CONFIG.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Aplica as regras de todos os projetos, ou só as de `projectId`; retorna
+  // o que foi registrado. Execuções simultâneas aguardam a que está em curso
+  async run(userId: string, projectId?: string): Promise<RetentionLogEntry[]> {
+    while (this.running) {
+      await this.running.catch(() => undefined);
+    }
+
+    this.running = this.applyAll(userId, projectId);
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  async getLog(userId: string, projectId: string): Promise<RetentionLogEntry[]> {
+    return getRepository().getRetentionLog(userId, projectId, RETENTION_CONFIG.logLimit);
+  }
+
+  private async applyAll(userId: string, projectId?: string): Promise<RetentionLogEntry[]> {
+    const projects = (await getRepository().getProjectsWithRetention())
+      .filter(project => !projectId || project.id === projectId);
+
+    const entries: RetentionLogEntry[] = [];
+    for (const project of projects) {
+      entries.push(...(await this.applyPolicy(userId, project)));
+    }
+
+    if (entries.length > 0) {
+      console.log(`Retention rules applied to ${entries.length} item(s)`);
+    }
+    return entries;
+  }
+
+  private async applyPolicy(userId: string, project: Project): Promise<RetentionLogEntry[]> {
+    const policy = project.settings.retention || {};
+    const entries: RetentionLogEntry[] = [];
+    const log = async (rule: RetentionRule, entityType: SyncQueue['type'], entityId: string, details?: string) => {
+      const entry = {
+        userId,
+        projectId: project.id,
+        rule,
+        entityType,
+        entityId,
+        details,
+        appliedAt: new Date().toISOString(),
+      };
+      const id = await getRepository().addRetentionLogEntry(entry);
+      entries.push({ ...entry, id });
+    };
+
+    if (policy.archiveInactiveReportsAfterDays) {
+      const before = this.daysAgo(policy.archiveInactiveReportsAfterDays);
+      for (const report of await getRepository().getInactiveReports(project.id, userId, before)) {
+        await syncService.updateReportOffline(report.id, { status: 'archived' });
+        await log('archive_report', 'report', report.id, report.title);
+      }
+    }
+
+    // Rascunhos vão para a lixeira, de onde ainda podem ser restaurados
+    if (policy.deleteDraftsAfterDays) {
+      const before = this.daysAgo(policy.deleteDraftsAfterDays);
+      for (const draft of await getRepository().getAbandonedDrafts(project.id, userId, before)) {
+        const report = await getRepository().getReportById(draft.reportId);
+        await syncService.moveToTrashOffline('submission', draft.id);
+        await log('delete_draft', 'submission', draft.id, report?.title);
+      }
+    }
+
+    return entries;
+  }
+
+  private daysAgo(days: number): string {
+    return new Date(Date.now() - days * DAY_MS).toISOString();
+  }
+}
+
+export const retentionService = new RetentionService();
@@ -0,0 +1,61 @@
+import { getRepository } from '../database';
+import { Report, SearchResult, User } from '../types';
+
+// Relatórios que o usuário pode ver: os que criou, os públicos e os
+// compartilhados com o seu email
+export const canAccessReport = (report: Report, user: User): boolean =>
+  report.createdBy === user.id ||
+  report.permissions.canFill.includes('*') ||
+  report.permissions.canFill.includes(user.email);
+
+// Resultados por busca quando a tela não informa um limite
+const DEFAULT_LIMIT = 50;
+
+class SearchService {
+  // Busca no índice local e descarta o que o usuário não pode abrir.
+  // Respostas de outras pessoas só aparecem para o autor do relatório.
+  // O índice não conhece as permissões: se o filtro deixa menos que `limit`,
+  // a busca é refeita pedindo mais resultados, até completar ou acabarem
+  async search(query: string, user: User, limit: number = DEFAULT_LIMIT): Promise<SearchResult[]> {
+    const reports = new Map<string, Report | null>();
+    const visibility = new Map<string, boolean>();
+    let fetchLimit = limit;
+
+    while (true) {
+      const results = await getRepository().search(query, fetchLimit);
+      const visible: SearchResult[] = [];
+      for (const result of results) {
+        const key = `${result.type}:${result.id}`;
+        if (!visibility.has(key)) {
+          visibility.set(key, await this.isVisible(result, user, reports));
+        }
+        if (visibility.get(key)) {
+          visible.push(result);
+        }
+      }
+
+      if (visible.length >= limit || results.length < fetchLimit) {
+        return visible.slice(0, limit);
+      }
+      fetchLimit *= 4;
+    }
+  }
+
+  private async isVisible(result: SearchResult, user: User, reports: Map<string, Report | null>): Promise<boolean> {
+    if (!reports.has(result.reportId)) {
+      reports.set(result.reportId, await getRepository().getReportById(result.reportId));
+    }
+    const report = reports.get(result.reportId);
+    if (!report || !canAccessReport(report, user)) {
+      return false;
+    }
+
+    if (result.type === 'submission') {
+      const submission = await getRepository().getSubmissionById(result.id);
+      return !!submission && (submission.userId === user.id || report.createdBy === user.id);
+    }
+    return true;
+  }
+}
+
+export const searchService = new SearchService();
@@ -1,23 +1,99 @@
-import { databaseService } from '../database/database';
-import { SyncQueue, ReportSubmission } from '../types';
+import { getRepository, Repository } from '../database';
+import {
+  SyncQueue,
+  ReportSubmission,
+  DeadLetterItem,
+  SyncChanges,
+  SubmissionConflict,
+  SyncStatus,
+  SyncEvent,
+  SyncOperation,
+  SyncOperationResult,
+  Attachment,
+  ReportField,
+  TrashItem,
+  Project,
+  Report
+} from '../types';
 import NetInfo from '@react-native-community/netinfo';
+import {
+  describeApiError,
+  createHttpError,
+  ApiError,
+  AuthError,
+  ConflictError,
+  ClientError,
+  ServerError
+} from './httpClient';
+import { SYNC_CONFIG } from '../config/sync';
+import { SyncTransport, HttpSyncTransport } from './syncTransport';
+import { FakeSyncTransport } from './fakeSyncTransport';
+import { attachmentService } from './attachmentService';
+import { versionService } from './versionService';
+import { migrateAnswers } from './formVersionService';
 
-class SyncService {
+const PULL_CURSOR_KEY = 'pull_cursor';
+const LAST_SYNC_KEY = 'last_sync';
+
+export type SyncListener = (event: SyncEvent, status: SyncStatus) => void;
+
+interface SyncSession {
+  userId: string;
+  token: string;
+}
+
+// Em desenvolvimento, EXPO_PUBLIC_SYNC_TRANSPORT=fake usa o servidor em memória
+const createDefaultTransport = (): SyncTransport => {
+  if (__DEV__ && SYNC_CONFIG.transport === 'fake') {
+    console.log('Using in-memory fake sync transport');
+    return new FakeSyncTransport();
+  }
+  return new HttpSyncTransport();
+};
+
+export class SyncService {
+  private transport: SyncTransport;
   private isOnline: boolean = false;
+  // Sessão autenticada; sem ela nada é enviado ou recebido
+  private session: SyncSession | null = null;
   private syncInProgress: boolean = false;
   private syncInterval: NodeJS.Timeout | null = null;
+  // Itens da fila que estão sendo enviados neste momento
+  private inFlightIds: Set<string> = new Set();
+  private listeners: Set<SyncListener> = new Set();
+  private status: SyncStatus = {
+    isOnline: false,
+    isSyncing: false,
+    processed: 0,
+    total: 0,
+    pendingItems: 0,
+    failedItems: 0,
+    lastSyncTime: null,
+  };
 
-  constructor() {
+  constructor(transport: SyncTransport = createDefaultTransport()) {
+    this.transport = transport;
     this.initNetworkListener();
   }
 
+  // Troca o canal com o servidor (ex.: FakeSyncTransport em cenários de teste)
+  setTransport(transport: SyncTransport): void {
+    transport.setAuthToken(this.session?.token ?? null);
+    this.transport = transport;
+  }
+
+  getTransport(): SyncTransport {
+    return this.transport;
+  }
+
   private initNetworkListener(): void {
     NetInfo.addEventListener(state => {
       const wasOffline = !this.isOnline;
       this.isOnline = state.isConnected ?? false;
+      this.emit({ type: 'connectivity', isOnline: this.isOnline }, { isOnline: this.isOnline });
       
       // Se voltou a ficar online, inicia sincronização
-      if (wasOffline && this.isOnline) {
+      if (wasOffline && this.isOnline && this.session) {
         this.startSync();
       }
       
@@ -28,30 +104,126 @@ class SyncService {
     });
   }
 
+  // Chamado pelo AuthContext ao entrar: retoma a fila pendente deste usuário
+  async startSession(userId: string, token: string): Promise<void> {
+    this.session = { userId, token };
+    this.transport.setAuthToken(token);
+
+    if (getRepository().isInitialized()) {
+      await getRepository().assignUnownedSyncItems();
+      const lastSyncTime = await getRepository().getSyncState(`${LAST_SYNC_KEY}:${userId}`);
+      this.status = { ...this.status, lastSyncTime, lastError: undefined };
+      await this.refreshCounts();
+    }
+
+    console.log(`Sync session started for user ${userId}`);
+    this.startSync();
+  }
+
+  // Chamado ao sair: a fila é mantida até o mesmo usuário entrar novamente
+  endSession(): void {
+    if (!this.session) {
+      return;
+    }
+
+    console.log(`Sync session ended for user ${this.session.userId}`);
+    this.session = null;
+    this.transport.setAuthToken(null);
+    this.stopSync();
+    this.emit({ type: 'queueChanged' }, {
+      isSyncing: false,
+      pendingItems: 0,
+      failedItems: 0,
+      lastSyncTime: null,
+      lastError: undefined,
+    });
+  }
+
+  // Registra um ouvinte dos eventos de sincronização; retorna a função para removê-lo
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  private emit(event: SyncEvent, changes: Partial<SyncStatus> = {}): void {
+    this.status = { ...this.status, ...changes };
+    this.listeners.forEach(listener => {
+      try {
+        listener(event, this.status);
+      } catch (error) {
+        console.error('Sync listener failed:', error);
+      }
+    });
+  }
+
+  // Atualiza os contadores da fila do usuário atual
+  private async refreshCounts(): Promise<void> {
+    if (!this.session || !getRepository().isInitialized()) {
+      return;
+    }
+
+    const pendingItems = await getRepository().getSyncQueueCount(this.session.userId);
+    const failedItems = await getRepository().getDeadLetterCount(this.session.userId);
+    this.emit({ type: 'queueChanged' }, { pendingItems, failedItems });
+  }
+
+  getSessionUserId(): string | null {
+    return this.session?.userId ?? null;
+  }
+
   async startSync(): Promise<void> {
-    if (!this.isOnline || this.syncInProgress) {
+    if (!this.isOnline || this.syncInProgress || !this.session) {
       return;
     }
 
     console.log('Starting sync process...');
     this.syncInProgress = true;
+    const { userId } = this.session;
 
     try {
-      // Verifica se o banco foi inicializado antes de sincronizar
-      if (!databaseService.isInitialized()) {
+      // Verifica se o banco foi inicializado antes de sincronizar; tenta de
+      // novo no próximo intervalo
+      if (!getRepository().isInitialized()) {
         console.warn('Database not initialized, skipping sync');
+        this.scheduleSyncInterval();
         return;
       }
 
-      await this.processSyncQueue();
-      await this.syncPendingSubmissions();
+      this.emit({ type: 'started' }, { isSyncing: true, processed: 0, total: 0 });
+
+      // Envia as alterações locais antes de buscar as do servidor
+      await this.processSyncQueue(userId);
+      await this.pullChanges(userId);
       
-      // Programa próxima sincronização em 30 segundos
-      this.scheduleSyncInterval();
+      // Programa próxima sincronização em 30 segundos, se a sessão continua ativa
+      if (this.isSessionUser(userId)) {
+        const lastSyncTime = new Date().toISOString();
+        await getRepository().setSyncState(`${LAST_SYNC_KEY}:${userId}`, lastSyncTime);
+        await this.refreshCounts();
+        this.emit({ type: 'completed', lastSyncTime }, {
+          isSyncing: false,
+          lastSyncTime,
+          lastError: undefined,
+        });
+        this.scheduleSyncInterval();
+      }
     } catch (error) {
       console.error('Sync process failed:', error);
+      const message = describeApiError(error);
+      this.emit({ type: 'failed', error: message }, { isSyncing: false, lastError: message });
     } finally {
       this.syncInProgress = false;
+      // Outro usuário entrou durante o ciclo: o startSync da sessão dele
+      // retornou sem fazer nada, e este ciclo não agendou o próximo
+      if (this.session && !this.isSessionUser(userId)) {
+        this.startSync();
+      }
     }
   }
 
@@ -69,118 +241,462 @@ class SyncService {
       if (this.isOnline && !this.syncInProgress) {
         this.startSync();
       }
-    }, 30000); // 30 segundos
+    }, SYNC_CONFIG.intervalMs);
+  }
+
+  private isSessionUser(userId: string): boolean {
+    return this.session?.userId === userId;
+  }
+
+  private requireSession(): SyncSession {
+    if (!this.session) {
+      throw new Error('No authenticated sync session');
+    }
+    return this.session;
   }
 
-  private async processSyncQueue(): Promise<void> {
-    const pendingItems = await databaseService.getPendingSyncItems();
+  private async processSyncQueue(userId: string): Promise<void> {
+    // Apenas itens do usuário cujo backoff já expirou
+    const pendingItems = await getRepository().getPendingSyncItems(userId);
+    const total = pendingItems.length;
+    let processed = 0;
+
+    this.emit({ type: 'progress', processed, total }, { processed, total });
+
+    const onItemDone = () => {
+      processed++;
+      this.emit({ type: 'progress', processed, total }, { processed });
+    };
     
-    for (const item of pendingItems) {
+    for (let start = 0; start < pendingItems.length; start += SYNC_CONFIG.batchSize) {
+      // Logout durante o ciclo: o restante fica para a próxima sessão
+      if (!this.isSessionUser(userId)) {
+        break;
+      }
+
+      const batch = pendingItems.slice(start, start + SYNC_CONFIG.batchSize);
+      const stop = await this.processBatch(batch, userId, onItemDone);
+      if (stop) {
+        break;
+      }
+    }
+  }
+
+  // Envia um lote de operações; retorna true se o ciclo deve ser interrompido
+  private async processBatch(
+    items: SyncQueue[],
+    userId: string,
+    onItemDone: () => void
+  ): Promise<boolean> {
+    const entries: { item: SyncQueue; operation: SyncOperation }[] = [];
+
+    for (const item of items) {
+      if (!(await this.belongsToUser(item, userId))) {
+        console.warn(`Skipping sync item ${item.id} owned by another user`);
+        onItemDone();
+        continue;
+      }
+
+      let operation: SyncOperation | null;
+      try {
+        operation = await this.buildOperation(item);
+      } catch (error) {
+        // Falha no upload dos anexos: a submissão só vai depois deles
+        const stop = await this.handleItemFailure(item, error);
+        onItemDone();
+        if (stop) {
+          return true;
+        }
+        continue;
+      }
+
+      if (!operation) {
+        // A entidade local não existe mais: não há o que enviar
+        await getRepository().completeSyncQueueItem(item);
+        onItemDone();
+        continue;
+      }
+
+      entries.push({ item, operation });
+    }
+
+    if (entries.length === 0) {
+      return false;
+    }
+
+    entries.forEach(({ item }) => this.inFlightIds.add(item.id));
+
+    try {
+      let results: SyncOperationResult[];
       try {
-        await this.syncItem(item);
-        await databaseService.removeSyncQueueItem(item.id);
-        console.log(`Synced item: ${item.type} ${item.action} ${item.entityId}`);
+        results = await this.transport.pushBatch(entries.map(({ operation }) => operation));
       } catch (error) {
-        console.error(`Failed to sync item ${item.id}:`, error);
-        await databaseService.updateSyncQueueItem(
-          item.id, 
-          item.attempts + 1, 
-          error instanceof Error ? error.message : 'Unknown error'
+        // A requisição inteira falhou: cada item recebe o mesmo erro
+        console.error('Failed to send sync batch:', error);
+        for (const { item } of entries) {
+          const stop = await this.handleItemFailure(item, error);
+          onItemDone();
+          if (stop) {
+            return true;
+          }
+        }
+        return false;
+      }
+
+      const resultsByKey = new Map(results.map(result => [result.idempotencyKey, result]));
+
+      for (const { item, operation } of entries) {
+        const result = resultsByKey.get(operation.idempotencyKey);
+        let stop = false;
+
+        if (!result) {
+          await this.handleItemFailure(
+            item,
+            new ServerError(500, 'Batch response has no result for this operation')
+          );
+        } else if (result.status >= 200 && result.status < 300) {
+          await this.completeItem(item, operation, result.body);
+        } else {
+          stop = await this.handleItemFailure(item, createHttpError(result.status, result.body));
+        }
+        onItemDone();
+
+        // Os itens restantes do lote voltam no próximo ciclo; a chave de
+        // idempotência evita que o servidor os aplique duas vezes
+        if (stop) {
+          return true;
+        }
+      }
+
+      return false;
+    } finally {
+      entries.forEach(({ item }) => this.inFlightIds.delete(item.id));
+    }
+  }
+
+  // Aplica à linha local o resultado de uma operação aceita pelo servidor
+  private async completeItem(
+    item: SyncQueue,
+    operation: SyncOperation,
+    body: any
+  ): Promise<void> {
+    await getRepository().withTransaction(async tx => {
+      // Se a entidade mudou durante o envio, o item continua na fila
+      const done = await tx.completeSyncQueueItem(item);
+
+      if (item.type === 'submission' && item.action !== 'delete') {
+        const serverVersion = body?.version ?? operation.data?.version;
+        await tx.markSubmissionSynced(item.entityId, serverVersion, !done);
+      }
+    });
+
+    console.log(`Synced item: ${item.type} ${item.action} ${item.entityId}`);
+    this.emit({ type: 'itemSynced', item });
+  }
+
+  // Registra a falha de um item; retorna true se os demais também falhariam
+  private async handleItemFailure(item: SyncQueue, error: unknown): Promise<boolean> {
+    console.error(`Failed to sync item ${item.id}:`, error);
+    const message = describeApiError(error);
+    let stop = false;
+
+    // Conflito de versão: guarda as duas cópias e aguarda o usuário. Sem a
+    // cópia do servidor não há o que mesclar, e o item segue o caminho das
+    // falhas definitivas abaixo
+    const conflictSaved =
+      error instanceof ConflictError &&
+      item.type === 'submission' &&
+      (await this.handleSubmissionConflict(item, error));
+
+    if (conflictSaved) {
+      // O item saiu da fila junto com o registro do conflito
+    } else if (error instanceof AuthError) {
+      // Sem autenticação válida os demais itens também falhariam;
+      // a tentativa não é contabilizada
+      await getRepository().updateSyncQueueItem(
+        item.id,
+        item.attempts,
+        message,
+        item.nextAttemptAt
+      );
+      stop = true;
+    } else {
+      const attempts = item.attempts + 1;
+      const permanent = error instanceof ApiError && !error.retryable;
+
+      if (permanent || attempts >= SYNC_CONFIG.maxAttempts) {
+        await getRepository().moveSyncItemToDeadLetter(
+          { ...item, attempts },
+          message
+        );
+        if (item.type === 'submission' && item.action !== 'delete') {
+          await getRepository().setSubmissionSyncStatus(item.entityId, 'error');
+        }
+        console.warn(`Sync item ${item.id} moved to dead letter queue`);
+      } else {
+        await getRepository().updateSyncQueueItem(
+          item.id,
+          attempts,
+          message,
+          this.getNextAttemptTime(attempts)
         );
       }
     }
+
+    this.emit({ type: 'itemFailed', item, error: message });
+    return stop;
   }
 
-  private async syncItem(item: SyncQueue): Promise<void> {
-    // Aqui seria implementada a lógica para sincronizar com o servidor
-    // Por enquanto, vamos simular uma requisição
-    
-    const endpoint = this.getEndpointForItem(item);
-    const method = this.getMethodForAction(item.action);
-    
-    // Simulação de requisição HTTP
-    await this.makeHttpRequest(endpoint, method, item.data);
+  // Submissões só são enviadas pelo próprio autor
+  private async belongsToUser(item: SyncQueue, userId: string): Promise<boolean> {
+    if (item.type !== 'submission' || item.action === 'delete') {
+      return true;
+    }
+
+    const submission = await getRepository().getSubmissionById(item.entityId);
+    return !submission || submission.userId === userId;
   }
 
-  private getEndpointForItem(item: SyncQueue): string {
-    const baseUrl = 'https://api.reportsapp.com'; // URL base da API
-    
-    switch (item.type) {
-      case 'submission':
-        return `${baseUrl}/submissions/${item.entityId}`;
-      case 'report':
-        return `${baseUrl}/reports/${item.entityId}`;
-      case 'user':
-        return `${baseUrl}/users/${item.entityId}`;
-      case 'project':
-        return `${baseUrl}/projects/${item.entityId}`;
-      default:
-        throw new Error(`Unknown sync item type: ${item.type}`);
+  // Backoff exponencial com jitter: metade fixa, metade aleatória
+  private getNextAttemptTime(attempts: number): string {
+    const exponential = SYNC_CONFIG.baseRetryDelayMs * Math.pow(2, attempts - 1);
+    const delay = Math.min(SYNC_CONFIG.maxRetryDelayMs, exponential);
+    const jittered = delay / 2 + Math.random() * (delay / 2);
+
+    return new Date(Date.now() + jittered).toISOString();
+  }
+
+  // Busca no servidor tudo o que mudou desde o último cursor salvo
+  private async pullChanges(userId: string): Promise<void> {
+    // Cada usuário tem seu próprio cursor, já que o servidor filtra pelo token
+    const cursorKey = `${PULL_CURSOR_KEY}:${userId}`;
+    let cursor = await getRepository().getSyncState(cursorKey);
+    let hasMore = true;
+
+    while (hasMore && this.isSessionUser(userId)) {
+      const changes = await this.transport.pullChanges(cursor);
+
+      await this.mergeChanges(changes, userId);
+
+      cursor = changes.cursor;
+      await getRepository().setSyncState(cursorKey, cursor);
+      hasMore = Boolean(changes.hasMore);
     }
   }
 
-  private getMethodForAction(action: string): string {
-    switch (action) {
-      case 'create':
-        return 'POST';
-      case 'update':
-        return 'PUT';
-      case 'delete':
-        return 'DELETE';
-      default:
-        throw new Error(`Unknown sync action: ${action}`);
+  private async mergeChanges(changes: SyncChanges, userId: string): Promise<void> {
+    // Ordem respeita as dependências entre as tabelas
+    for (const user of changes.users || []) {
+      await this.mergeEntity('user', user.id, () => getRepository().upsertUser(user));
+    }
+    // Projetos e relatórios com alteração local ainda na fila mantêm a cópia
+    // local, como as respostas (upsertSubmission); ela é enviada no próximo push
+    for (const project of changes.projects || []) {
+      await this.mergeEntity('project', project.id, async () => {
+        if (await getRepository().getSyncItemForEntity('project', project.id, userId)) return;
+        await getRepository().upsertProject(project);
+        await this.mergeTrashState('project', project.id, project.deletedAt, userId);
+      });
+    }
+    for (const report of changes.reports || []) {
+      await this.mergeEntity('report', report.id, async () => {
+        if (await getRepository().getSyncItemForEntity('report', report.id, userId)) return;
+        await getRepository().upsertReport(report);
+        await this.mergeTrashState('report', report.id, report.deletedAt, userId);
+      });
+    }
+    for (const submission of changes.submissions || []) {
+      await this.mergeEntity('submission', submission.id, async () => {
+        await getRepository().upsertSubmission(submission);
+        await this.mergeTrashState('submission', submission.id, submission.deletedAt, userId);
+      });
     }
   }
 
-  private async makeHttpRequest(url: string, method: string, data?: any): Promise<any> {
-    // Simulação de requisição HTTP
-    // Em uma implementação real, usaria fetch() ou axios
-    
-    return new Promise((resolve, reject) => {
-      setTimeout(() => {
-        // Simula sucesso na maioria dos casos
-        if (Math.random() > 0.1) {
-          resolve({ success: true });
-        } else {
-          reject(new Error('Network error'));
-        }
-      }, 1000);
-    });
+  // Leva para a lixeira local (ou tira dela) o que foi excluído ou restaurado
+  // em outro dispositivo. Uma exclusão local ainda não enviada prevalece
+  private async mergeTrashState(
+    type: TrashItem['type'],
+    id: string,
+    deletedAt: string | undefined,
+    userId: string
+  ): Promise<void> {
+    const pending = await getRepository().getSyncItemForEntity(type, id, userId);
+    if (pending?.action === 'delete') {
+      return;
+    }
+
+    if (deletedAt) {
+      await getRepository().moveToTrash(type, id);
+      return;
+    }
+
+    try {
+      await getRepository().restoreFromTrash(type, id);
+    } catch (error) {
+      // O projeto ou relatório que contém o item continua na lixeira
+      console.log(`Keeping ${type} ${id} in the trash:`, error);
+    }
   }
 
-  private async syncPendingSubmissions(): Promise<void> {
-    // Busca submissões que estão pendentes de sincronização
-    const submissions = await databaseService.getSubmissionsByUserId('current_user_id'); // TODO: pegar ID do usuário atual
-    const pendingSubmissions = submissions.filter(s => s.syncStatus === 'pending');
-    
-    for (const submission of pendingSubmissions) {
+  // Um registro inválido não deve impedir que o restante seja aplicado
+  private async mergeEntity(type: string, id: string, merge: () => Promise<void>): Promise<void> {
+    try {
+      await merge();
+    } catch (error) {
+      console.error(`Failed to merge ${type} ${id}:`, error);
+    }
+  }
+
+  // O servidor usa a chave para descartar reenvios da mesma operação;
+  // ela muda quando o item é combinado com uma alteração mais nova
+  private getIdempotencyKey(item: SyncQueue): string {
+    return `${item.id}-${item.revision ?? 0}`;
+  }
+
+  private async buildOperation(item: SyncQueue): Promise<SyncOperation | null> {
+    const operation: SyncOperation = {
+      idempotencyKey: this.getIdempotencyKey(item),
+      type: item.type,
+      action: item.action,
+      entityId: item.entityId,
+    };
+
+    if (item.action === 'delete') {
+      return operation;
+    }
+
+    if (item.type !== 'submission') {
+      return { ...operation, data: item.data };
+    }
+
+    // Submissões são enviadas a partir do estado atual da linha local.
+    // O servidor só aceita a escrita se expectedVersion for a versão que ele possui
+    const submission = await getRepository().getSubmissionById(item.entityId);
+    if (!submission) {
+      return null;
+    }
+
+    const remoteIds = await this.uploadAttachments(submission.data);
+
+    return {
+      ...operation,
+      data: {
+        reportId: submission.reportId,
+        userId: submission.userId,
+        data: attachmentService.rewriteRefs(submission.data, remoteIds),
+        status: submission.status,
+        submittedAt: submission.submittedAt,
+        version: submission.version,
+        formVersion: submission.formVersion,
+      },
+      expectedVersion: submission.serverVersion ?? null,
+    };
+  }
+
+  // Garante que os anexos da resposta estão no servidor; devolve id local -> id remoto
+  private async uploadAttachments(data: Record<string, any>): Promise<Record<string, string>> {
+    const remoteIds: Record<string, string> = {};
+
+    for (const ref of attachmentService.getAttachmentRefs(data)) {
+      const attachment = await getRepository().getAttachmentById(ref.attachmentId);
+      // Sem registro local, a referência já é o id do servidor
+      if (!attachment) {
+        continue;
+      }
+
+      if (attachment.uploadState === 'uploaded' && attachment.remoteId) {
+        remoteIds[attachment.id] = attachment.remoteId;
+        continue;
+      }
+
       try {
-        await this.syncSubmission(submission);
-        await databaseService.updateSubmission(submission.id, {
-          syncStatus: 'synced'
-        });
-        console.log(`Synced submission: ${submission.id}`);
+        remoteIds[attachment.id] = await this.uploadAttachment(attachment);
       } catch (error) {
-        console.error(`Failed to sync submission ${submission.id}:`, error);
-        await databaseService.updateSubmission(submission.id, {
-          syncStatus: 'error'
+        await getRepository().updateAttachmentUpload(attachment.id, {
+          error: describeApiError(error),
         });
+        throw error;
       }
     }
+
+    return remoteIds;
   }
 
-  private async syncSubmission(submission: ReportSubmission): Promise<void> {
-    const endpoint = `https://api.reportsapp.com/submissions/${submission.id}`;
-    const method = submission.isOffline ? 'POST' : 'PUT';
-    
-    await this.makeHttpRequest(endpoint, method, {
-      reportId: submission.reportId,
-      userId: submission.userId,
-      data: submission.data,
-      status: submission.status,
-      submittedAt: submission.submittedAt,
-      version: submission.version
+  // Envia o arquivo em trechos, retomando do offset que o servidor já recebeu
+  private async uploadAttachment(attachment: Attachment): Promise<string> {
+    let uploadId = attachment.uploadId;
+    let offset = 0;
+
+    if (uploadId) {
+      try {
+        offset = await this.transport.getUploadOffset(uploadId);
+      } catch (error) {
+        // Sessão expirada no servidor: recomeça do início
+        if (!(error instanceof ClientError && error.status === 404)) {
+          throw error;
+        }
+        uploadId = undefined;
+      }
+    }
+
+    if (!uploadId) {
+      const upload = await this.transport.createUpload({
+        fileName: attachment.fileName,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+        checksum: attachment.checksum,
+      });
+      uploadId = upload.uploadId;
+      offset = 0;
+    }
+
+    await getRepository().updateAttachmentUpload(attachment.id, {
+      uploadState: 'uploading',
+      uploadId,
+      uploadedBytes: offset,
+    });
+
+    while (offset < attachment.size) {
+      const chunk = attachmentService.readChunk(attachment, offset, SYNC_CONFIG.attachmentChunkSize);
+      const nextOffset = await this.transport.uploadChunk(uploadId, offset, chunk);
+      if (nextOffset === offset) {
+        throw new Error(`Upload of ${attachment.fileName} did not advance at offset ${offset}`);
+      }
+
+      offset = nextOffset;
+      await getRepository().updateAttachmentUpload(attachment.id, { uploadedBytes: offset });
+    }
+
+    const { attachmentId: remoteId } = await this.transport.completeUpload(uploadId);
+    await getRepository().updateAttachmentUpload(attachment.id, {
+      uploadState: 'uploaded',
+      remoteId,
+      error: null,
+    });
+    console.log(`Uploaded attachment ${attachment.id} as ${remoteId}`);
+
+    return remoteId;
+  }
+
+  // Registra o conflito e tira o item da fila na mesma transação; false se
+  // não há as duas cópias para mesclar
+  private async handleSubmissionConflict(item: SyncQueue, error: ConflictError): Promise<boolean> {
+    const submission = await getRepository().getSubmissionById(item.entityId);
+    const serverSubmission: ReportSubmission | undefined = error.body?.current;
+
+    if (!submission || !serverSubmission) {
+      console.warn(`Conflict for submission ${item.entityId} without server copy`);
+      return false;
+    }
+
+    await getRepository().withTransaction(async tx => {
+      await tx.saveSubmissionConflict(submission.id, submission.data, serverSubmission);
+      await tx.updateSubmission(submission.id, { syncStatus: 'conflict' });
+      await tx.removeSyncQueueItem(item.id);
     });
+    console.warn(`Version conflict detected for submission ${item.entityId}`);
+    return true;
   }
 
   // Método para adicionar item à fila de sincronização
@@ -190,19 +706,154 @@ class SyncService {
     entityId: string,
     data: any
   ): Promise<void> {
-    await databaseService.addToSyncQueue({
-      type,
-      action,
-      entityId,
-      data,
-      attempts: 0,
-      createdAt: new Date().toISOString()
-    });
+    await this.writeOffline(tx => this.enqueue(tx, type, action, entityId, data));
+  }
+
+  // Grava uma alteração local e o item correspondente da fila em uma única
+  // transação: se qualquer passo falhar, nenhum deles fica gravado. Depois do
+  // commit, atualiza os contadores e tenta enviar
+  private async writeOffline<T>(work: (tx: Repository) => Promise<T>): Promise<T> {
+    const result = await getRepository().withTransaction(work);
 
+    await this.refreshCounts();
     // Se estiver online, tenta sincronizar imediatamente
     if (this.isOnline && !this.syncInProgress) {
       this.startSync();
     }
+
+    return result;
+  }
+
+  // Cada entidade tem no máximo um item na fila: novas operações são
+  // mescladas à pendente, o que mantém a ordem e evita envios duplicados
+  private async enqueue(
+    tx: Repository,
+    type: SyncQueue['type'],
+    action: SyncQueue['action'],
+    entityId: string,
+    data: any
+  ): Promise<void> {
+    const { userId } = this.requireSession();
+    const existing = await tx.getSyncItemForEntity(type, entityId, userId);
+
+    if (!existing) {
+      // Se a criação da entidade está nas falhas, o servidor ainda não a
+      // conhece: ela volta para a fila, mesclada com a nova alteração, em vez
+      // de um update que nunca teria o create antes
+      const failedCreate = action === 'update'
+        ? (await tx.getDeadLetterItems(userId)).find(
+            item => item.type === type && item.entityId === entityId && item.action === 'create'
+          )
+        : undefined;
+      if (failedCreate) {
+        await tx.removeDeadLetterItem(failedCreate.id);
+      }
+
+      await tx.addToSyncQueue({
+        type,
+        action: failedCreate ? 'create' : action,
+        entityId,
+        data: failedCreate ? { ...failedCreate.data, ...data } : data,
+        attempts: 0,
+        userId,
+        createdAt: new Date().toISOString()
+      });
+    } else {
+      const merged = this.coalesceAction(existing, action);
+      if (merged === null) {
+        // Criada e excluída sem nunca chegar ao servidor
+        await tx.removeSyncQueueItem(existing.id);
+      } else {
+        await tx.coalesceSyncQueueItem(
+          existing.id,
+          merged,
+          merged === 'delete' ? {} : { ...existing.data, ...data }
+        );
+      }
+    }
+
+    if (type === 'submission' && action !== 'delete') {
+      await tx.setSubmissionSyncStatus(entityId, 'pending');
+    }
+  }
+
+  // Resultado de aplicar uma nova operação sobre a já pendente na fila;
+  // null indica que nada precisa ser enviado
+  private coalesceAction(
+    existing: SyncQueue,
+    action: SyncQueue['action']
+  ): SyncQueue['action'] | null {
+    switch (existing.action) {
+      case 'create':
+        if (action === 'delete') {
+          // Se a criação já está a caminho do servidor, a exclusão precisa ir também
+          return this.inFlightIds.has(existing.id) ? 'delete' : null;
+        }
+        return 'create';
+      case 'update':
+        if (action === 'create') {
+          // Reenvio de uma criação que falhou: o servidor ainda não tem a entidade
+          return 'create';
+        }
+        return action === 'delete' ? 'delete' : 'update';
+      case 'delete':
+        return action === 'delete' ? 'delete' : 'update';
+      default:
+        return action;
+    }
+  }
+
+  // Cria um projeto e o envia ao servidor
+  async createProjectOffline(project: Omit<Project, 'id'>): Promise<string> {
+    this.requireSession();
+
+    return this.writeOffline(async tx => {
+      const projectId = await tx.createProject(project);
+      const created = await tx.getProjectById(projectId);
+      await this.enqueue(tx, 'project', 'create', projectId, created);
+      return projectId;
+    });
+  }
+
+  async updateProjectOffline(projectId: string, changes: Partial<Project>): Promise<void> {
+    this.requireSession();
+
+    await this.writeOffline(async tx => {
+      const project = await tx.getProjectById(projectId);
+      if (!project) {
+        throw new Error(`Project ${projectId} not found`);
+      }
+      const updated = { ...project, ...changes, id: projectId, updatedAt: new Date().toISOString() };
+      await tx.upsertProject(updated);
+      await this.enqueue(tx, 'project', 'update', projectId, updated);
+    });
+  }
+
+  // Cria um relatório e o envia ao servidor
+  async createReportOffline(report: Omit<Report, 'id'>): Promise<string> {
+    this.requireSession();
+
+    return this.writeOffline(async tx => {
+      const reportId = await tx.createReport(report);
+      const created = await tx.getReportById(reportId);
+      await this.enqueue(tx, 'report', 'create', reportId, created);
+      return reportId;
+    });
+  }
+
+  // Altera um relatório e envia o estado resultante (inclusive a nova
+  // versão do formulário, se os campos mudaram)
+  async updateReportOffline(reportId: string, changes: Partial<Report>): Promise<void> {
+    this.requireSession();
+
+    await this.writeOffline(async tx => {
+      await tx.updateReport(reportId, changes);
+      const updated = await tx.getReportById(reportId);
+      if (!updated) {
+        throw new Error(`Report ${reportId} not found`);
+      }
+      await this.enqueue(tx, 'report', 'update', reportId, updated);
+    });
   }
 
   // Método para salvar submissão offline
@@ -212,28 +863,39 @@ class SyncService {
     data: Record<string, any>,
     status: 'draft' | 'submitted' = 'draft'
   ): Promise<string> {
-    const submissionId = await databaseService.createSubmission({
-      reportId,
-      userId,
-      data,
-      status,
-      submittedAt: status === 'submitted' ? new Date().toISOString() : undefined,
-      lastModified: new Date().toISOString(),
-      version: 1,
-      isOffline: true,
-      syncStatus: 'pending'
-    });
+    this.requireSession();
+    const submittedAt = status === 'submitted' ? new Date().toISOString() : undefined;
 
-    // Adiciona à fila de sincronização
-    await this.addToSyncQueue('submission', 'create', submissionId, {
-      reportId,
-      userId,
-      data,
-      status,
-      submittedAt: status === 'submitted' ? new Date().toISOString() : undefined
-    });
+    return this.writeOffline(async tx => {
+      const submissionId = await tx.createSubmission({
+        reportId,
+        userId,
+        data,
+        status,
+        submittedAt,
+        lastModified: new Date().toISOString(),
+        version: 1,
+        isOffline: true,
+        syncStatus: 'pending'
+      });
+      await versionService.recordVersion(
+        submissionId,
+        userId,
+        status === 'submitted' ? 'Enviada' : undefined,
+        tx
+      );
+
+      // Adiciona à fila de sincronização
+      await this.enqueue(tx, 'submission', 'create', submissionId, {
+        reportId,
+        userId,
+        data,
+        status,
+        submittedAt
+      });
 
-    return submissionId;
+      return submissionId;
+    });
   }
 
   // Método para atualizar submissão offline
@@ -242,6 +904,7 @@ class SyncService {
     data: Record<string, any>,
     status?: 'draft' | 'submitted'
   ): Promise<void> {
+    const { userId } = this.requireSession();
     const updateData: Partial<ReportSubmission> = {
       data,
       syncStatus: 'pending'
@@ -254,12 +917,205 @@ class SyncService {
       }
     }
 
-    await databaseService.updateSubmission(submissionId, updateData);
+    await this.writeOffline(async tx => {
+      await tx.updateSubmission(submissionId, updateData);
+      await versionService.recordVersion(
+        submissionId,
+        userId,
+        status === 'submitted' ? 'Enviada' : undefined,
+        tx
+      );
 
-    // Adiciona à fila de sincronização
-    await this.addToSyncQueue('submission', 'update', submissionId, {
-      data,
-      status
+      // Adiciona à fila de sincronização
+      await this.enqueue(tx, 'submission', 'update', submissionId, {
+        data,
+        status
+      });
+    });
+  }
+
+  // Passa um rascunho para a versão atual do formulário, levando as respostas
+  // compatíveis (ver migrateAnswers). Retorna os campos cujas respostas se perderam
+  async upgradeSubmissionForm(
+    submissionId: string,
+    mapping: Record<string, string> = {}
+  ): Promise<ReportField[]> {
+    const { userId } = this.requireSession();
+    const submission = await getRepository().getSubmissionById(submissionId);
+    if (!submission) {
+      throw new Error(`Submission ${submissionId} not found`);
+    }
+    if (submission.status !== 'draft') {
+      throw new Error(`Submission ${submissionId} must be a draft to change form version`);
+    }
+
+    const report = await getRepository().getReportById(submission.reportId);
+    if (!report) {
+      throw new Error(`Report ${submission.reportId} not found`);
+    }
+
+    const targetVersion = report.formVersion ?? 1;
+    if ((submission.formVersion ?? 1) === targetVersion) {
+      return [];
+    }
+
+    const definition = await getRepository().getReportDefinition(report.id, submission.formVersion ?? 1);
+    const { data, dropped } = migrateAnswers(
+      submission.data,
+      definition ? definition.fields : report.fields,
+      report.fields,
+      mapping
+    );
+
+    await this.writeOffline(async tx => {
+      await tx.updateSubmission(submissionId, {
+        data,
+        formVersion: targetVersion,
+        syncStatus: 'pending'
+      });
+      await versionService.recordVersion(
+        submissionId,
+        userId,
+        `Migrada para a versão ${targetVersion} do formulário`,
+        tx
+      );
+
+      await this.enqueue(tx, 'submission', 'update', submissionId, { data });
+    });
+
+    return dropped;
+  }
+
+  // Volta os dados de um rascunho para os de uma versão anterior.
+  // A restauração gera uma nova versão; o histórico não é reescrito
+  async restoreSubmissionVersion(submissionId: string, versionId: string): Promise<void> {
+    const { userId } = this.requireSession();
+    const submission = await getRepository().getSubmissionById(submissionId);
+    if (!submission) {
+      throw new Error(`Submission ${submissionId} not found`);
+    }
+    if (submission.status !== 'draft') {
+      throw new Error(`Submission ${submissionId} must be reopened before restoring`);
+    }
+
+    const versions = await versionService.getHistory(submissionId);
+    const version = versions.find(v => v.id === versionId);
+    if (!version) {
+      throw new Error(`Version ${versionId} not found for submission ${submissionId}`);
+    }
+
+    await this.writeOffline(async tx => {
+      await tx.updateSubmission(submissionId, {
+        data: version.data,
+        syncStatus: 'pending'
+      });
+      await versionService.recordVersion(submissionId, userId, `Restaurada da versão ${version.version}`, tx);
+
+      await this.enqueue(tx, 'submission', 'update', submissionId, {
+        data: version.data
+      });
+    });
+  }
+
+  // Move um item para a lixeira e envia a exclusão. Respostas só podem ser
+  // excluídas enquanto são rascunhos; se ainda não chegaram ao servidor,
+  // a criação pendente é simplesmente descartada da fila
+  async moveToTrashOffline(type: TrashItem['type'], id: string): Promise<void> {
+    this.requireSession();
+
+    if (type === 'submission') {
+      const submission = await getRepository().getSubmissionById(id);
+      if (!submission) {
+        return;
+      }
+      if (submission.status !== 'draft') {
+        throw new Error(`Submission ${id} is not a draft`);
+      }
+    }
+
+    await this.writeOffline(async tx => {
+      await tx.moveToTrash(type, id);
+      await this.enqueue(tx, type, 'delete', id, {});
+    });
+  }
+
+  // Tira um item da lixeira e o envia de novo ao servidor
+  async restoreFromTrashOffline(type: TrashItem['type'], id: string): Promise<void> {
+    this.requireSession();
+
+    await this.writeOffline(async tx => {
+      await tx.restoreFromTrash(type, id);
+
+      if (type === 'submission') {
+        // Respostas cuja criação nunca chegou ao servidor são criadas de novo
+        const submission = await tx.getSubmissionById(id);
+        const action = submission?.serverVersion == null ? 'create' : 'update';
+        await this.enqueue(tx, 'submission', action, id, {});
+        return;
+      }
+
+      const entity = type === 'project'
+        ? await tx.getProjectById(id)
+        : await tx.getReportById(id);
+      if (entity) {
+        await this.enqueue(tx, type, 'update', id, entity);
+      }
+    });
+  }
+
+  // Volta uma resposta enviada (ou rejeitada) para rascunho, permitindo editá-la
+  async reopenSubmissionOffline(submissionId: string): Promise<void> {
+    const { userId } = this.requireSession();
+    const submission = await getRepository().getSubmissionById(submissionId);
+    if (!submission) {
+      throw new Error(`Submission ${submissionId} not found`);
+    }
+    if (submission.status !== 'submitted' && submission.status !== 'rejected') {
+      throw new Error(`Submission ${submissionId} cannot be reopened from ${submission.status}`);
+    }
+
+    await this.writeOffline(async tx => {
+      await tx.updateSubmission(submissionId, {
+        status: 'draft',
+        submittedAt: null,
+        syncStatus: 'pending'
+      });
+      await versionService.recordVersion(submissionId, userId, 'Reaberta para edição', tx);
+
+      await this.enqueue(tx, 'submission', 'update', submissionId, {
+        status: 'draft'
+      });
+    });
+  }
+
+  // Métodos para conflitos de versão
+  async getSubmissionConflict(submissionId: string): Promise<SubmissionConflict | null> {
+    return getRepository().getSubmissionConflict(submissionId);
+  }
+
+  // Aplica a mesclagem escolhida pelo usuário sobre a versão atual do servidor
+  async resolveSubmissionConflict(
+    submissionId: string,
+    mergedData: Record<string, any>
+  ): Promise<void> {
+    const { userId } = this.requireSession();
+    const conflict = await getRepository().getSubmissionConflict(submissionId);
+    if (!conflict) {
+      return;
+    }
+
+    await this.writeOffline(async tx => {
+      await tx.updateSubmission(submissionId, {
+        data: mergedData,
+        serverVersion: conflict.serverSubmission.version,
+        syncStatus: 'pending'
+      });
+      await tx.removeSubmissionConflict(submissionId);
+      await versionService.recordVersion(submissionId, userId, 'Conflito resolvido', tx);
+
+      await this.enqueue(tx, 'submission', 'update', submissionId, {
+        data: mergedData
+      });
     });
   }
 
@@ -283,24 +1139,53 @@ class SyncService {
     failedItems: number;
     lastSyncTime: string | null;
   }> {
-    const pendingItems = await databaseService.getPendingSyncItems();
-    const failedItems = pendingItems.filter(item => item.attempts >= 3);
+    if (!this.session) {
+      return { pendingItems: 0, failedItems: 0, lastSyncTime: null };
+    }
+
+    const pendingItems = await getRepository().getSyncQueueCount(this.session.userId);
+    const failedItems = await getRepository().getDeadLetterCount(this.session.userId);
     
     return {
-      pendingItems: pendingItems.length,
-      failedItems: failedItems.length,
-      lastSyncTime: null // TODO: implementar tracking do último sync
+      pendingItems,
+      failedItems,
+      lastSyncTime: this.status.lastSyncTime
     };
   }
 
+  // Métodos para a fila de itens com falha definitiva
+  async getFailedSyncItems(): Promise<DeadLetterItem[]> {
+    if (!this.session) {
+      return [];
+    }
+    return getRepository().getDeadLetterItems(this.session.userId);
+  }
+
+  async retryFailedSyncItem(id: string): Promise<void> {
+    const { userId } = this.requireSession();
+    const item = await getRepository().getDeadLetterItem(id);
+    if (!item || item.userId !== userId) {
+      return;
+    }
+
+    // A fila mescla com edições feitas depois da falha, que são mais novas
+    // que os dados do item, e dispara o envio
+    await this.writeOffline(async tx => {
+      const pending = await tx.getSyncItemForEntity(item.type, item.entityId, userId);
+      await tx.removeDeadLetterItem(id);
+      await this.enqueue(tx, item.type, item.action, item.entityId, { ...item.data, ...pending?.data });
+    });
+  }
+
+  async discardFailedSyncItem(id: string): Promise<void> {
+    await getRepository().removeDeadLetterItem(id);
+    await this.refreshCounts();
+  }
+
   // Método para limpar itens de sincronização falhados
   async clearFailedSyncItems(): Promise<void> {
-    const pendingItems = await databaseService.getPendingSyncItems();
-    const failedItems = pendingItems.filter(item => item.attempts >= 3);
-    
-    for (const item of failedItems) {
-      await databaseService.removeSyncQueueItem(item.id);
-    }
+    await getRepository().clearDeadLetterItems(this.requireSession().userId);
+    await this.refreshCounts();
   }
 }
 
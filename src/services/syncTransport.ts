@@ -0,0 +1,61 @@
+import { SyncChanges, SyncOperation, SyncOperationResult, AttachmentUploadInfo } from '../types';
+import { httpClient } from './httpClient';
+
+// Canal usado pelo SyncService para falar com o servidor.
+// Falhas de comunicação devem ser lançadas como ApiError.
+export interface SyncTransport {
+  setAuthToken(token: string | null): void;
+  // Envia um lote de operações e devolve um resultado por operação
+  pushBatch(operations: SyncOperation[]): Promise<SyncOperationResult[]>;
+  // Alterações feitas no servidor desde o cursor (null na primeira vez)
+  pullChanges(cursor: string | null): Promise<SyncChanges>;
+
+  // Upload de anexos em partes: abre a sessão, envia os trechos a partir do
+  // offset confirmado pelo servidor e conclui, recebendo o id do anexo
+  createUpload(info: AttachmentUploadInfo): Promise<{ uploadId: string }>;
+  getUploadOffset(uploadId: string): Promise<number>;
+  // Devolve o offset aceito pelo servidor após o trecho
+  uploadChunk(uploadId: string, offset: number, base64Data: string): Promise<number>;
+  completeUpload(uploadId: string): Promise<{ attachmentId: string }>;
+}
+
+// Implementação real, sobre a API REST
+export class HttpSyncTransport implements SyncTransport {
+  setAuthToken(token: string | null): void {
+    httpClient.setAuthToken(token);
+  }
+
+  async pushBatch(operations: SyncOperation[]): Promise<SyncOperationResult[]> {
+    const response = await httpClient.post<{ results?: SyncOperationResult[] } | null>(
+      '/sync/batch',
+      { operations }
+    );
+    return response?.results || [];
+  }
+
+  async pullChanges(cursor: string | null): Promise<SyncChanges> {
+    const query = cursor ? `?since=${encodeURIComponent(cursor)}` : '';
+    return httpClient.get<SyncChanges>(`/sync/changes${query}`);
+  }
+
+  createUpload(info: AttachmentUploadInfo): Promise<{ uploadId: string }> {
+    return httpClient.post<{ uploadId: string }>('/attachments/uploads', info);
+  }
+
+  async getUploadOffset(uploadId: string): Promise<number> {
+    const response = await httpClient.get<{ offset: number }>(`/attachments/uploads/${uploadId}`);
+    return response.offset;
+  }
+
+  async uploadChunk(uploadId: string, offset: number, base64Data: string): Promise<number> {
+    const response = await httpClient.put<{ offset: number }>(
+      `/attachments/uploads/${uploadId}/chunks`,
+      { offset, data: base64Data }
+    );
+    return response.offset;
+  }
+
+  completeUpload(uploadId: string): Promise<{ attachmentId: string }> {
+    return httpClient.post<{ attachmentId: string }>(`/attachments/uploads/${uploadId}/complete`);
+  }
+}
@@ -0,0 +1,93 @@
+import { getRepository } from '../database';
+import { TRASH_CONFIG } from '../config/trash';
+import { Attachment, TrashItem } from '../types';
+import { attachmentService } from './attachmentService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Exclusão definitiva e expiração dos itens da lixeira. Mover para a lixeira
+// e restaurar passam pelo syncService, já que precisam chegar ao servidor
+class TrashService {
+  async getItems(userId: string): Promise<TrashItem[]> {
+    return getRepository().getTrashItems(userId);
+  }
+
+  // Data a partir da qual o item é removido definitivamente
+  getExpiresAt(item: TrashItem): Date {
+    return new Date(new Date(item.deletedAt).getTime() + TRASH_CONFIG.retentionDays * DAY_MS);
+  }
+
+  // Respostas enviadas ficam guardadas até o fim do prazo legal do projeto,
+  // mesmo na lixeira; null se o item pode ser excluído definitivamente
+  async getLegalHoldUntil(item: TrashItem): Promise<Date | null> {
+    const until = await getRepository().getLegalHoldUntil(item.type, item.id);
+    return until && new Date(until).getTime() > Date.now() ? new Date(until) : null;
+  }
+
+  // A exclusão já foi enviada ao servidor ao mover o item para a lixeira
+  async purge(item: TrashItem): Promise<void> {
+    const heldUntil = await this.getLegalHoldUntil(item);
+    if (heldUntil) {
+      throw new Error(`Trash item ${item.id} is under legal retention until ${heldUntil.toISOString()}`);
+    }
+
+    let attachments: Attachment[] = [];
+    switch (item.type) {
+      case 'project':
+        attachments = await getRepository().deleteProject(item.id);
+        break;
+      case 'report':
+        attachments = await getRepository().deleteReport(item.id);
+        break;
+      case 'submission':
+        attachments = await getRepository().deleteSubmission(item.id);
+        break;
+    }
+
+    // Os arquivos só saem depois que a exclusão foi gravada
+    for (const attachment of attachments) {
+      try {
+        attachmentService.deleteFile(attachment);
+      } catch (error) {
+        console.error(`Error deleting attachment file ${attachment.id}:`, error);
+      }
+    }
+  }
+
+  // Itens sob prazo legal permanecem; retorna quantos ficaram
+  async emptyTrash(userId: string): Promise<number> {
+    const items = await this.getItems(userId);
+    let held = 0;
+    for (const item of items) {
+      if (await this.getLegalHoldUntil(item)) {
+        held++;
+        continue;
+      }
+      await this.purge(item);
+    }
+    return held;
+  }
+
+  // Remove os itens que passaram do prazo de retenção e não estão sob prazo
+  // legal; retorna quantos foram removidos
+  async purgeExpired(userId: string): Promise<number> {
+    const now = Date.now();
+    const expired: TrashItem[] = [];
+    for (const item of await this.getItems(userId)) {
+      if (this.getExpiresAt(item).getTime() <= now && !(await this.getLegalHoldUntil(item))) {
+        expired.push(item);
+      }
+    }
+
+    for (const item of expired) {
+      await this.purge(item);
+    }
+
+    if (expired.length > 0) {
+      console.log(`Purged ${expired.length} expired trash item(s)`);
+    }
+    return expired.length;
+  }
+}
+
+export const trashService = new TrashService();
@@ -0,0 +1,90 @@
+import { getRepository, Repository } from '../database';
+import { FieldDiff, ReportField, ReportVersion } from '../types';
+
+const isSameValue = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Campos com valores diferentes, na ordem do formulário. Chaves que não
+// pertencem mais ao relatório aparecem no fim, identificadas pelo id
+export const diffData = (
+  before: Record<string, any>,
+  after: Record<string, any>,
+  fields: ReportField[]
+): FieldDiff[] => {
+  const ordered = [...fields].sort((a, b) => a.order - b.order);
+  const known = new Set(ordered.map(field => field.id));
+  const extra = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(key => !known.has(key))
+    .map(key => ({ id: key, label: key }));
+
+  return [...ordered, ...extra]
+    .filter(field => !isSameValue(before[field.id], after[field.id]))
+    .map(field => ({
+      fieldId: field.id,
+      label: field.label,
+      before: before[field.id],
+      after: after[field.id],
+    }));
+};
+
+class VersionService {
+  // Registra o estado atual da submissão no histórico. O resumo combina a
+  // observação (ex.: "Enviada") com os campos alterados desde a última versão.
+  // Salvamentos sem alteração e sem observação não geram versão.
+  // Dentro de uma transação, recebe o repositório dela
+  async recordVersion(
+    submissionId: string,
+    changedBy: string,
+    note?: string,
+    repository: Repository = getRepository()
+  ): Promise<ReportVersion | null> {
+    const submission = await repository.getSubmissionById(submissionId);
+    if (!submission) {
+      throw new Error(`Submission ${submissionId} not found`);
+    }
+
+    const [latest] = await repository.getReportVersions(submissionId);
+    const report = await repository.getReportById(submission.reportId);
+    const diffs = latest ? diffData(latest.data, submission.data, report?.fields || []) : [];
+
+    if (latest && diffs.length === 0 && !note) {
+      return null;
+    }
+
+    const parts: string[] = [];
+    if (!latest) {
+      // Respostas anteriores ao histórico só passam a ter versões na próxima alteração
+      parts.push(submission.version <= 1 ? 'Criada' : 'Primeira versão registrada');
+    }
+    if (note) {
+      parts.push(note);
+    }
+    if (diffs.length > 0) {
+      parts.push(`Alterado(s): ${diffs.map(diff => diff.label).join(', ')}`);
+    }
+
+    const version: Omit<ReportVersion, 'id'> = {
+      submissionId,
+      version: latest ? latest.version + 1 : 1,
+      data: submission.data,
+      changedBy,
+      changedAt: new Date().toISOString(),
+      changes: parts.join('; '),
+    };
+    const id = await repository.createReportVersion(version);
+
+    return { id, ...version };
+  }
+
+  // Da versão mais nova para a mais antiga
+  async getHistory(submissionId: string): Promise<ReportVersion[]> {
+    return getRepository().getReportVersions(submissionId);
+  }
+
+  // Compara duas versões; a ordem dos argumentos não importa
+  diffVersions(a: ReportVersion, b: ReportVersion, fields: ReportField[]): FieldDiff[] {
+    const [older, newer] = a.version <= b.version ? [a, b] : [b, a];
+    return diffData(older.data, newer.data, fields);
+  }
+}
+
+export const versionService = new VersionService();
@@ -17,6 +17,7 @@ export interface Project {
   settings: ProjectSettings;
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string; // Preenchido enquanto o projeto está na lixeira
 }
 
 export interface ProjectSettings {
@@ -24,6 +25,14 @@ export interface ProjectSettings {
   primaryColor: string;
   secondaryColor: string;
   allowOffline: boolean;
+  retention?: RetentionPolicy;
+}
+
+// Regras de retenção do projeto, em dias; regra sem valor fica desligada
+export interface RetentionPolicy {
+  archiveInactiveReportsAfterDays?: number; // Sem alterações nem respostas nesse período
+  deleteDraftsAfterDays?: number; // Rascunhos abandonados vão para a lixeira
+  minSubmissionRetentionDays?: number; // Prazo legal: respostas enviadas não são excluídas antes disso
 }
 
 export interface Report {
@@ -34,9 +43,19 @@ export interface Report {
   fields: ReportField[];
   permissions: ReportPermissions;
   status: 'draft' | 'active' | 'archived';
+  formVersion?: number; // Versão atual dos campos; muda a cada alteração publicada
   createdAt: string;
   updatedAt: string;
   createdBy: string;
+  deletedAt?: string; // Preenchido enquanto o relatório está na lixeira
+}
+
+// Campos de um relatório em uma versão do formulário
+export interface ReportDefinition {
+  reportId: string;
+  version: number;
+  fields: ReportField[];
+  createdAt: string;
 }
 
 export interface ReportField {
@@ -74,8 +93,44 @@ export interface ReportSubmission {
   submittedAt?: string;
   lastModified: string;
   version: number;
+  serverVersion?: number; // Última versão confirmada pelo servidor
+  formVersion?: number; // Versão do formulário em que foi preenchida
   isOffline: boolean; // Indica se foi criado offline
-  syncStatus: 'synced' | 'pending' | 'error';
+  syncStatus: 'synced' | 'pending' | 'error' | 'conflict';
+  deletedAt?: string; // Preenchido enquanto a resposta está na lixeira
+}
+
+// Item exibido na lixeira. Itens excluídos junto com o projeto ou relatório
+// que os contém não aparecem separadamente: voltam quando ele é restaurado
+export interface TrashItem {
+  type: 'project' | 'report' | 'submission';
+  id: string;
+  title: string;
+  parentTitle?: string; // Projeto do relatório
+  deletedAt: string;
+}
+
+// Resultado da busca textual em relatórios e respostas
+export interface SearchResult {
+  type: 'report' | 'submission';
+  id: string;
+  reportId: string;
+  title: string; // Título do relatório
+  snippet: SearchSnippetPart[]; // Trecho do texto, com os termos encontrados destacados
+  rank: number; // Menor é mais relevante
+}
+
+export interface SearchSnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+// Submissão rejeitada pelo servidor por ter sido editada em outro dispositivo
+export interface SubmissionConflict {
+  submissionId: string;
+  localData: Record<string, any>;
+  serverSubmission: ReportSubmission;
+  detectedAt: string;
 }
 
 export interface ReportVersion {
@@ -88,6 +143,14 @@ export interface ReportVersion {
   changes: string; // Descrição das mudanças
 }
 
+// Diferença de um campo entre duas versões de uma resposta
+export interface FieldDiff {
+  fieldId: string;
+  label: string;
+  before: any;
+  after: any;
+}
+
 export interface Notification {
   id: string;
   userId: string;
@@ -107,10 +170,126 @@ export interface SyncQueue {
   data: Record<string, any>;
   attempts: number;
   lastAttempt?: string;
+  nextAttemptAt?: string; // Próxima tentativa agendada (backoff)
   error?: string;
+  revision?: number; // Incrementado a cada alteração combinada no mesmo item
+  userId?: string; // Usuário da sessão que gerou a alteração
   createdAt: string;
 }
 
+// Item que esgotou as tentativas e aguarda ação manual
+export interface DeadLetterItem {
+  id: string;
+  type: SyncQueue['type'];
+  action: SyncQueue['action'];
+  entityId: string;
+  data: Record<string, any>;
+  attempts: number;
+  error?: string;
+  userId?: string;
+  failedAt: string;
+  createdAt: string;
+}
+
+export type RetentionRule = 'archive_report' | 'delete_draft';
+
+// O que a rotina de retenção arquivou ou removeu
+export interface RetentionLogEntry {
+  id: string;
+  userId: string;
+  projectId: string;
+  rule: RetentionRule;
+  entityType: SyncQueue['type'];
+  entityId: string;
+  details?: string; // Título do relatório ou último erro de envio, para exibição
+  appliedAt: string;
+}
+
+// Arquivo de um campo 'file' ou 'image', enviado em partes antes da submissão
+export interface Attachment {
+  id: string;
+  userId: string;
+  fieldId?: string;
+  localUri: string; // Cópia no sandbox do app
+  fileName: string;
+  mimeType?: string;
+  size: number;
+  checksum: string; // MD5 do conteúdo
+  uploadState: 'pending' | 'uploading' | 'uploaded';
+  uploadId?: string; // Sessão de upload aberta no servidor
+  uploadedBytes: number;
+  remoteId?: string; // Id do anexo no servidor após o upload
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Valor gravado em submission.data para campos de arquivo
+export interface AttachmentRef {
+  attachmentId: string; // Id local; no envio é trocado pelo id do servidor
+  fileName: string;
+  mimeType?: string;
+  size?: number;
+}
+
+// Dados informados ao abrir uma sessão de upload
+export interface AttachmentUploadInfo {
+  fileName: string;
+  mimeType?: string;
+  size: number;
+  checksum: string;
+}
+
+// Operação enviada ao servidor no lote de sincronização
+export interface SyncOperation {
+  idempotencyKey: string;
+  type: SyncQueue['type'];
+  action: SyncQueue['action'];
+  entityId: string;
+  data?: Record<string, any>;
+  expectedVersion?: number | null; // Versão do servidor em que a alteração se baseia
+}
+
+// Resultado de cada operação do lote, no formato de uma resposta HTTP
+export interface SyncOperationResult {
+  idempotencyKey: string;
+  status: number;
+  body?: any;
+}
+
+// Alterações recebidas do servidor desde o último cursor
+export interface SyncChanges {
+  cursor: string;
+  hasMore?: boolean;
+  users?: User[];
+  projects?: Project[];
+  reports?: Report[];
+  submissions?: ReportSubmission[];
+}
+
+// Estado atual da sincronização exibido pela interface
+export interface SyncStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  processed: number; // Itens da fila já processados no ciclo atual
+  total: number; // Itens da fila no ciclo atual
+  pendingItems: number;
+  failedItems: number;
+  lastSyncTime: string | null; // Último ciclo concluído sem erros
+  lastError?: string;
+}
+
+// Eventos emitidos pelo serviço de sincronização
+export type SyncEvent =
+  | { type: 'started' }
+  | { type: 'progress'; processed: number; total: number }
+  | { type: 'itemSynced'; item: SyncQueue }
+  | { type: 'itemFailed'; item: SyncQueue; error: string }
+  | { type: 'completed'; lastSyncTime: string }
+  | { type: 'failed'; error: string }
+  | { type: 'connectivity'; isOnline: boolean }
+  | { type: 'queueChanged' };
+
 // Tipos para autenticação
 export interface AuthState {
   isAuthenticated: boolean;
@@ -132,14 +311,52 @@ export interface RegisterData {
 
 // Tipos para filtros e busca
 export interface ReportFilter {
-  status?: string[];
+  status?: Report['status'][];
   dateRange?: {
-    start: string;
+    start: string; // ISO; compara com a data de criação
     end: string;
   };
-  assignedTo?: string[];
+  assignedTo?: string[]; // IDs dos responsáveis: quem criou ou pode preencher
   projectId?: string;
   searchTerm?: string;
+  visibleTo?: string; // ID do usuário: apenas relatórios que ele criou ou pode preencher
+}
+
+// Condição sobre a resposta de um campo. A coluna comparada segue o tipo de
+// `value`: texto, número (inclui textos numéricos) ou booleano
+export interface AnswerCondition {
+  fieldId: string;
+  operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'in';
+  value: string | number | boolean | (string | number)[];
+}
+
+// Consulta às respostas de um relatório; critérios combinados com E
+export interface AnswerQuery {
+  reportId: string;
+  conditions?: AnswerCondition[];
+  status?: ReportSubmission['status'][];
+  submittedBetween?: {
+    start: string; // ISO; compara com a data de envio
+    end: string;
+  };
+}
+
+export type AnswerAggregate = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface AnswerValueCount {
+  value: string | number | boolean;
+  count: number;
+}
+
+// Tipos para paginação por cursor
+export interface PageRequest {
+  cursor?: string | null; // nextCursor da página anterior; vazio na primeira
+  limit?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null; // null quando não há mais itens
 }
 
 export interface DashboardStats {
@@ -170,3 +387,37 @@ export interface ExportOptions {
   };
 }
 
+
+// Tipos para backup completo do dispositivo
+export type BackupTables = Record<string, Record<string, any>[]>;
+
+// Anexo guardado no backup; o conteúdo, em base64, é lido à parte
+export interface BackupFile {
+  attachmentId: string;
+  fileName: string;
+}
+
+export interface BackupArchive {
+  format: 'reportsapp-backup';
+  formatVersion: number;
+  schemaVersion: number; // PRAGMA user_version de quem exportou
+  exportedAt: string;
+  tables: BackupTables; // Linhas no formato das colunas do SQLite
+  uri: string; // Arquivo escolhido; os anexos são lidos dele só na importação
+}
+
+// merge: insere o que falta e atualiza o que está mais novo no backup;
+// replace: apaga os dados locais antes de importar
+export type BackupImportMode = 'merge' | 'replace';
+
+export interface BackupTableSummary {
+  inserted: number;
+  updated: number;
+  skipped: number;
+}
+
+export interface BackupSummary {
+  mode: BackupImportMode;
+  tables: Record<string, BackupTableSummary>;
+  files: number;
+}